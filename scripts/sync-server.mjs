@@ -0,0 +1,230 @@
+// Stand-in sync server for local development
+// Speaks the HttpBackend protocol (src/lib/remote-backend.ts) and keeps rows in memory,
+// so the app's sync can be tried end-to-end without a Supabase project.
+//
+//   npm run sync-server            # listens on http://localhost:8787
+//   PORT=9000 npm run sync-server
+//
+// Then start the app with NEXT_PUBLIC_SYNC_URL=http://localhost:8787, and
+// NEXT_PUBLIC_SYNC_REALTIME_URL=ws://localhost:8787/realtime for live registers.
+// The WebSocket side follows the channel contract in src/lib/realtime-socket.ts.
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.PORT) || 8787;
+const TABLES = new Set(["classes", "students", "sessions", "points", "awards"]);
+
+// table -> id -> row
+const tables = new Map([...TABLES].map(table => [table, new Map()]));
+
+// Server time, strictly increasing, so rows pushed in the same millisecond still order
+let lastStamp = 0;
+function stamp() {
+  lastStamp = Math.max(Date.now(), lastStamp + 1);
+  return new Date(lastStamp).toISOString();
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let text = "";
+  for await (const chunk of req) text += chunk;
+  return text ? JSON.parse(text) : {};
+}
+
+// One page of rows after `since`, continuing after the `after` cursor ("updatedAt|id") of the last page
+function pull(rows, params) {
+  const since = params.get("since");
+  const studioId = params.get("studioId");
+  const limit = Number(params.get("limit")) || 500;
+  const after = params.get("after");
+  const split = after ? after.indexOf("|") : -1;
+  const afterUpdatedAt = split > 0 ? after.slice(0, split) : null;
+  const afterId = split > 0 ? after.slice(split + 1) : null;
+
+  const page = [...rows.values()]
+    .filter(row => (!since || row.updatedAt > since) && (!studioId || row.studioId === studioId))
+    .filter(row => !afterUpdatedAt || row.updatedAt > afterUpdatedAt || (row.updatedAt === afterUpdatedAt && row.id > afterId))
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .slice(0, limit);
+
+  const last = page[page.length - 1];
+  return { rows: page, next: page.length === limit ? `${last.updatedAt}|${last.id}` : null };
+}
+
+function push(table, rows, incoming) {
+  for (const row of incoming) {
+    if (!row || typeof row.id !== "string") continue;
+    // An older version (by hlc) doesn't overwrite a newer one; the restamp sends the newer one back
+    const stored = rows.get(row.id);
+    const kept = stored?.hlc && row.hlc && row.hlc < stored.hlc ? stored : row;
+    const saved = { ...kept, synced: true, updatedAt: stamp() };
+    rows.set(row.id, saved);
+    broadcast(table, saved);
+  }
+}
+
+function purge(rows, deletedBefore, purgedBefore, studioId) {
+  for (const [id, row] of rows) {
+    if (studioId && row.studioId !== studioId) continue;
+    if (!row.deleted) continue;
+    const expired = row.deletedAt && row.deletedAt < deletedBefore;
+    const emptied = purgedBefore && row.purgedAt && row.purgedAt < purgedBefore;
+    if (expired || emptied) rows.delete(id);
+  }
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const table = url.pathname.replace(/^\/+|\/+$/g, "");
+  const rows = tables.get(table);
+  if (!rows) return send(res, 404, { error: `Unknown table "${table}"` });
+
+  try {
+    if (req.method === "GET") {
+      return send(res, 200, pull(rows, url.searchParams));
+    }
+
+    if (req.method === "POST") {
+      const body = await readJson(req);
+      if (!Array.isArray(body.rows)) return send(res, 400, { error: "Expected { rows: [...] }" });
+      push(table, rows, body.rows);
+      return send(res, 204);
+    }
+
+    if (req.method === "DELETE") {
+      const deletedBefore = url.searchParams.get("deletedBefore");
+      if (!deletedBefore) return send(res, 400, { error: "deletedBefore is required" });
+      purge(rows, deletedBefore, url.searchParams.get("purgedBefore"), url.searchParams.get("studioId"));
+      return send(res, 204);
+    }
+
+    send(res, 405, { error: `${req.method} not allowed` });
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+// Live updates: each /realtime socket -> subscription id -> { table, classId, studioId }
+const subscribers = new Map();
+
+function broadcast(table, row) {
+  for (const [socket, subscriptions] of subscribers) {
+    for (const [id, sub] of subscriptions) {
+      if (sub.table !== table || sub.classId !== row.classId) continue;
+      if (sub.studioId && sub.studioId !== row.studioId) continue;
+      sendFrame(socket, 0x1, Buffer.from(JSON.stringify({ type: "change", id, row })));
+    }
+  }
+}
+
+function handleMessage(socket, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return;
+  }
+  const subscriptions = subscribers.get(socket);
+  if (!subscriptions || typeof message.id !== "string") return;
+
+  if (message.type === "subscribe" && TABLES.has(message.table) && typeof message.classId === "string") {
+    subscriptions.set(message.id, { table: message.table, classId: message.classId, studioId: message.studioId });
+  } else if (message.type === "unsubscribe") {
+    subscriptions.delete(message.id);
+  }
+}
+
+// Just enough of RFC 6455 for JSON text messages: no extensions, no fragments
+function sendFrame(socket, opcode, payload) {
+  if (socket.destroyed) return;
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x80 | opcode, length])
+    : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x80 | opcode, 127]), bigEndian64(length)]);
+  socket.write(Buffer.concat([header, payload]));
+}
+
+function bigEndian64(value) {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(value));
+  return buffer;
+}
+
+// Pull every complete frame off the front of `buffer`; returns what's left over
+function readFrames(socket, buffer) {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    buffer = buffer.subarray(offset + length);
+
+    if (opcode === 0x1) handleMessage(socket, payload.toString("utf8"));
+    else if (opcode === 0x9) sendFrame(socket, 0xa, payload);
+    else if (opcode === 0x8) {
+      sendFrame(socket, 0x8, Buffer.alloc(0));
+      socket.end();
+    }
+  }
+  return buffer;
+}
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  const key = req.headers["sec-websocket-key"];
+  if (url.pathname !== "/realtime" || typeof key !== "string") {
+    socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64");
+  socket.write([
+    "HTTP/1.1 101 Switching Protocols",
+    "Upgrade: websocket",
+    "Connection: Upgrade",
+    `Sec-WebSocket-Accept: ${accept}`,
+    "\r\n",
+  ].join("\r\n"));
+
+  subscribers.set(socket, new Map());
+  let pending = Buffer.alloc(0);
+  socket.on("data", chunk => {
+    pending = readFrames(socket, Buffer.concat([pending, chunk]));
+  });
+  socket.on("close", () => subscribers.delete(socket));
+  socket.on("error", () => subscribers.delete(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}`);
+  console.log(`Live updates on ws://localhost:${PORT}/realtime`);
+});
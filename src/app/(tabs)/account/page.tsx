@@ -0,0 +1,428 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { useModal } from "@/contexts/ModalContext";
+import { useSyncData, usesSyncServer } from "@/lib/sync-manager";
+import { supabase } from "@/lib/supabase";
+import { addStudioMember } from "@/lib/studios";
+import { getSyncToken, getTeacherName, setSyncToken, setTeacherName } from "@/lib/device";
+import { can, ROLE_LABELS, STUDIO_ROLES, type StudioRole } from "@/lib/permissions";
+
+function errorMessage(error: unknown, fallback: string) {
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return fallback;
+}
+
+const inputClass =
+  "w-full rounded-xl bg-neutral-800 px-4 py-3 text-sm text-white placeholder-neutral-500 outline-none ring-1 ring-neutral-700 focus:ring-[var(--color-accent)]";
+const primaryButtonClass =
+  "w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold active:scale-[0.98] transition disabled:opacity-40";
+const sectionTitleClass = "text-sm font-medium text-neutral-400 uppercase tracking-wide";
+
+/* ---------- SIGN IN ---------- */
+function SignInForm() {
+  const { signIn, signUp } = useAuth();
+  const [mode, setMode] = useState<"signIn" | "signUp">("signIn");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      if (mode === "signIn") {
+        await signIn(email.trim(), password);
+      } else if (!(await signUp(email.trim(), password))) {
+        setNotice("Check your email to confirm your account, then sign in.");
+        setMode("signIn");
+      }
+    } catch (err) {
+      setError(errorMessage(err, "Couldn't sign in, try again"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-4">
+      <div>
+        <p className="text-base font-medium">{mode === "signIn" ? "Sign in" : "Create an account"}</p>
+        <p className="text-sm text-neutral-400">
+          Sign in to sync with your studio. Until then, everything stays on this device.
+        </p>
+      </div>
+
+      <input
+        type="email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        className={inputClass}
+      />
+      <input
+        type="password"
+        autoComplete={mode === "signIn" ? "current-password" : "new-password"}
+        required
+        minLength={6}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        className={inputClass}
+      />
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {notice && <p className="text-sm text-emerald-300">{notice}</p>}
+
+      <button type="submit" disabled={busy} className={primaryButtonClass}>
+        {busy ? "Please wait…" : mode === "signIn" ? "Sign in" : "Create account"}
+      </button>
+
+      <button
+        type="button"
+        onClick={() => setMode(mode === "signIn" ? "signUp" : "signIn")}
+        className="w-full text-sm text-neutral-400"
+      >
+        {mode === "signIn" ? "New here? Create an account" : "Already have an account? Sign in"}
+      </button>
+    </form>
+  );
+}
+
+/* ---------- NAME ON THIS DEVICE ---------- */
+function TeacherNameForm() {
+  const [name, setName] = useState(() => getTeacherName() ?? "");
+  const [saved, setSaved] = useState(false);
+
+  const save = (event: React.FormEvent) => {
+    event.preventDefault();
+    setTeacherName(name);
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={save} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-4">
+      <div>
+        <p className="text-base font-medium">Your name</p>
+        <p className="text-sm text-neutral-400">
+          Marks and points changed on this device are credited to this name, so you can tell later who made them.
+        </p>
+      </div>
+
+      <input
+        type="text"
+        autoComplete="name"
+        value={name}
+        onChange={(e) => {
+          setName(e.target.value);
+          setSaved(false);
+        }}
+        placeholder="e.g. Miss Priya"
+        className={inputClass}
+      />
+
+      {saved && <p className="text-sm text-emerald-300">Saved</p>}
+
+      <button type="submit" className={primaryButtonClass}>
+        Save name
+      </button>
+    </form>
+  );
+}
+
+/* ---------- SYNC TOKEN ---------- */
+function SyncTokenForm() {
+  const { retryNow } = useSyncData();
+  const [token, setToken] = useState(() => getSyncToken() ?? "");
+  const [saved, setSaved] = useState(false);
+
+  const save = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSyncToken(token);
+    setSaved(true);
+    retryNow().catch((error) => {
+      console.error('Error syncing:', error);
+    });
+  };
+
+  return (
+    <form onSubmit={save} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-4">
+      <div>
+        <p className="text-base font-medium">Sync token</p>
+        <p className="text-sm text-neutral-400">
+          The studio&apos;s sync server only accepts devices with a token. Ask whoever runs it for one; it decides which studio this device syncs with and what it may change.
+        </p>
+      </div>
+
+      <input
+        type="password"
+        autoComplete="off"
+        value={token}
+        onChange={(e) => {
+          setToken(e.target.value);
+          setSaved(false);
+        }}
+        placeholder="Paste the token"
+        className={inputClass}
+      />
+
+      {saved && <p className="text-sm text-emerald-300">Saved</p>}
+
+      <button type="submit" className={primaryButtonClass}>
+        Save token
+      </button>
+    </form>
+  );
+}
+
+/* ---------- STUDIOS ---------- */
+function StudioSection() {
+  const { studios, activeStudioId, selectStudio, createStudio } = useAuth();
+  const { countUnclaimedRecords, claimUnclaimedRecords } = useSyncData();
+  const { showModal } = useModal();
+  const [newName, setNewName] = useState("");
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<StudioRole>("teacher");
+  const [unclaimed, setUnclaimed] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const activeStudio = studios.find((studio) => studio.id === activeStudioId) ?? null;
+
+  // Records made on this device before signing in, waiting to join a studio
+  useEffect(() => {
+    let cancelled = false;
+
+    countUnclaimedRecords()
+      .then((count) => {
+        if (!cancelled) setUnclaimed(count);
+      })
+      .catch((err) => {
+        console.error('Error counting device records:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeStudioId, countUnclaimedRecords]);
+
+  const run = async (work: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await work();
+    } catch (err) {
+      console.error(fallback, err);
+      setError(errorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => {
+      await createStudio(name);
+      setNewName("");
+    }, "Couldn't create the studio");
+  };
+
+  const addMember = (event: React.FormEvent) => {
+    event.preventDefault();
+    const email = memberEmail.trim();
+    if (!email || !activeStudio || !supabase) return;
+    const client = supabase;
+    run(async () => {
+      await addStudioMember(client, activeStudio.id, email, memberRole);
+      setMemberEmail("");
+      setNotice(`${email} is now ${ROLE_LABELS[memberRole].toLowerCase()} at ${activeStudio.name}`);
+    }, "Couldn't add the teacher");
+  };
+
+  const claim = () => {
+    if (!activeStudio) return;
+    showModal(
+      "confirm",
+      "Move Into Studio",
+      `Copy the ${unclaimed} record${unclaimed === 1 ? "" : "s"} made on this device before signing in into ${activeStudio.name}? Everyone in the studio will see them.`,
+      () => {
+        run(async () => {
+          const moved = await claimUnclaimedRecords();
+          setUnclaimed(0);
+          setNotice(`${moved} record${moved === 1 ? "" : "s"} added to ${activeStudio.name}`);
+        }, "Couldn't move the records");
+      }
+    );
+  };
+
+  return (
+    <section className="space-y-3">
+      <h2 className={sectionTitleClass}>Studio</h2>
+
+      {studios.length === 0 ? (
+        <p className="text-sm text-neutral-400">
+          You&apos;re not in a studio yet. Create one, or ask your studio owner to add you.
+        </p>
+      ) : (
+        <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 divide-y divide-neutral-800">
+          {studios.map((studio) => (
+            <button
+              key={studio.id}
+              type="button"
+              disabled={busy}
+              onClick={() => run(() => selectStudio(studio.id), "Couldn't open the studio")}
+              className="w-full flex items-center justify-between px-4 py-3 text-left text-sm"
+            >
+              <span>
+                <span className="font-medium">{studio.name}</span>
+                <span className="ml-2 text-xs text-neutral-500">{ROLE_LABELS[studio.role]}</span>
+              </span>
+              {studio.id === activeStudioId && <span className="text-[var(--color-accent)]">✓</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Copying covers every table, so it takes someone who manages classes and students */}
+      {unclaimed > 0 && activeStudio && can(activeStudio.role, "manageClasses", true) && (
+        <div className="rounded-2xl bg-amber-950/30 ring-1 ring-amber-500/30 p-4 space-y-3">
+          <p className="text-sm text-amber-200">
+            {unclaimed} record{unclaimed === 1 ? " was" : "s were"} made on this device before you signed in.
+          </p>
+          <button type="button" disabled={busy} onClick={claim} className={primaryButtonClass}>
+            Move into {activeStudio.name}
+          </button>
+        </div>
+      )}
+
+      {activeStudio && can(activeStudio.role, "manageStudio", true) && (
+        <form onSubmit={addMember} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-3">
+          <p className="text-sm text-neutral-400">
+            Add someone to {activeStudio.name} by the email they signed up with, or change the role of someone already in it
+          </p>
+          <input
+            type="email"
+            required
+            value={memberEmail}
+            onChange={(e) => setMemberEmail(e.target.value)}
+            placeholder="teacher@example.com"
+            className={inputClass}
+          />
+          <select
+            value={memberRole}
+            onChange={(e) => setMemberRole(e.target.value as StudioRole)}
+            className={inputClass}
+          >
+            {STUDIO_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-neutral-500">
+            Assistants can mark registers and give points. Viewers can only look.
+          </p>
+          <button type="submit" disabled={busy} className={primaryButtonClass}>
+            Save
+          </button>
+        </form>
+      )}
+
+      <form onSubmit={create} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-3">
+        <input
+          type="text"
+          required
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New studio name"
+          className={inputClass}
+        />
+        <button type="submit" disabled={busy} className={primaryButtonClass}>
+          Create studio
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {notice && <p className="text-sm text-emerald-300">{notice}</p>}
+    </section>
+  );
+}
+
+export default function AccountPage() {
+  const router = useRouter();
+  const { available, loading, user, signOut } = useAuth();
+  const { showModal } = useModal();
+
+  const confirmSignOut = () => {
+    showModal(
+      "confirm",
+      "Sign Out",
+      "Studio data stays on this device and anything not yet synced uploads when you sign back in.",
+      () => {
+        signOut().catch((error) => {
+          console.error('Error signing out:', error);
+        });
+      }
+    );
+  };
+
+  /* ---------- UI ---------- */
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Account</h1>
+      </div>
+
+      {!available ? (
+        <>
+          <p className="text-sm text-neutral-400">
+            Sign-in is only used when syncing through Supabase. This app isn&apos;t set up for it, so there&apos;s nothing to sign in to.
+          </p>
+          {usesSyncServer && <SyncTokenForm />}
+          <TeacherNameForm />
+        </>
+      ) : loading ? (
+        <p className="text-sm text-neutral-400 animate-pulse">Checking your account…</p>
+      ) : !user ? (
+        <SignInForm />
+      ) : (
+        <>
+          <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm text-neutral-400">Signed in as</p>
+              <p className="font-medium truncate">{user.email}</p>
+            </div>
+            <button
+              type="button"
+              onClick={confirmSignOut}
+              className="shrink-0 rounded-xl bg-neutral-700 px-4 py-2 text-sm font-medium active:scale-[0.98] transition"
+            >
+              Sign out
+            </button>
+          </section>
+
+          <StudioSection />
+        </>
+      )}
+    </main>
+  );
+}
@@ -1,10 +1,14 @@
 "use client";
 
-import React, { useEffect, useMemo, useState, memo } from "react";
+import React, { useCallback, useEffect, useMemo, useState, memo } from "react";
 import { useRouter } from "next/navigation";
 import { useSyncData } from "@/lib/sync-manager";
 import type { DanceClass, Student, RegisterSession, PointEvent, AwardUnlock } from "@/lib/sync-manager";
+import { useClasses, useStudents, useSessions, usePoints } from "@/hooks/useLiveData";
+import { usePermissions } from "@/hooks/usePermissions";
 import type { AwardCandidate } from "@/lib/awards/awards.types";
+import { rangePeriodKey } from "@/lib/awards/awards.utils";
+import { AWARDS_META_KEY } from "@/lib/backup";
 
 // Loading Screen Component
 function LoadingScreen({ message = "Loading..." }: { message?: string }) {
@@ -173,17 +177,31 @@ function pct(n01: number) {
 
 const AwardsPage = memo(function AwardsPage() {
   const router = useRouter();
-  const { getClasses, getStudents, getSessions, getPoints, getAwards, saveAwards } = useSyncData();
-
-  const [classes, setClasses] = useState<DanceClass[]>([]);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [sessions, setSessions] = useState<RegisterSession[]>([]);
-  const [points, setPoints] = useState<PointEvent[]>([]);
-  const [awards, setAwards] = useState<AwardUnlock[]>([]);
-  const [awardsMeta, setAwardsMeta] = useState<AwardsMeta>({});
-  const [loading, setLoading] = useState(true);
+  const { saveAwards } = useSyncData();
+  const { can } = usePermissions();
+  // Assistants and viewers can see the suggestions but not hand out awards
+  const canGiveAwards = can("giveAwards");
+
+  const classesData = useClasses();
+  const studentsData = useStudents();
+  const sessionsData = useSessions();
+  const pointsData = usePoints();
+  const loading = !classesData || !studentsData || !sessionsData || !pointsData;
+
+  const classes: DanceClass[] = useMemo(() => classesData ?? [], [classesData]);
+  const students: Student[] = useMemo(() => studentsData ?? [], [studentsData]);
+  const sessions: RegisterSession[] = useMemo(() => sessionsData ?? [], [sessionsData]);
+  const points: PointEvent[] = useMemo(() => pointsData ?? [], [pointsData]);
+  // Awards meta lives in localStorage (not synced yet)
+  const [awardsMeta, setAwardsMeta] = useState<AwardsMeta>(() => {
+    if (typeof window === "undefined") return {};
+    const meta = safeParseJSON<AwardsMeta>(localStorage.getItem(AWARDS_META_KEY), {});
+    return meta && typeof meta === "object" ? meta : {};
+  });
 
-  const [selectedClassId, setSelectedClassId] = useState<string>("");
+  const [chosenClassId, setSelectedClassId] = useState<string>("");
+  // Default to the first class until one is picked
+  const selectedClassId = chosenClassId || classes[0]?.id || "";
   const [fromDate, setFromDate] = useState<string>(() => {
     const d = new Date();
     d.setDate(d.getDate() - 30);
@@ -202,58 +220,6 @@ const AwardsPage = memo(function AwardsPage() {
     return () => window.clearTimeout(t);
   }, [toast]);
 
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [classesData, studentsData, sessionsData, pointsData, awardsData] = await Promise.all([
-          getClasses(),
-          getStudents(),
-          getSessions(),
-          getPoints(),
-          getAwards(),
-        ]);
-
-        setClasses(classesData);
-        setStudents(studentsData);
-        setSessions(sessionsData);
-        setPoints(pointsData);
-        setAwards(awardsData);
-
-        // Load awards meta from localStorage (not synced yet)
-        const meta = safeParseJSON<AwardsMeta>(localStorage.getItem("bb_awards_meta"), {});
-        setAwardsMeta(meta && typeof meta === "object" ? meta : {});
-
-        // Default class selection
-        const firstActive = classesData.find((c) => c && typeof c.id === "string");
-        if (firstActive?.id) setSelectedClassId(firstActive.id);
-      } catch (error) {
-        console.error('Error loading awards data:', error);
-        // Fallback to localStorage
-        const cls = safeParseJSON<DanceClass[]>(localStorage.getItem("bb_classes"), []);
-        const stu = safeParseJSON<Student[]>(localStorage.getItem("bb_students"), []);
-        const ses = safeParseJSON<RegisterSession[]>(localStorage.getItem("bb_sessions"), []);
-        const pts = safeParseJSON<PointEvent[]>(localStorage.getItem("bb_points"), []);
-        const aws = safeParseJSON<AwardUnlock[]>(localStorage.getItem("bb_awards"), []);
-        const meta = safeParseJSON<AwardsMeta>(localStorage.getItem("bb_awards_meta"), {});
-
-        setClasses(Array.isArray(cls) ? cls : []);
-        setStudents(Array.isArray(stu) ? stu : []);
-        setSessions(Array.isArray(ses) ? ses : []);
-        setPoints(Array.isArray(pts) ? pts : []);
-        setAwards(Array.isArray(aws) ? aws : []);
-        setAwardsMeta(meta && typeof meta === "object" ? meta : {});
-
-        // Default class selection
-        const firstActive = (Array.isArray(cls) ? cls : []).find((c) => c && typeof c.id === "string");
-        if (firstActive?.id) setSelectedClassId(firstActive.id);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, [getClasses, getStudents, getSessions, getPoints, getAwards]);
-
   const selectedClass = useMemo(() => classes.find((c) => c.id === selectedClassId) ?? null, [classes, selectedClassId]);
 
   const fromDT = useMemo(() => parseDateInputToRange(fromDate, false), [fromDate]);
@@ -314,7 +280,7 @@ const AwardsPage = memo(function AwardsPage() {
     return { attended, counted, pct01 };
   }
 
-  function sumPointsForStudent(opts: { studentId: string; classId: string; rangeFrom: Date; rangeTo: Date }) {
+  const sumPointsForStudent = useCallback((opts: { studentId: string; classId: string; rangeFrom: Date; rangeTo: Date }) => {
     const { studentId, classId, rangeFrom, rangeTo } = opts;
     let total = 0;
     for (const p of points) {
@@ -326,7 +292,7 @@ const AwardsPage = memo(function AwardsPage() {
       total += Number(p.points) || 0;
     }
     return total;
-  }
+  }, [points]);
 
   // 1) Attendance leaderboard
   const attendanceLeaderboard = useMemo(() => {
@@ -437,7 +403,7 @@ const AwardsPage = memo(function AwardsPage() {
       lastWinnerStudentId,
       top3,
     };
-  }, [validClass, validDateRange, fromDT, toDT, awardsMeta, selectedClassId, classStudents, classSessions, points]);
+  }, [validClass, validDateRange, fromDT, toDT, awardsMeta, selectedClassId, classStudents, classSessions, sumPointsForStudent]);
 
   // 3) Most Improved (academic year) using linear regression slope on attendance over time
   const mostImprovedInfo = useMemo(() => {
@@ -537,13 +503,12 @@ const AwardsPage = memo(function AwardsPage() {
     });
 
     return { yearKey: key, start, end, top3: rows.slice(0, 3) };
-  }, [validClass, selectedClassId, classStudents, classSessions, points]);
-
-  async function writeAwards(next: AwardUnlock[]) {
-    setAwards(next);
+  }, [validClass, selectedClassId, classStudents, classSessions, sumPointsForStudent]);
 
+  // Save newly granted awards; the list updates once they're stored
+  async function writeAwards(added: AwardUnlock[]) {
     // Add sync metadata
-    const awardsWithMeta = next.map(award => ({
+    const awardsWithMeta = added.map(award => ({
       ...award,
       synced: false,
       updatedAt: new Date().toISOString(),
@@ -553,14 +518,12 @@ const AwardsPage = memo(function AwardsPage() {
       await saveAwards(awardsWithMeta);
     } catch (error) {
       console.error('Error saving awards:', error);
-      // Fallback to localStorage
-      localStorage.setItem("bb_awards", JSON.stringify(next));
     }
   }
 
   function writeAwardsMeta(next: AwardsMeta) {
     setAwardsMeta(next);
-    localStorage.setItem("bb_awards_meta", JSON.stringify(next));
+    localStorage.setItem(AWARDS_META_KEY, JSON.stringify(next));
   }
 
   function awardSOTM(studentId: string) {
@@ -568,7 +531,7 @@ const AwardsPage = memo(function AwardsPage() {
 
     const effectiveFrom = sotmInfo.effectiveFrom ?? fromDT;
     const effectiveTo = sotmInfo.effectiveTo ?? toDT;
-    const periodKey = `${effectiveFrom.toISOString()}|${effectiveTo.toISOString()}`;
+    const periodKey = rangePeriodKey(effectiveFrom, effectiveTo);
 
     const newAward: AwardUnlock = {
       id: makeId("award"),
@@ -581,8 +544,7 @@ const AwardsPage = memo(function AwardsPage() {
       decidedBy: "TEACHER",
     };
 
-    const nextAwards = [newAward, ...awards];
-    writeAwards(nextAwards);
+    writeAwards([newAward]);
 
     const nextMeta: AwardsMeta = {
       ...(awardsMeta ?? {}),
@@ -616,7 +578,7 @@ const AwardsPage = memo(function AwardsPage() {
       decidedBy: "TEACHER",
     };
 
-    writeAwards([newAward, ...awards]);
+    writeAwards([newAward]);
     const name = students.find((s) => s.id === studentId)?.name ?? "Student";
     setToast(`Awarded Most Improved to ${name}`);
   }
@@ -637,7 +599,7 @@ const AwardsPage = memo(function AwardsPage() {
       decidedBy: "TEACHER",
     };
 
-    writeAwards([newAward, ...awards]);
+    writeAwards([newAward]);
     const name = students.find((s) => s.id === studentId)?.name ?? "Student";
     setToast(`Awarded Student of the Year to ${name}`);
   }
@@ -646,9 +608,9 @@ const AwardsPage = memo(function AwardsPage() {
   const miTopSuggestion = mostImprovedInfo.top3[0]?.student?.id ?? "";
   const sotyTopSuggestion = studentOfYearInfo.top3[0]?.student?.id ?? "";
 
-  const sotmAwardEnabled = validClass && validDateRange && !!(sotmOverrideStudentId || sotmTopSuggestion);
-  const miAwardEnabled = validClass && !!(miOverrideStudentId || miTopSuggestion);
-  const sotyAwardEnabled = validClass && !!(sotyOverrideStudentId || sotyTopSuggestion);
+  const sotmAwardEnabled = canGiveAwards && validClass && validDateRange && !!(sotmOverrideStudentId || sotmTopSuggestion);
+  const miAwardEnabled = canGiveAwards && validClass && !!(miOverrideStudentId || miTopSuggestion);
+  const sotyAwardEnabled = canGiveAwards && validClass && !!(sotyOverrideStudentId || sotyTopSuggestion);
 
   const lastWinnerName = useMemo(() => {
     const id = sotmInfo.lastWinnerStudentId;
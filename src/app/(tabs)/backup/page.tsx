@@ -0,0 +1,318 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import {
+  writeBackup,
+  readBackup,
+  isEncryptedBackup,
+  loadAwardsMeta,
+  saveAwardsMeta,
+  restoreAwardsMeta,
+  BackupError,
+  type BackupContents,
+  type RestoreMode,
+  type RestorePlan,
+} from "@/lib/backup";
+import { CURRENT_SCHEMA_VERSION } from "@/lib/migrations";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useModal } from "@/contexts/ModalContext";
+import { formatChangeTime } from "@/lib/history";
+import RestorePreview from "@/components/RestorePreview";
+
+function downloadFile(name: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BackupPage() {
+  const router = useRouter();
+  const { exportRecords, previewRestore, restoreBackup } = useSyncData();
+  const { activeStudioId } = useAuth();
+  const { can } = usePermissions();
+  const { showModal } = useModal();
+
+  /* ---------- EXPORT ---------- */
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportBackup = async () => {
+    if (passphrase !== confirmPassphrase) {
+      setExportError("The passphrases don't match");
+      return;
+    }
+
+    setExporting(true);
+    setExportError(null);
+    try {
+      const createdAt = new Date().toISOString();
+      const contents: BackupContents = {
+        createdAt,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        studioId: activeStudioId ?? undefined,
+        records: await exportRecords(),
+        awardsMeta: loadAwardsMeta(),
+      };
+      const text = await writeBackup(contents, passphrase || undefined);
+      downloadFile(`bollywood-beatz-backup-${createdAt.slice(0, 10)}.json`, text);
+      setPassphrase("");
+      setConfirmPassphrase("");
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      setExportError("Couldn't export the backup, try again");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  /* ---------- RESTORE ---------- */
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [encrypted, setEncrypted] = useState(false);
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [plan, setPlan] = useState<RestorePlan | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [restored, setRestored] = useState<string | null>(null);
+
+  const chooseFile = async (file: File | undefined) => {
+    setContents(null);
+    setPlan(null);
+    setRestored(null);
+    setRestoreError(null);
+    setFileText(null);
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      setEncrypted(isEncryptedBackup(text));
+      setFileText(text);
+    } catch (error) {
+      setRestoreError(error instanceof BackupError ? error.message : "Couldn't read that file");
+    }
+  };
+
+  const preview = async (nextMode: RestoreMode = mode) => {
+    if (!fileText) return;
+
+    setBusy(true);
+    setRestoreError(null);
+    setRestored(null);
+    try {
+      const backup = contents ?? await readBackup(fileText, restorePassphrase || undefined);
+      setContents(backup);
+      setPlan(await previewRestore(backup.records, nextMode));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      setRestoreError(error instanceof BackupError ? error.message : "Couldn't read that backup");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeMode = (next: RestoreMode) => {
+    setMode(next);
+    if (contents) preview(next);
+  };
+
+  const restore = () => {
+    if (!contents || !plan) return;
+
+    showModal(
+      "confirm",
+      mode === "replace" ? "Replace With Backup" : "Merge Backup",
+      mode === "replace"
+        ? `Make this device match the backup from ${formatChangeTime(contents.createdAt)}? Anything not in the backup is moved to the Trash.`
+        : `Add the backup from ${formatChangeTime(contents.createdAt)} to what's on this device?`,
+      async () => {
+        setBusy(true);
+        setRestoreError(null);
+        try {
+          const result = await restoreBackup(contents.records, mode);
+          saveAwardsMeta(restoreAwardsMeta(loadAwardsMeta(), contents.awardsMeta, mode));
+          setRestored(`Restored ${result.changes.length} change${result.changes.length === 1 ? "" : "s"}. They'll sync like any other edit.`);
+          setPlan(null);
+          setContents(null);
+          setFileText(null);
+        } catch (error) {
+          console.error('Error restoring backup:', error);
+          setRestoreError(error instanceof Error ? error.message : "Couldn't restore the backup");
+        } finally {
+          setBusy(false);
+        }
+      }
+    );
+  };
+
+  /* ---------- UI ---------- */
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Backup</h1>
+      </div>
+
+      <p className="text-sm text-neutral-400">
+        Save everything on this device to a file, so it can be put back if the phone is lost or moved
+        to another one. Keep the file somewhere safe: without a passphrase, anyone who has it can read it.
+      </p>
+
+      {/* EXPORT */}
+      <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-3">
+        <h2 className="text-base font-medium">Export backup</h2>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase (optional)"
+          autoComplete="new-password"
+          className="w-full rounded-xl bg-black/60 ring-1 ring-neutral-700 px-3 py-2 text-sm"
+        />
+        {passphrase && (
+          <input
+            type="password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            placeholder="Passphrase again"
+            autoComplete="new-password"
+            className="w-full rounded-xl bg-black/60 ring-1 ring-neutral-700 px-3 py-2 text-sm"
+          />
+        )}
+        <p className="text-xs text-neutral-500">
+          With a passphrase the file is encrypted. It can&apos;t be restored without it.
+        </p>
+
+        {exportError && <p className="text-sm text-rose-300">{exportError}</p>}
+
+        <button
+          onClick={exportBackup}
+          disabled={exporting}
+          className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold active:scale-[0.98] transition disabled:opacity-40"
+          type="button"
+        >
+          {exporting ? "Exporting…" : "Export backup"}
+        </button>
+      </section>
+
+      {/* RESTORE */}
+      <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-3">
+        <h2 className="text-base font-medium">Restore backup</h2>
+
+        {!can("manageStudio") ? (
+          <p className="text-sm text-neutral-400">Only the studio owner can restore a backup.</p>
+        ) : (
+          <>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => chooseFile(e.target.files?.[0])}
+              className="w-full text-sm text-neutral-300"
+            />
+
+            {fileText && encrypted && !contents && (
+              <input
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                placeholder="Backup passphrase"
+                autoComplete="current-password"
+                className="w-full rounded-xl bg-black/60 ring-1 ring-neutral-700 px-3 py-2 text-sm"
+              />
+            )}
+
+            {fileText && (
+              <div className="flex gap-2">
+                {(["merge", "replace"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => changeMode(option)}
+                    disabled={busy}
+                    className={[
+                      "flex-1 rounded-xl py-2 text-sm font-medium disabled:opacity-40",
+                      mode === option ? "bg-white/20 text-white" : "bg-neutral-800 text-neutral-400",
+                    ].join(" ")}
+                    type="button"
+                  >
+                    {option === "merge" ? "Merge" : "Replace"}
+                  </button>
+                ))}
+              </div>
+            )}
+            {fileText && (
+              <p className="text-xs text-neutral-500">
+                {mode === "merge"
+                  ? "Merge adds what this device is missing and keeps whichever copy was changed last."
+                  : "Replace makes this device match the backup. Anything not in it is moved to the Trash."}
+              </p>
+            )}
+
+            {restoreError && <p className="text-sm text-rose-300">{restoreError}</p>}
+            {restored && <p className="text-sm text-emerald-300">{restored}</p>}
+
+            {fileText && !plan && (
+              <button
+                onClick={() => preview()}
+                disabled={busy}
+                className="w-full rounded-xl bg-neutral-800 py-3 text-sm font-medium disabled:opacity-40"
+                type="button"
+              >
+                {busy ? "Reading…" : "Preview restore"}
+              </button>
+            )}
+          </>
+        )}
+      </section>
+
+      {/* PREVIEW */}
+      {contents && plan && (
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">Preview</h2>
+            <p className="text-xs text-neutral-500">
+              Backup from {formatChangeTime(contents.createdAt)}. Nothing has been changed yet.
+            </p>
+          </div>
+
+          <RestorePreview plan={plan} emptyMessage="This device already matches the backup." />
+
+          <button
+            onClick={restore}
+            disabled={busy || plan.changes.length === 0}
+            className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold active:scale-[0.98] transition disabled:opacity-40"
+            type="button"
+          >
+            {mode === "replace" ? "Replace with backup" : "Merge backup"}
+          </button>
+        </section>
+      )}
+
+      {/* SNAPSHOTS navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/snapshots")}
+          className="w-full rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 px-4 py-4 flex items-center justify-between text-left active:scale-[0.98] transition"
+          type="button"
+        >
+          <div>
+            <p className="text-base font-medium">Snapshots</p>
+            <p className="text-sm text-neutral-400">Copies this device keeps by itself, daily and before big changes</p>
+          </div>
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
+    </main>
+  );
+}
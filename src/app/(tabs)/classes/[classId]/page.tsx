@@ -1,7 +1,7 @@
 "use client";
 
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 
 // Loading Screen Component
@@ -36,16 +36,25 @@ function LoadingScreen({ message = "Loading..." }: { message?: string }) {
     </main>
   );
 }
-import { loadAwards } from "@/lib/awards/awards.storage";
+import { useClass, useStudentsInClass, useSessions, usePoints, useAwards } from "@/hooks/useLiveData";
+import { usePermissions } from "@/hooks/usePermissions";
+import RecordHistory from "@/components/RecordHistory";
 
 /* ---------- TYPES ---------- */
 type DanceClass = {
   id: string;
   name: string;
   color: string;
+  updatedAt?: string;
   deleted?: boolean;
 };
 
+const CLASS_FIELDS: Record<string, string> = {
+  name: "Name",
+  color: "Colour",
+  deleted: "Deleted",
+};
+
 type Student = {
   id: string;
   name: string;
@@ -75,12 +84,6 @@ type RegisterSession = {
   deleted?: boolean;
 };
 
-/* ---------- STORAGE KEYS ---------- */
-const LS_CLASSES = "bb_classes";
-const LS_STUDENTS = "bb_students";
-const LS_SESSIONS = "bb_sessions";
-const LS_POINTS = "bb_points";
-
 /* ---------- UI ---------- */
 function CircularPercent({ value }: { value: number }) {
   const radius = 18;
@@ -121,47 +124,27 @@ function CircularPercent({ value }: { value: number }) {
 export default function ClassProfilePage() {
   const { classId } = useParams<{ classId: string }>();
   const router = useRouter();
-
-  const [cls, setCls] = useState<DanceClass | null>(null);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [sessions, setSessions] = useState<RegisterSession[]>([]);
-  const [points, setPoints] = useState<PointEvent[]>([]);
-  const [awards, setAwards] = useState<any[]>([]);
+  const { can } = usePermissions();
+
+  /* ---------- LIVE DATA ---------- */
+  const cls: DanceClass | null | undefined = useClass(classId);
+  const classStudents: Student[] | undefined = useStudentsInClass(classId);
+  const classSessions: RegisterSession[] | undefined = useSessions({ classId });
+  const classPoints: PointEvent[] | undefined = usePoints({ classId });
+  const classAwards = useAwards({ classId });
+
+  const students = useMemo(
+    () => (classStudents ?? []).filter((s) => !s.archived && !s.deleted),
+    [classStudents]
+  );
+  const sessions = useMemo(() => classSessions ?? [], [classSessions]);
+  const points = useMemo(() => classPoints ?? [], [classPoints]);
+  const awards = useMemo(() => classAwards ?? [], [classAwards]);
 
   // leaderboard date filters
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
 
-  /* ---------- LOAD ---------- */
-  useEffect(() => {
-    const classes: DanceClass[] = JSON.parse(
-      localStorage.getItem(LS_CLASSES) || "[]"
-    );
-    setCls(classes.find((c) => c.id === classId) || null);
-
-    const allStudents: Student[] = JSON.parse(
-      localStorage.getItem(LS_STUDENTS) || "[]"
-    );
-    setStudents(
-      allStudents.filter(
-        (s) => s.classId === classId && !s.archived && !s.deleted
-      )
-    );
-
-    const allSessions: RegisterSession[] = JSON.parse(
-      localStorage.getItem(LS_SESSIONS) || "[]"
-    );
-    setSessions(allSessions.filter((s) => s.classId === classId && !s.deleted));
-
-    const allPoints: PointEvent[] = JSON.parse(
-      localStorage.getItem(LS_POINTS) || "[]"
-    );
-    setPoints(allPoints.filter((p) => p.classId === classId));
-
-    const allAwards = loadAwards();
-    setAwards(allAwards.filter((a) => a.classId === classId));
-  }, [classId]);
-
   /* ---------- BIG AWARDS ONLY ---------- */
   const bigAwards = useMemo(
     () => awards.filter((a) => !a.awardId.includes("month")),
@@ -437,6 +420,17 @@ export default function ClassProfilePage() {
             </div>
           ))}
       </div>
+
+      {/* RECORD HISTORY */}
+      <div className="mt-8">
+        <RecordHistory
+          table="classes"
+          recordId={cls.id}
+          version={cls.updatedAt}
+          canRevert={can("manageClasses")}
+          describeField={(field) => CLASS_FIELDS[field] ?? field}
+        />
+      </div>
     </main>
   );
 }
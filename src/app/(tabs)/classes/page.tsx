@@ -1,9 +1,11 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useSyncData } from "@/lib/sync-manager";
+import { useClasses } from "@/hooks/useLiveData";
 import { useModal } from "@/contexts/ModalContext";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useFormValidation, validationRules, sanitizeInput } from "@/lib/validation";
 import type { DanceClass } from "@/lib/sync-manager";
 
@@ -53,36 +55,20 @@ const CLASS_COLORS = [
 
 export default function ClassesPage() {
   const router = useRouter();
-  const { getClasses, saveClasses } = useSyncData();
+  const { saveClasses } = useSyncData();
   const { showModal } = useModal();
+  const { can } = usePermissions();
+  const canManageClasses = can("manageClasses");
 
-  const [classes, setClasses] = useState<DanceClass[]>([]);
   const [newClassName, setNewClassName] = useState("");
   const [selectedColor, setSelectedColor] = useState(CLASS_COLORS[0]);
-  const [loading, setLoading] = useState(true);
 
   const { errors, validate, clearError, hasErrors } = useFormValidation();
 
-  /* ---------- LOAD DATA ---------- */
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const classesData = await getClasses();
-        setClasses(classesData);
-      } catch (error) {
-        console.error('Error loading classes:', error);
-        // Fallback to localStorage
-        const saved = localStorage.getItem("bb_classes");
-        if (saved) {
-          setClasses(JSON.parse(saved));
-        }
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, [getClasses]);
+  /* ---------- LIVE DATA ---------- */
+  const classesData = useClasses();
+  const classes = useMemo(() => classesData ?? [], [classesData]);
+  const loading = !classesData;
 
   /* ---------- ACTIONS ---------- */
 
@@ -109,11 +95,8 @@ export default function ClassesPage() {
       updatedAt: new Date().toISOString(),
     };
 
-    const updatedClasses = [...classes, newClass];
-    setClasses(updatedClasses);
-
     try {
-      await saveClasses(updatedClasses);
+      await saveClasses([newClass]);
       setNewClassName("");
       setSelectedColor(CLASS_COLORS[0]);
       clearError("className");
@@ -126,18 +109,14 @@ export default function ClassesPage() {
   const deleteClass = async (id: string) => {
     console.log('deleteClass called for:', id);
 
-    // Mark class as deleted instead of filtering it out
-    const updatedClasses = classes.map((c) =>
-      c.id === id
-        ? { ...c, deleted: true, synced: false, updatedAt: new Date().toISOString() }
-        : c
-    );
+    const target = classes.find((c) => c.id === id);
+    if (!target) return;
 
-    console.log('Updated classes:', updatedClasses.filter(c => c.deleted));
-    setClasses(updatedClasses);
+    // Mark class as deleted instead of filtering it out
+    const deletedClass = { ...target, deleted: true };
 
     try {
-      await saveClasses(updatedClasses);
+      await saveClasses([deletedClass]);
       console.log('Class marked as deleted successfully');
     } catch (error) {
       console.error('Error deleting class:', error);
@@ -159,53 +138,55 @@ export default function ClassesPage() {
       </h1>
 
       {/* Add class */}
-      <div className="mb-6 space-y-3">
-        <div className="flex gap-2">
-          <div className="flex-1">
-            <input
-              className={`w-full rounded-lg px-3 py-2 outline-none ${
-                errors.className ? "bg-red-900 ring-1 ring-red-500" : "bg-neutral-900"
-              }`}
-              placeholder="New class name"
-              value={newClassName}
-              onChange={(e) => {
-                const value = e.target.value;
-                setNewClassName(value);
-                if (errors.className) {
-                  validate("className", sanitizeInput(value), validationRules.className);
-                }
-              }}
-              onBlur={(e) => validate("className", sanitizeInput(newClassName), validationRules.className)}
-            />
-            {errors.className && (
-              <p className="mt-1 text-xs text-red-400">{errors.className}</p>
-            )}
+      {canManageClasses && (
+        <div className="mb-6 space-y-3">
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <input
+                className={`w-full rounded-lg px-3 py-2 outline-none ${
+                  errors.className ? "bg-red-900 ring-1 ring-red-500" : "bg-neutral-900"
+                }`}
+                placeholder="New class name"
+                value={newClassName}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setNewClassName(value);
+                  if (errors.className) {
+                    validate("className", sanitizeInput(value), validationRules.className);
+                  }
+                }}
+                onBlur={() => validate("className", sanitizeInput(newClassName), validationRules.className)}
+              />
+              {errors.className && (
+                <p className="mt-1 text-xs text-red-400">{errors.className}</p>
+              )}
+            </div>
+            <button
+              onClick={addClass}
+              className="rounded-lg bg-[var(--color-accent)] text-black px-4 font-medium"
+            >
+              Add
+            </button>
           </div>
-          <button
-            onClick={addClass}
-            className="rounded-lg bg-[var(--color-accent)] text-black px-4 font-medium"
-          >
-            Add
-          </button>
-        </div>
 
-        {/* Colour picker */}
-        <div className="flex gap-2">
-          {CLASS_COLORS.map((color) => (
-            <button
-              key={color}
-              onClick={() => setSelectedColor(color)}
-              className={`h-7 w-7 rounded-full border-2 transition ${
-                selectedColor === color
-                  ? "border-white scale-110"
-                  : "border-transparent opacity-70"
-              }`}
-              style={{ backgroundColor: color }}
-              aria-label="Select class colour"
-            />
-          ))}
+          {/* Colour picker */}
+          <div className="flex gap-2">
+            {CLASS_COLORS.map((color) => (
+              <button
+                key={color}
+                onClick={() => setSelectedColor(color)}
+                className={`h-7 w-7 rounded-full border-2 transition ${
+                  selectedColor === color
+                    ? "border-white scale-110"
+                    : "border-transparent opacity-70"
+                }`}
+                style={{ backgroundColor: color }}
+                aria-label="Select class colour"
+              />
+            ))}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Class list */}
       {classes.filter(c => !c.deleted).length === 0 ? (
@@ -237,21 +218,23 @@ export default function ClassesPage() {
   />
 
   {/* Delete (top-right, danger zone) */}
-  <button
-    onClick={(e) => {
-      e.stopPropagation();
-      showModal(
-        "confirm",
-        "Delete Class",
-        `Delete "${c.name}" class? This cannot be undone.`,
-        () => deleteClass(c.id)
-      );
-    }}
-    className="absolute top-3 right-3 text-neutral-400 hover:text-red-400 transition p-2 min-w-[44px] min-h-[44px] flex items-center justify-center"
-    aria-label="Delete class"
-  >
-    🗑️
-  </button>
+  {canManageClasses && (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        showModal(
+          "confirm",
+          "Delete Class",
+          `Delete "${c.name}" class? This cannot be undone.`,
+          () => deleteClass(c.id)
+        );
+      }}
+      className="absolute top-3 right-3 text-neutral-400 hover:text-red-400 transition p-2 min-w-[44px] min-h-[44px] flex items-center justify-center"
+      aria-label="Delete class"
+    >
+      🗑️
+    </button>
+  )}
 
   {/* Main content */}
   <div className="flex flex-col gap-3">
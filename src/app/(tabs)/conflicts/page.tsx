@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import type { TableName } from "@/lib/sync-manager";
+import { useClasses, useStudents, useSessions, useAwards } from "@/hooks/useLiveData";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { suggestedSide, type ConflictChoice, type ConflictRecord, type ConflictSide, type RecordConflict } from "@/lib/conflicts";
+import { getAwardDefinition } from "@/lib/awards/awards.definitions";
+import { formatChangeTime } from "@/lib/history";
+
+const TABLE_LABELS: Record<TableName, string> = {
+  classes: "Class",
+  students: "Student",
+  sessions: "Register",
+  points: "Points",
+  awards: "Award",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  color: "Colour",
+  classId: "Class",
+  studentId: "Student",
+  joinedAtISO: "Joined",
+  archived: "Archived",
+  deleted: "Deleted",
+  startedAtISO: "Started",
+  closedAtISO: "Closed",
+  awardId: "Award",
+  periodType: "Period",
+  periodKey: "Period",
+  unlockedAtISO: "Unlocked",
+  decidedBy: "Decided by",
+};
+
+const SIDE_LABELS: Record<ConflictSide, string> = {
+  local: "This device",
+  remote: "Other device",
+};
+
+export default function ConflictsPage() {
+  const router = useRouter();
+  const { getRecordConflicts, resolveRecordConflict } = useSyncData();
+  const syncStatus = useSyncStatus();
+
+  // Live tables for names, and so the list reloads as records change
+  const classes = useClasses();
+  const students = useStudents();
+  const sessions = useSessions();
+  const awards = useAwards();
+
+  const [conflicts, setConflicts] = useState<RecordConflict[] | null>(null);
+  // Field-by-field choices per conflict; fields not picked use the suggested side
+  const [choices, setChoices] = useState<Record<string, Record<string, ConflictSide>>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /* ---------- LOAD ---------- */
+  useEffect(() => {
+    let cancelled = false;
+
+    getRecordConflicts()
+      .then((list) => {
+        if (!cancelled) setConflicts(list);
+      })
+      .catch((err) => {
+        console.error('Error loading conflicts:', err);
+        if (!cancelled) setConflicts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getRecordConflicts, syncStatus.conflicts, classes, students, sessions, awards]);
+
+  /* ---------- NAMES ---------- */
+  const className = (id: unknown) => classes?.find((c) => c.id === id)?.name ?? "Unknown class";
+  const studentName = (id: unknown) => students?.find((s) => s.id === id)?.name ?? "Unknown student";
+
+  const describe = (conflict: RecordConflict) => {
+    const record = conflict.applied === "local" ? conflict.local : conflict.remote;
+    switch (conflict.table) {
+      case "classes":
+      case "students":
+        return String(record.name ?? conflict.remote.name);
+      case "sessions":
+        return `${className(record.classId)} • ${new Date(String(record.startedAtISO)).toLocaleDateString("en-GB")}`;
+      case "awards":
+        return `${studentName(record.studentId)} • ${getAwardDefinition(String(record.awardId))?.name ?? record.awardId}`;
+      default:
+        return conflict.recordId;
+    }
+  };
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === "") return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (field === "classId") return className(value);
+    if (field === "studentId") return studentName(value);
+    if (field === "awardId") return getAwardDefinition(String(value))?.name ?? String(value);
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) return formatChangeTime(value);
+    if (typeof value === "string" || typeof value === "number") return String(value);
+    return JSON.stringify(value);
+  };
+
+  /* ---------- ACTIONS ---------- */
+  const sideFor = (conflict: RecordConflict, field: RecordConflict["fields"][number]) =>
+    choices[conflict.id]?.[field.field] ?? suggestedSide(conflict, field);
+
+  const pick = (conflict: RecordConflict, field: string, side: ConflictSide) => {
+    setChoices((prev) => ({ ...prev, [conflict.id]: { ...prev[conflict.id], [field]: side } }));
+  };
+
+  const resolve = async (conflict: RecordConflict, choice: ConflictChoice) => {
+    setBusy(conflict.id);
+    setError(null);
+    try {
+      await resolveRecordConflict(conflict.id, choice);
+      setConflicts((prev) => prev?.filter((c) => c.id !== conflict.id) ?? null);
+    } catch (err) {
+      console.error('Error resolving conflict:', err);
+      setError(err instanceof Error ? err.message : "Couldn't save that choice, try again");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const merge = (conflict: RecordConflict) =>
+    resolve(conflict, Object.fromEntries(conflict.fields.map((field) => [field.field, sideFor(conflict, field)])));
+
+  /* ---------- UI ---------- */
+  const version = (record: ConflictRecord) =>
+    record.updatedAt ? `Saved ${formatChangeTime(record.updatedAt)}` : "Not saved yet";
+
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Conflicts</h1>
+      </div>
+
+      <p className="text-sm text-neutral-400">
+        Records changed on this device and on another one before either had synced. Sync kept the copy
+        saved last, but neither device saw the other&apos;s change, so it may not be the one you want.
+        Choose which copy to keep, or pick each field.
+      </p>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {/* LIST */}
+      {conflicts === null ? (
+        <p className="text-sm text-neutral-500">Loading conflicts…</p>
+      ) : conflicts.length === 0 ? (
+        <p className="text-sm text-neutral-500">No conflicts. Everything agrees.</p>
+      ) : (
+        <section className="space-y-4">
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-3">
+              <div>
+                <div className="flex justify-between gap-3">
+                  <p className="font-medium min-w-0 truncate">{describe(conflict)}</p>
+                  <span className="shrink-0 text-xs text-neutral-500">{TABLE_LABELS[conflict.table]}</span>
+                </div>
+                <p className="text-xs text-neutral-400">
+                  Found {formatChangeTime(conflict.detectedAt)} • showing {SIDE_LABELS[conflict.applied].toLowerCase()}&apos;s copy for now
+                </p>
+              </div>
+
+              {/* SIDE BY SIDE */}
+              <div className="grid grid-cols-[auto_1fr_1fr] gap-2 text-sm">
+                <span />
+                {(["local", "remote"] as const).map((side) => (
+                  <div key={side} className="text-xs text-neutral-400">
+                    <p className="font-medium text-neutral-200">{SIDE_LABELS[side]}</p>
+                    <p>{version(conflict[side])}</p>
+                  </div>
+                ))}
+
+                {conflict.fields.map((field) => (
+                  <div key={field.field} className="contents">
+                    <span className="self-center text-xs text-neutral-400">{FIELD_LABELS[field.field] ?? field.field}</span>
+                    {(["local", "remote"] as const).map((side) => (
+                      <button
+                        key={side}
+                        onClick={() => pick(conflict, field.field, side)}
+                        disabled={busy !== null}
+                        className={[
+                          "rounded-xl px-3 py-2 text-left break-words disabled:opacity-40",
+                          sideFor(conflict, field) === side
+                            ? "bg-white/20 text-white ring-1 ring-[var(--color-accent)]"
+                            : "bg-neutral-800 text-neutral-400",
+                        ].join(" ")}
+                        type="button"
+                      >
+                        {formatValue(field.field, field[side])}
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => resolve(conflict, "local")}
+                  disabled={busy !== null}
+                  className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium disabled:opacity-40"
+                  type="button"
+                >
+                  Keep this device&apos;s
+                </button>
+                <button
+                  onClick={() => resolve(conflict, "remote")}
+                  disabled={busy !== null}
+                  className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium disabled:opacity-40"
+                  type="button"
+                >
+                  Keep the other
+                </button>
+              </div>
+              {conflict.fields.length > 1 && (
+                <button
+                  onClick={() => merge(conflict)}
+                  disabled={busy !== null}
+                  className="w-full rounded-xl bg-[var(--color-accent)] text-black py-2 text-sm font-semibold disabled:opacity-40"
+                  type="button"
+                >
+                  Keep the highlighted fields
+                </button>
+              )}
+            </div>
+          ))}
+        </section>
+      )}
+    </main>
+  );
+}
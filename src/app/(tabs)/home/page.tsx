@@ -1,9 +1,13 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useSyncData } from "@/lib/sync-manager";
 import type { RegisterSession } from "@/lib/sync-manager";
+import { useClasses, useStudents, useSessions } from "@/hooks/useLiveData";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useAuth } from "@/contexts/AuthContext";
 
 // Loading Screen Component
 function LoadingScreen({ message = "Loading..." }: { message?: string }) {
@@ -66,39 +70,21 @@ type Session = {
 
 export default function HomePage() {
   const router = useRouter();
-  const { getClasses, getStudents, getSessions, saveSessions } = useSyncData();
-
-  const [classes, setClasses] = useState<Class[]>([]);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [sessions, setSessions] = useState<RegisterSession[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // Load data from sync manager (online-first)
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [classesData, studentsData, sessionsData] = await Promise.all([
-          getClasses(),
-          getStudents(),
-          getSessions(),
-        ]);
-
-        setClasses(classesData);
-        setStudents(studentsData);
-        setSessions(sessionsData);
-      } catch (error) {
-        console.error('Error loading data:', error);
-        // Fallback to localStorage if sync fails
-        setClasses(JSON.parse(localStorage.getItem("bb_classes") || "[]"));
-        setStudents(JSON.parse(localStorage.getItem("bb_students") || "[]"));
-        setSessions(JSON.parse(localStorage.getItem("bb_sessions") || "[]").filter((s: RegisterSession) => !s.deleted));
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadData();
-  }, [getClasses, getStudents, getSessions]);
+  const { saveSessions } = useSyncData();
+  const syncStatus = useSyncStatus();
+  const { can } = usePermissions();
+  const auth = useAuth();
+  const activeStudio = auth.studios.find(studio => studio.id === auth.activeStudioId);
+
+  // Live data, re-rendered whenever it changes locally or arrives from the cloud
+  const classesData: Class[] | undefined = useClasses();
+  const studentsData: Student[] | undefined = useStudents();
+  const sessionsData = useSessions();
+  const loading = !classesData || !studentsData || !sessionsData;
+
+  const classes = useMemo(() => classesData ?? [], [classesData]);
+  const students = useMemo(() => studentsData ?? [], [studentsData]);
+  const sessions = useMemo(() => sessionsData ?? [], [sessionsData]);
 
   // Greeting
   const greeting = useMemo(() => {
@@ -144,6 +130,8 @@ export default function HomePage() {
     };
   }, [sessions, students]);
 
+  const pendingChanges = Object.values(syncStatus.pending).reduce((sum, n) => sum + n, 0);
+
   // Class tap
   const handleClassTap = async (cls: Class) => {
     const openSession = getOpenSessionForClass(cls.id);
@@ -153,6 +141,12 @@ export default function HomePage() {
       return;
     }
 
+    // Viewers just look at the latest register
+    if (!can("markRegisters")) {
+      router.push(`/register/${cls.id}`);
+      return;
+    }
+
     const newSession: RegisterSession = {
       id: crypto.randomUUID(),
       classId: cls.id,
@@ -160,13 +154,9 @@ export default function HomePage() {
       marks: {},
     };
 
-    // Update local state immediately for responsive UI
-    const updatedSessions = [...sessions, newSession];
-    setSessions(updatedSessions);
-
-    // Save to sync manager (will handle online/offline)
+    // Save to sync manager (will handle online/offline); the session list updates itself
     try {
-      await saveSessions(updatedSessions);
+      await saveSessions([newSession]);
     } catch (error) {
       console.error('Error saving session:', error);
       // Session will be synced when connection is restored
@@ -288,6 +278,209 @@ export default function HomePage() {
           <span className="text-neutral-500">→</span>
         </button>
       </section>
+
+      {/* Sync status navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/sync")}
+          className="
+            w-full rounded-2xl bg-neutral-900
+            border border-neutral-800
+            px-4 py-4
+            flex items-center justify-between
+            text-left
+            active:scale-[0.98]
+            transition
+          "
+        >
+          <div>
+            <p className="text-base font-medium text-neutral-100">
+              Sync
+            </p>
+            <p className="text-sm text-neutral-400">
+              {syncStatus.quarantined > 0
+                ? `${syncStatus.quarantined} record${syncStatus.quarantined === 1 ? " needs" : "s need"} attention`
+                : !syncStatus.online
+                  ? "Offline"
+                  : pendingChanges === 0
+                    ? "Everything is synced"
+                    : `${pendingChanges} change${pendingChanges === 1 ? "" : "s"} waiting`}
+            </p>
+          </div>
+
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
+
+      {/* Conflicts navigation */}
+      {syncStatus.conflicts > 0 && (
+        <section>
+          <button
+            onClick={() => router.push("/conflicts")}
+            className="
+              w-full rounded-2xl bg-neutral-900
+              border border-amber-500/40
+              px-4 py-4
+              flex items-center justify-between
+              text-left
+              active:scale-[0.98]
+              transition
+            "
+          >
+            <div>
+              <p className="text-base font-medium text-neutral-100">
+                Conflicts
+              </p>
+              <p className="text-sm text-amber-300">
+                {syncStatus.conflicts} record{syncStatus.conflicts === 1 ? " was" : "s were"} changed on two devices at once
+              </p>
+            </div>
+
+            <span className="text-neutral-500">→</span>
+          </button>
+        </section>
+      )}
+
+      {/* Trash navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/trash")}
+          className="
+            w-full rounded-2xl bg-neutral-900
+            border border-neutral-800
+            px-4 py-4
+            flex items-center justify-between
+            text-left
+            active:scale-[0.98]
+            transition
+          "
+        >
+          <div>
+            <p className="text-base font-medium text-neutral-100">
+              Trash
+            </p>
+            <p className="text-sm text-neutral-400">
+              Restore deleted classes, students and registers
+            </p>
+          </div>
+
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
+
+      {/* Data check navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/integrity")}
+          className="
+            w-full rounded-2xl bg-neutral-900
+            border border-neutral-800
+            px-4 py-4
+            flex items-center justify-between
+            text-left
+            active:scale-[0.98]
+            transition
+          "
+        >
+          <div>
+            <p className="text-base font-medium text-neutral-100">
+              Data Check
+            </p>
+            <p className="text-sm text-neutral-400">
+              Find and fix records that point at something missing
+            </p>
+          </div>
+
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
+
+      {/* Backup navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/backup")}
+          className="
+            w-full rounded-2xl bg-neutral-900
+            border border-neutral-800
+            px-4 py-4
+            flex items-center justify-between
+            text-left
+            active:scale-[0.98]
+            transition
+          "
+        >
+          <div>
+            <p className="text-base font-medium text-neutral-100">
+              Backup
+            </p>
+            <p className="text-sm text-neutral-400">
+              Save everything to a file, or restore one
+            </p>
+          </div>
+
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
+
+      {/* Transfer navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/transfer")}
+          className="
+            w-full rounded-2xl bg-neutral-900
+            border border-neutral-800
+            px-4 py-4
+            flex items-center justify-between
+            text-left
+            active:scale-[0.98]
+            transition
+          "
+        >
+          <div>
+            <p className="text-base font-medium text-neutral-100">
+              Transfer
+            </p>
+            <p className="text-sm text-neutral-400">
+              Move data to another phone without syncing
+            </p>
+          </div>
+
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
+
+      {/* Account navigation */}
+      <section>
+        <button
+          onClick={() => router.push("/account")}
+          className="
+            w-full rounded-2xl bg-neutral-900
+            border border-neutral-800
+            px-4 py-4
+            flex items-center justify-between
+            text-left
+            active:scale-[0.98]
+            transition
+          "
+        >
+          <div>
+            <p className="text-base font-medium text-neutral-100">
+              Account
+            </p>
+            <p className="text-sm text-neutral-400">
+              {!auth.available
+                ? "Your name on the changes you make"
+                : !auth.user
+                  ? "Sign in to sync with your studio"
+                  : activeStudio
+                    ? activeStudio.name
+                    : "Choose a studio"}
+            </p>
+          </div>
+
+          <span className="text-neutral-500">→</span>
+        </button>
+      </section>
     </main>
   );
 }
@@ -0,0 +1,282 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import { useClasses, useStudents, useSessions, usePoints, useAwards } from "@/hooks/useLiveData";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useModal } from "@/contexts/ModalContext";
+import { permissionForChange } from "@/lib/permissions";
+import { countIssues, INTEGRITY_KINDS, type IntegrityIssue, type IntegrityKind, type IntegrityRepair, type RepairAction } from "@/lib/integrity";
+import { getAwardDefinition } from "@/lib/awards/awards.definitions";
+
+const KIND_LABELS: Record<IntegrityKind, string> = {
+  studentWithoutClass: "Students without a class",
+  pointWithoutStudent: "Points for missing students",
+  markWithoutStudent: "Marks for unknown students",
+  awardWithoutClass: "Awards for missing classes",
+  duplicateRegister: "Two open registers on one day",
+};
+
+const ACTION_LABELS: Record<RepairAction, string> = {
+  reassign: "Move",
+  delete: "Delete",
+  removeMarks: "Remove these marks",
+  merge: "Merge into one",
+  close: "Close the older",
+};
+
+// Issues shown per kind before "Show all"
+const EXAMPLES_SHOWN = 3;
+
+export default function IntegrityPage() {
+  const router = useRouter();
+  const { scanIntegrity, repairIntegrity } = useSyncData();
+  const { can } = usePermissions();
+  const { showModal } = useModal();
+
+  // Live tables for names, and so the scan reruns as records change
+  const classes = useClasses();
+  const students = useStudents();
+  const sessions = useSessions();
+  const points = usePoints();
+  const awards = useAwards();
+
+  const [issues, setIssues] = useState<IntegrityIssue[] | null>(null);
+  const [expanded, setExpanded] = useState<IntegrityKind[]>([]);
+  // Class picked for each issue that can be moved; unpicked ones use the suggestion
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /* ---------- SCAN ---------- */
+  useEffect(() => {
+    let cancelled = false;
+
+    scanIntegrity()
+      .then((found) => {
+        if (!cancelled) setIssues(found);
+      })
+      .catch((err) => {
+        console.error('Error checking data:', err);
+        if (!cancelled) setIssues([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scanIntegrity, classes, students, sessions, points, awards]);
+
+  /* ---------- NAMES ---------- */
+  const className = (id: string) => classes?.find((c) => c.id === id)?.name ?? "Unknown class";
+  const studentName = (id: string) => students?.find((s) => s.id === id)?.name ?? "Unknown student";
+  const registerLabel = (id: string) => {
+    const session = sessions?.find((s) => s.id === id);
+    if (!session) return "Unknown register";
+    return `${className(session.classId)} • ${new Date(session.startedAtISO).toLocaleDateString("en-GB")}`;
+  };
+  const missing = (issue: IntegrityIssue, what: string) =>
+    issue.inTrash ? `a ${what} in the Trash` : `a ${what} that no longer exists`;
+
+  const describe = (issue: IntegrityIssue): { title: string; detail: string } => {
+    const [recordId] = issue.recordIds;
+    switch (issue.kind) {
+      case "studentWithoutClass":
+        return { title: studentName(recordId), detail: `In ${missing(issue, "class")}` };
+      case "pointWithoutStudent": {
+        const point = points?.find((p) => p.id === recordId);
+        return {
+          title: point ? `${point.reason} (${point.points} pts)` : "Points",
+          detail: `For ${missing(issue, "student")} • ${className(issue.classId)}`,
+        };
+      }
+      case "markWithoutStudent": {
+        const count = issue.studentIds?.length ?? 0;
+        return {
+          title: registerLabel(recordId),
+          detail: `${count} mark${count === 1 ? "" : "s"} for students this device has never had`,
+        };
+      }
+      case "awardWithoutClass": {
+        const award = awards?.find((a) => a.id === recordId);
+        const name = award ? getAwardDefinition(award.awardId)?.name ?? award.awardId : "Award";
+        return { title: `${studentName(issue.studentIds?.[0] ?? "")} • ${name}`, detail: `In ${missing(issue, "class")}` };
+      }
+      case "duplicateRegister":
+        return {
+          title: registerLabel(issue.recordIds[issue.recordIds.length - 1]),
+          detail: `${issue.recordIds.length} registers open for the same lesson`,
+        };
+    }
+  };
+
+  /* ---------- ACTIONS ---------- */
+  const allowed = (issue: IntegrityIssue, action: RepairAction) => {
+    if (action === "merge") return can(permissionForChange("sessions", "delete")) && can(permissionForChange("points", "update"));
+    return can(permissionForChange(issue.table, action === "delete" ? "delete" : "update"));
+  };
+
+  const targetFor = (issue: IntegrityIssue) => targets[issue.id] ?? issue.suggestedClassId ?? "";
+
+  const run = async (issue: IntegrityIssue, repair: IntegrityRepair) => {
+    setBusy(issue.id);
+    setError(null);
+    try {
+      await repairIntegrity(issue.id, repair);
+      setIssues((prev) => prev?.filter((i) => i.id !== issue.id) ?? null);
+    } catch (err) {
+      console.error('Error repairing data:', err);
+      setError(err instanceof Error ? err.message : "Couldn't fix that, try again");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const repair = (issue: IntegrityIssue, action: RepairAction) => {
+    const { title } = describe(issue);
+    switch (action) {
+      case "reassign":
+        run(issue, { action, classId: targetFor(issue) });
+        return;
+      case "delete":
+        showModal("confirm", "Delete", `Move "${title}" to the Trash?`, () => run(issue, { action }));
+        return;
+      case "removeMarks":
+        showModal(
+          "confirm",
+          "Remove Marks",
+          `Remove the unknown students' marks from "${title}"? They stay in the register's history.`,
+          () => run(issue, { action })
+        );
+        return;
+      case "merge":
+        showModal(
+          "confirm",
+          "Merge Registers",
+          `Combine the open registers for "${title}" into one? Each student keeps their latest mark (over the "absent" a register starts with), points move across, and the extra registers go to the Trash.`,
+          () => run(issue, { action })
+        );
+        return;
+      case "close":
+        showModal(
+          "confirm",
+          "Close Registers",
+          `Close all but the latest register for "${title}"?`,
+          () => run(issue, { action })
+        );
+        return;
+    }
+  };
+
+  /* ---------- UI ---------- */
+  const counts = issues ? countIssues(issues) : null;
+  const liveClasses = classes ?? [];
+
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Data Check</h1>
+      </div>
+
+      <p className="text-sm text-neutral-400">
+        Records that point at something deleted or missing, and registers started twice. Fix them one at a
+        time; each fix is saved and synced like any other change, and anything deleted goes to the Trash.
+      </p>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {/* SUMMARY */}
+      {!issues || !counts ? (
+        <p className="text-sm text-neutral-500">Checking your data…</p>
+      ) : issues.length === 0 ? (
+        <p className="text-sm text-neutral-500">No problems found. Everything points where it should.</p>
+      ) : (
+        <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 divide-y divide-neutral-800">
+          {INTEGRITY_KINDS.map((kind) => (
+            <div key={kind} className="flex justify-between gap-3 px-4 py-3 text-sm">
+              <span className={counts[kind] > 0 ? "text-neutral-200" : "text-neutral-500"}>{KIND_LABELS[kind]}</span>
+              <span className={counts[kind] > 0 ? "font-semibold text-amber-300" : "text-neutral-500"}>{counts[kind]}</span>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {/* PER KIND */}
+      {issues && counts && INTEGRITY_KINDS.filter((kind) => counts[kind] > 0).map((kind) => {
+        const ofKind = issues.filter((issue) => issue.kind === kind);
+        const shown = expanded.includes(kind) ? ofKind : ofKind.slice(0, EXAMPLES_SHOWN);
+
+        return (
+          <section key={kind} className="space-y-3">
+            <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">
+              {KIND_LABELS[kind]} ({ofKind.length})
+            </h2>
+
+            {shown.map((issue) => {
+              const { title, detail } = describe(issue);
+              const actions = issue.actions.filter((action) => allowed(issue, action));
+
+              return (
+                <div key={issue.id} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-3">
+                  <div>
+                    <p className="font-medium">{title}</p>
+                    <p className="text-xs text-neutral-400">{detail}</p>
+                  </div>
+
+                  {actions.includes("reassign") && (
+                    <select
+                      className="w-full rounded-xl bg-black/40 px-4 py-3 text-sm"
+                      value={targetFor(issue)}
+                      onChange={(e) => setTargets((prev) => ({ ...prev, [issue.id]: e.target.value }))}
+                      disabled={busy !== null}
+                    >
+                      <option value="">Select class</option>
+                      {liveClasses.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+
+                  {actions.length > 0 && (
+                    <div className="flex gap-2">
+                      {actions.map((action) => (
+                        <button
+                          key={action}
+                          onClick={() => repair(issue, action)}
+                          disabled={busy !== null || (action === "reassign" && !targetFor(issue))}
+                          className={[
+                            "flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium disabled:opacity-40",
+                            action === "delete" || action === "removeMarks" ? "text-rose-300" : "",
+                          ].join(" ")}
+                          type="button"
+                        >
+                          {ACTION_LABELS[action]}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {ofKind.length > shown.length && (
+              <button
+                onClick={() => setExpanded((prev) => [...prev, kind])}
+                className="w-full rounded-xl bg-neutral-900 py-2 text-sm text-neutral-300"
+                type="button"
+              >
+                Show all {ofKind.length}
+              </button>
+            )}
+          </section>
+        );
+      })}
+    </main>
+  );
+}
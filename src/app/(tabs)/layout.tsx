@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { ModalProvider } from "@/contexts/ModalContext";
+import { AuthProvider } from "@/contexts/AuthContext";
 
 const tabs = [
   { href: "/home", label: "Home", icon: "🏠" },
@@ -20,39 +21,41 @@ export default function TabsLayout({
 
   return (
     <ModalProvider>
-      <ErrorBoundary>
-        {/* Skip Link for Accessibility */}
-        <a href="#main-content" className="skip-link">
-          Skip to main content
-        </a>
+      <AuthProvider>
+        <ErrorBoundary>
+          {/* Skip Link for Accessibility */}
+          <a href="#main-content" className="skip-link">
+            Skip to main content
+          </a>
 
-        <div className="min-h-screen bg-black text-white pb-20">
-          {children}
+          <div className="min-h-screen bg-black text-white pb-20">
+            {children}
 
-          {/* Bottom Tab Bar */}
-          <nav className="fixed bottom-0 left-0 right-0 bg-neutral-900/90 backdrop-blur ring-1 ring-neutral-800">
-            <div className="flex justify-around py-2">
-              {tabs.map((tab) => {
-                const active = pathname.startsWith(tab.href);
-                return (
-                  <Link
-                    key={tab.href}
-                    href={tab.href}
-                    className={`flex flex-col items-center gap-1 text-xs transition ${
-                      active
-                        ? "text-[var(--color-accent)]"
-                        : "text-neutral-400"
-                    }`}
-                  >
-                    <span className="text-lg">{tab.icon}</span>
-                    {tab.label}
-                  </Link>
-                );
-              })}
-            </div>
-          </nav>
-        </div>
-      </ErrorBoundary>
+            {/* Bottom Tab Bar */}
+            <nav className="fixed bottom-0 left-0 right-0 bg-neutral-900/90 backdrop-blur ring-1 ring-neutral-800">
+              <div className="flex justify-around py-2">
+                {tabs.map((tab) => {
+                  const active = pathname.startsWith(tab.href);
+                  return (
+                    <Link
+                      key={tab.href}
+                      href={tab.href}
+                      className={`flex flex-col items-center gap-1 text-xs transition ${
+                        active
+                          ? "text-[var(--color-accent)]"
+                          : "text-neutral-400"
+                      }`}
+                    >
+                      <span className="text-lg">{tab.icon}</span>
+                      {tab.label}
+                    </Link>
+                  );
+                })}
+              </div>
+            </nav>
+          </div>
+        </ErrorBoundary>
+      </AuthProvider>
     </ModalProvider>
   );
 }
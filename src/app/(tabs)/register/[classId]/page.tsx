@@ -1,14 +1,19 @@
 "use client";
 
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { createPortal } from "react-dom";
 import { useSyncData } from "@/lib/sync-manager";
-import type { DanceClass, Student, RegisterSession, PointEvent } from "@/lib/sync-manager";
+import type { RegisterSession, PointEvent } from "@/lib/sync-manager";
+import type { MarkConflict } from "@/lib/marks";
+import { useClass, useStudentsInClass, useSessions, usePoints } from "@/hooks/useLiveData";
 import { runAwardsOnRegisterClose } from "@/lib/awards/runMonthlyAwards.server";
 import { useModal } from "@/contexts/ModalContext";
 import { useHaptics } from "@/hooks/useGestures";
+import { usePermissions } from "@/hooks/usePermissions";
+import RecordHistory from "@/components/RecordHistory";
+import { markChangesFor, sessionMarkChanges, pointsNewestFirst, teacherLabel, formatChangeTime } from "@/lib/history";
 
 // Loading Screen Component
 function LoadingScreen({ message = "Loading..." }: { message?: string }) {
@@ -45,9 +50,6 @@ function LoadingScreen({ message = "Loading..." }: { message?: string }) {
 
 
 
-// Points are now managed by sync manager
-const LS_POINTS = "bb_points";
-
 const POINT_PRESETS = [
   { id: "practice", label: "Practised at Home", points: 5, icon: "🏠" },
   { id: "trying", label: "Great Effort", points: 3, icon: "💪" },
@@ -57,9 +59,11 @@ const POINT_PRESETS = [
 
 type Status = "ABSENT" | "PRESENT" | "LATE" | "EXCUSED";
 
-const LS_CLASSES = "bb_classes";
-const LS_STUDENTS = "bb_students";
-const LS_SESSIONS = "bb_sessions";
+const SESSION_FIELDS: Record<string, string> = {
+  startedAtISO: "Started",
+  closedAtISO: "Closed",
+  deleted: "Deleted",
+};
 
 const STATUS_LABEL: Record<Status, string> = {
   PRESENT: "/",
@@ -134,25 +138,56 @@ export default function RegisterPage() {
   const { classId } = useParams<{ classId: string }>();
   const router = useRouter();
   const searchParams = useSearchParams();
-  const { getClasses, getStudents, getSessions, getPoints, saveSessions, savePoints, getAwards, saveAwards } = useSyncData();
+  const {
+    getStudents,
+    getSessions,
+    getPoints,
+    saveSessions,
+    savePoints,
+    getAwards,
+    saveAwards,
+    getMarkConflicts,
+    resolveMarkConflict,
+    watchRegister,
+  } = useSyncData();
   const { showModal } = useModal();
+  const { can } = usePermissions();
+  const canMark = can("markRegisters");
   const { success, error: hapticError, light } = useHaptics();
   const sessionFromQuery = searchParams.get("session"); // 👈 ?session=...
 
-  const [hydrated, setHydrated] = useState(false);
+  // ------- LIVE DATA (re-renders on local edits and cloud pulls) -------
+  const danceClass = useClass(classId);
+  const studentsData = useStudentsInClass(classId);
+  const sessionsData = useSessions({ classId });
+  const pointsData = usePoints({ classId });
+  const hydrated = danceClass !== undefined && !!studentsData && !!sessionsData && !!pointsData;
 
-  const [danceClass, setDanceClass] = useState<DanceClass | null>(null);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [sessions, setSessions] = useState<RegisterSession[]>([]);
-  const [activeSessionId, setActiveSessionId] = useState<string>("");
+  const students = useMemo(() => studentsData ?? [], [studentsData]);
+  const sessions = useMemo(() => sessionsData ?? [], [sessionsData]);
+  const points = useMemo(() => pointsData ?? [], [pointsData]);
 
-  const [points, setPoints] = useState<PointEvent[]>([]);
+  const [pickedSessionId, setPickedSessionId] = useState<string>("");
+  const [markConflicts, setMarkConflicts] = useState<MarkConflict[]>([]);
   const [toast, setToast] = useState<{
     studentName: string;
     reason: string;
     points: number;
   } | null>(null);
 
+  // ------- Today’s sessions -------
+  const todayBucket = useMemo(() => dayKey(new Date()), []);
+
+  const todaysSessions = useMemo(() => {
+    return sessions
+      .filter((s) => dayKey(new Date(s.startedAtISO)) === todayBucket)
+      .sort((a, b) => +new Date(a.startedAtISO) - +new Date(b.startedAtISO));
+  }, [sessions, todayBucket]);
+
+  // A past register from the URL wins, then the one picked here, then today's latest
+  const activeSessionId =
+    sessionFromQuery || pickedSessionId || (todaysSessions[todaysSessions.length - 1]?.id ?? "");
+
   const activeSession = useMemo(() => {
     return sessions.find((s) => s.id === activeSessionId) || null;
   }, [sessions, activeSessionId]);
@@ -173,7 +208,20 @@ export default function RegisterPage() {
   return students.filter((st) => !st.archived);
 }, [students, activeSession, isViewingPast]);
 
-  const isReadOnly = isViewingPast || isRegisterClosed;
+  // ------- Who changed what in this register -------
+  const registerHistory = useMemo(() => {
+    if (!activeSession) return { marks: [], points: [] };
+    return {
+      marks: sessionMarkChanges(activeSession),
+      points: pointsNewestFirst(points.filter((p) => p.sessionId === activeSession.id)),
+    };
+  }, [activeSession, points]);
+
+  const studentName = (studentId: string) =>
+    students.find((st) => st.id === studentId)?.name ?? "Removed student";
+
+  // Viewers can open registers but not change them
+  const isReadOnly = isViewingPast || isRegisterClosed || !canMark;
 
   const now = useMemo(() => new Date(), []);
   const todayLabel = useMemo(() => {
@@ -184,89 +232,66 @@ export default function RegisterPage() {
     });
   }, [now]);
 
-  const todayBucket = useMemo(() => dayKey(new Date()), []);
-
-  // ------- LOAD (only once per mount / classId) -------
-  useEffect(() => {
-    const savedClasses = localStorage.getItem(LS_CLASSES);
-    if (savedClasses) {
-      const cls: DanceClass[] = JSON.parse(savedClasses);
-      const found = cls.find((c) => c.id === classId);
-      setDanceClass(found ?? null);
-    } else {
-      setDanceClass(null);
-    }
-
-    const savedStudents = localStorage.getItem(LS_STUDENTS);
-    if (savedStudents) {
-      const all: Student[] = JSON.parse(savedStudents);
-      setStudents(all.filter((s) => s.classId === classId));
-
-    } else {
-      setStudents([]);
-    }
-
-    const savedSessions = localStorage.getItem(LS_SESSIONS);
-    if (savedSessions) {
-      const all: RegisterSession[] = JSON.parse(savedSessions);
-      setSessions(all.filter((x) => x.classId === classId && !x.deleted));
-    } else {
-      setSessions([]);
-    }
-
-    const savedPoints = localStorage.getItem(LS_POINTS);
-    const allPoints: PointEvent[] = savedPoints ? JSON.parse(savedPoints) : [];
-    setPoints(allPoints.filter((p) => p.classId === classId && !p.deleted));
+  // ------- SAVE (only the records that changed) -------
+  const saveSession = useCallback((session: RegisterSession) => {
+    // Save through sync manager (handles online/offline sync and merging)
+    saveSessions([session]).catch((error) => {
+      console.error('Error saving sessions:', error);
+    });
+  }, [saveSessions]);
 
-    setHydrated(true);
-  }, [classId]);
+  const updateSession = (id: string, update: (session: RegisterSession) => RegisterSession) => {
+    const session = sessions.find((s) => s.id === id);
+    if (session) saveSession(update(session));
+  };
 
-  // ------- Sync query param -> activeSessionId (so clicking past register works reliably) -------
-  useEffect(() => {
-    if (!hydrated) return;
-    if (sessionFromQuery) setActiveSessionId(sessionFromQuery);
-  }, [hydrated, sessionFromQuery]);
+  // ------- Another teacher's marks and points, live while this page is open -------
+  useEffect(() => watchRegister(classId), [watchRegister, classId]);
 
-  // ------- SAVE points (after hydration only) -------
+  // ------- Marks another teacher changed at the same time -------
   useEffect(() => {
-    if (!hydrated) return;
+    if (!hydrated || !activeSessionId) return;
+    let cancelled = false;
 
-    // Save points through sync manager (handles local + external storage)
-    savePoints(points).catch((error) => {
-      console.error('Error saving points:', error);
-    });
-  }, [points, hydrated, savePoints]);
-
-  // ------- SAVE sessions (after hydration only) -------
-  useEffect(() => {
-    if (!hydrated) return;
+    getMarkConflicts(activeSessionId)
+      .then((conflicts) => {
+        if (!cancelled) setMarkConflicts(conflicts);
+      })
+      .catch((error) => {
+        console.error('Error loading mark conflicts:', error);
+      });
 
-    // Save through sync manager (handles online/offline sync and merging)
-    saveSessions(sessions).catch((error) => {
-      console.error('Error saving sessions:', error);
-    });
-  }, [sessions, hydrated, saveSessions]);
+    return () => {
+      cancelled = true;
+    };
+    // Sessions change whenever conflicts are found or resolved
+  }, [hydrated, activeSessionId, sessions, getMarkConflicts]);
+
+  const resolveConflict = async (conflict: MarkConflict, keep: "local" | "remote") => {
+    try {
+      await resolveMarkConflict(conflict.id, keep);
+      light();
+    } catch (error) {
+      console.error('Error resolving mark conflict:', error);
+      hapticError();
+    }
+  };
 
-  // ------- Today’s sessions -------
-  const todaysSessions = useMemo(() => {
-    return sessions
-      .filter((s) => dayKey(new Date(s.startedAtISO)) === todayBucket)
-      .sort((a, b) => +new Date(a.startedAtISO) - +new Date(b.startedAtISO));
-  }, [sessions, todayBucket]);
+  // ------- Create today’s first session if there isn’t one (ONLY after hydration) -------
+  const createdSessionForClass = useRef<string | null>(null);
 
-  // ------- Choose active session OR create first one (ONLY after hydration) -------
   useEffect(() => {
     if (!hydrated) return;
 
-    // If viewing a past register, do NOT auto-pick/create today’s
+    // If viewing a past register, do NOT create today’s
     if (sessionFromQuery) return;
+    if (!canMark) return;
 
     if (activeSessionId) return;
 
-    if (todaysSessions.length > 0) {
-      setActiveSessionId(todaysSessions[todaysSessions.length - 1].id);
-      return;
-    }
+    // The new session shows up once saved; don't create a second one meanwhile
+    if (createdSessionForClass.current === classId) return;
+    createdSessionForClass.current = classId;
 
     // Create first session for today
     const id = crypto.randomUUID();
@@ -283,9 +308,8 @@ export default function RegisterPage() {
       marks,
     };
 
-    setSessions((prev) => [...prev, newSession]);
-    setActiveSessionId(id);
-  }, [hydrated, activeSessionId, todaysSessions.length, students, classId, sessionFromQuery]);
+    saveSession(newSession);
+  }, [hydrated, activeSessionId, students, classId, sessionFromQuery, canMark, saveSession]);
 
   // Add newly-created students ONLY to an OPEN session (and not when viewing past)
   useEffect(() => {
@@ -293,6 +317,7 @@ export default function RegisterPage() {
     if (!activeSession) return;
     if (activeSession.closedAtISO) return;
     if (sessionFromQuery) return; // 🚫 don’t mutate old registers
+    if (!canMark) return;
 
     let changed = false;
     const marks = { ...activeSession.marks };
@@ -312,10 +337,8 @@ export default function RegisterPage() {
 
     if (!changed) return;
 
-    setSessions((prev) =>
-      prev.map((s) => (s.id === activeSession.id ? { ...s, marks } : s))
-    );
-  }, [hydrated, students, activeSession, sessionFromQuery]);
+    saveSession({ ...activeSession, marks });
+  }, [hydrated, students, activeSession, sessionFromQuery, canMark, saveSession]);
 
   const createNextRegisterToday = () => {
     if (!activeSession || !activeSession.closedAtISO) {
@@ -334,27 +357,27 @@ export default function RegisterPage() {
       marks,
     };
 
-    setSessions((prev) => [...prev, newSession]);
-    setActiveSessionId(id);
-
-    // saveSessions will be called automatically by the useEffect when sessions state changes
+    saveSession(newSession);
+    setPickedSessionId(id);
   };
 
   const givePoints = (studentId: string, reason: string, value: number, sessionId?: string) => {
-    if (isReadOnly) return;
-
-    setPoints((prev) => [
-      ...prev,
-      {
-        id: crypto.randomUUID(),
-        studentId,
-        classId,
-        reason,
-        points: value,
-        createdAtISO: new Date().toISOString(),
-        sessionId,
-      },
-    ]);
+    if (isReadOnly || !can("givePoints")) return;
+
+    const point: PointEvent = {
+      id: crypto.randomUUID(),
+      studentId,
+      classId,
+      reason,
+      points: value,
+      createdAtISO: new Date().toISOString(),
+      sessionId,
+    };
+
+    // Save points through sync manager (handles local + external storage)
+    savePoints([point]).catch((error) => {
+      console.error('Error saving points:', error);
+    });
 
     const student = students.find((s) => s.id === studentId);
     if (student) {
@@ -382,12 +405,7 @@ export default function RegisterPage() {
 
     const prevStatus = activeSession.marks?.[studentId] ?? "ABSENT";
 
-    setSessions((prev) =>
-      prev.map((s) => {
-        if (s.id !== activeSession.id) return s;
-        return { ...s, marks: { ...s.marks, [studentId]: status } };
-      })
-    );
+    updateSession(activeSession.id, (s) => ({ ...s, marks: { ...s.marks, [studentId]: status } }));
 
     // Auto on-time +1 when you mark PRESENT
     if (status === "PRESENT" && prevStatus !== "PRESENT") {
@@ -480,6 +498,18 @@ export default function RegisterPage() {
       document.getElementById("toast-root")!
     );
 
+  // Viewers can't start today's register, so there may be nothing to show yet
+  if (danceClass && hydrated && !activeSession && !canMark) {
+    return (
+      <main id="main-content" className="min-h-screen bg-black text-white p-4 flex flex-col items-center justify-center gap-4 text-center">
+        <p className="text-neutral-400">No register has been taken for {danceClass.name} today.</p>
+        <button onClick={() => router.back()} className="text-sm text-[var(--color-accent)]" type="button">
+          Go back
+        </button>
+      </main>
+    );
+  }
+
   if (!danceClass || !activeSession) {
     return <LoadingScreen message="Loading attendance register..." />;
   }
@@ -535,7 +565,7 @@ export default function RegisterPage() {
               <p className="text-xs text-neutral-500">Take attendance for today's class.</p>
             </div>
 
-            {!isViewingPast && (
+            {!isViewingPast && canMark && (
   <div className="flex flex-col gap-2">
     <button
       onClick={createNextRegisterToday}
@@ -569,7 +599,7 @@ export default function RegisterPage() {
               return (
                 <button
                   key={s.id}
-                  onClick={async() => setActiveSessionId(s.id)}
+                  onClick={async() => setPickedSessionId(s.id)}
                   className={[
                     "shrink-0 rounded-xl px-3 py-2 text-sm ring-1 transition",
                     active ? "bg-white/10 ring-white/20" : "bg-black/20 ring-neutral-700 text-neutral-300 opacity-80",
@@ -583,6 +613,50 @@ export default function RegisterPage() {
           </div>
         </div>
 
+        {/* Mark conflicts */}
+        {markConflicts.length > 0 && (
+          <div className="rounded-2xl bg-amber-950/40 ring-1 ring-amber-500/30 p-4 mb-4">
+            <p className="text-sm text-amber-200 font-medium">Marks changed on two devices</p>
+            <p className="text-xs text-neutral-400 mb-3">
+              Another teacher marked these students at the same time. Pick the mark to keep.
+            </p>
+
+            <div className="grid gap-2">
+              {markConflicts.map((conflict) => {
+                const student = students.find((st) => st.id === conflict.studentId);
+                const localStatus = conflict.local.status;
+                const remoteStatus = conflict.remote.status;
+
+                return (
+                  <div key={conflict.id} className="flex items-center gap-2">
+                    <p className="flex-1 min-w-0 text-sm text-white truncate">
+                      {student?.name ?? "Unknown student"}
+                    </p>
+
+                    <button
+                      onClick={() => resolveConflict(conflict, "local")}
+                      disabled={!canMark}
+                      className="shrink-0 rounded-xl bg-white/10 ring-1 ring-white/20 px-3 py-2 text-xs font-semibold text-white active:scale-[0.98] transition"
+                      type="button"
+                    >
+                      This device: {localStatus ? STATUS_LABEL[localStatus] : "—"}
+                    </button>
+
+                    <button
+                      onClick={() => resolveConflict(conflict, "remote")}
+                      disabled={!canMark}
+                      className="shrink-0 rounded-xl bg-white/10 ring-1 ring-white/20 px-3 py-2 text-xs font-semibold text-white active:scale-[0.98] transition"
+                      type="button"
+                    >
+                      Other device: {remoteStatus ? STATUS_LABEL[remoteStatus] : "—"}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Student list */}
         {students.length === 0 ? (
           <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-6 text-center">
@@ -597,6 +671,7 @@ export default function RegisterPage() {
               .map((st) => {
                 const status = activeSession.marks[st.id] ?? null;
                 const pct = percentageByStudent[st.id] ?? 0;
+                const lastChange = markChangesFor(activeSession, st.id)[0];
 
                 return (
                   <div
@@ -637,6 +712,12 @@ export default function RegisterPage() {
                           Lifetime attendance since joining •{" "}
                           <span className="font-semibold">{Math.round(pct)}%</span>
                         </p>
+
+                        {lastChange && (
+                          <p className="text-[11px] text-neutral-400 truncate">
+                            By {teacherLabel(lastChange.teacher)} • {formatChangeTime(lastChange.at)}
+                          </p>
+                        )}
                       </div>
 
                       <div className="text-sm font-bold text-white/90 px-2 py-1 rounded-lg bg-black/30">
@@ -720,11 +801,72 @@ export default function RegisterPage() {
           </div>
         )}
 
+        {/* Register history */}
+        {(registerHistory.marks.length > 0 || registerHistory.points.length > 0) && (
+          <details className="mt-6 rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 text-sm">
+            <summary className="cursor-pointer font-semibold text-neutral-200">
+              Register history
+            </summary>
+
+            {registerHistory.marks.length > 0 && (
+              <ul className="mt-3 space-y-2">
+                {registerHistory.marks.map((change) => (
+                  <li key={`${change.studentId}|${change.at}|${change.by}`} className="flex justify-between gap-3">
+                    <span className="min-w-0 truncate">
+                      {studentName(change.studentId)} → {change.status ? STATUS_LABEL[change.status] : "cleared"}
+                    </span>
+                    <span className="shrink-0 text-xs text-neutral-400">
+                      {teacherLabel(change.teacher)} • {formatChangeTime(change.at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {registerHistory.points.length > 0 && (
+              <>
+                <p className="mt-4 text-xs font-medium text-neutral-400 uppercase tracking-wide">Points</p>
+                <ul className="mt-2 space-y-2">
+                  {registerHistory.points.map((p) => (
+                    <li key={p.id} className="flex justify-between gap-3">
+                      <span className="min-w-0 truncate">
+                        {studentName(p.studentId)} +{p.points} {p.reason}
+                      </span>
+                      <span className="shrink-0 text-xs text-neutral-400">
+                        {teacherLabel(p.teacher)} • {formatChangeTime(p.createdAtISO)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </details>
+        )}
+
+        {/* Every version of this register, for undoing a mistake */}
+        <div className="mt-4">
+          <RecordHistory
+            table="sessions"
+            recordId={activeSession.id}
+            version={activeSession.updatedAt}
+            canRevert={canMark}
+            describeField={(field) => {
+              if (field.startsWith("marks.")) return studentName(field.slice("marks.".length));
+              return SESSION_FIELDS[field] ?? field;
+            }}
+            describeValue={(field, value) => {
+              if (field.startsWith("marks.")) return value ? STATUS_LABEL[value as Status] : "—";
+              if (field === "closedAtISO" && typeof value === "string") return new Date(value).toLocaleString('en-GB');
+              return undefined;
+            }}
+          />
+        </div>
+
         {/* Close register button (only for active/today session, not for past view) */}
         {!isViewingPast && (
           <div className="mt-6">
             <button
-              disabled={isRegisterClosed}
+              disabled={isRegisterClosed || !canMark}
               onClick={async () => {
   const closedAt = new Date().toISOString();
   // ✅ Fill missing attendance as ABSENT before closing
@@ -736,14 +878,16 @@ export default function RegisterPage() {
     }
   });
 
-  // 1️⃣ Close the register
-  setSessions((prev) =>
-    prev.map((s) =>
-      s.id === activeSession.id
-        ? { ...s, marks: filledMarks, closedAtISO: closedAt }
-        : s
-    )
-  );
+  // 1️⃣ Close the register (saved before awards read the sessions back)
+  try {
+    await saveSessions([{ ...activeSession, marks: filledMarks, closedAtISO: closedAt }]);
+  } catch (error) {
+    console.error('Error closing register:', error);
+    return;
+  }
+
+  // Assistants close registers but don't hand out awards; the next teacher to close one catches up
+  if (!can("giveAwards")) return;
 
   // 2️⃣ Run automatic awards for this register close
   try {
@@ -0,0 +1,209 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import type { TableName } from "@/lib/sync-manager";
+import type { SnapshotInfo, SnapshotReason } from "@/lib/local-store";
+import { loadAwardsMeta, saveAwardsMeta, restoreAwardsMeta, type RestorePlan } from "@/lib/backup";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useModal } from "@/contexts/ModalContext";
+import { formatChangeTime } from "@/lib/history";
+import RestorePreview from "@/components/RestorePreview";
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: "Daily",
+  manual: "Taken by hand",
+  cleanup: "Before cleaning unsynced data",
+  migration: "Before a data upgrade",
+  restore: "Before restoring a backup",
+  rollback: "Before a rollback",
+  purge: "Before emptying from the Trash",
+};
+
+const TABLE_LABELS: Record<TableName, string> = {
+  classes: "classes",
+  students: "students",
+  sessions: "registers",
+  points: "points",
+  awards: "awards",
+};
+
+function formatSize(characters: number) {
+  return characters < 1024 ? `${characters} B` : `${Math.round(characters / 1024)} KB`;
+}
+
+function describeCounts(counts: SnapshotInfo["counts"]) {
+  return (Object.keys(TABLE_LABELS) as TableName[])
+    .map((table) => `${counts[table] ?? 0} ${TABLE_LABELS[table]}`)
+    .join(" • ");
+}
+
+export default function SnapshotsPage() {
+  const router = useRouter();
+  const { getSnapshots, createSnapshot, compareSnapshot, rollbackToSnapshot } = useSyncData();
+  const { can } = usePermissions();
+  const { showModal } = useModal();
+
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[] | null>(null);
+  // Bumped after taking or rolling back, to reload the list
+  const [version, setVersion] = useState(0);
+  const [comparing, setComparing] = useState<{ snapshot: SnapshotInfo; plan: RestorePlan } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  /* ---------- LOAD ---------- */
+  useEffect(() => {
+    let cancelled = false;
+
+    getSnapshots()
+      .then((list) => {
+        if (!cancelled) setSnapshots(list);
+      })
+      .catch((err) => {
+        console.error('Error loading snapshots:', err);
+        if (!cancelled) setSnapshots([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getSnapshots, version]);
+
+  /* ---------- ACTIONS ---------- */
+  const takeNow = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const snapshot = await createSnapshot();
+      if (!snapshot) setError("Couldn't take a snapshot, try again");
+      setVersion((v) => v + 1);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const compare = async (snapshot: SnapshotInfo) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setComparing({ snapshot, plan: await compareSnapshot(snapshot.id) });
+    } catch (err) {
+      console.error('Error comparing snapshot:', err);
+      setError(err instanceof Error ? err.message : "Couldn't open that snapshot");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rollback = (snapshot: SnapshotInfo) => {
+    showModal(
+      "confirm",
+      "Roll Back",
+      `Make this device match the snapshot from ${formatChangeTime(snapshot.takenAt)}? Anything added since is moved to the Trash, and a snapshot of how things are now is kept first.`,
+      async () => {
+        setBusy(true);
+        setError(null);
+        try {
+          const contents = await rollbackToSnapshot(snapshot.id);
+          saveAwardsMeta(restoreAwardsMeta(loadAwardsMeta(), contents.awardsMeta, "replace"));
+          setComparing(null);
+          setMessage(`Rolled back to ${formatChangeTime(snapshot.takenAt)}. The changes will sync like any other edit.`);
+          setVersion((v) => v + 1);
+        } catch (err) {
+          console.error('Error rolling back:', err);
+          setError(err instanceof Error ? err.message : "Couldn't roll back");
+        } finally {
+          setBusy(false);
+        }
+      }
+    );
+  };
+
+  /* ---------- UI ---------- */
+  const canRollBack = can("manageStudio");
+
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Snapshots</h1>
+      </div>
+
+      <p className="text-sm text-neutral-400">
+        This device keeps a compressed copy of its data once a day and before anything that removes
+        data. Only the most recent ones are kept, and they never leave this device.
+      </p>
+
+      <button
+        onClick={takeNow}
+        disabled={busy}
+        className="w-full rounded-xl bg-neutral-800 py-3 text-sm font-medium disabled:opacity-40"
+        type="button"
+      >
+        Take a snapshot now
+      </button>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+      {message && <p className="text-sm text-emerald-300">{message}</p>}
+
+      {/* LIST */}
+      {snapshots === null ? (
+        <p className="text-sm text-neutral-500">Loading snapshots…</p>
+      ) : snapshots.length === 0 ? (
+        <p className="text-sm text-neutral-500">No snapshots yet.</p>
+      ) : (
+        <section className="space-y-3">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-3">
+              <div>
+                <div className="flex justify-between gap-3">
+                  <p className="font-medium">{formatChangeTime(snapshot.takenAt)}</p>
+                  <span className="shrink-0 text-xs text-neutral-500">{formatSize(snapshot.size)}</span>
+                </div>
+                <p className="text-xs text-neutral-400">{REASON_LABELS[snapshot.reason]}</p>
+                <p className="text-xs text-neutral-500">{describeCounts(snapshot.counts)}</p>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => compare(snapshot)}
+                  disabled={busy}
+                  className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium disabled:opacity-40"
+                  type="button"
+                >
+                  Compare
+                </button>
+                {canRollBack && (
+                  <button
+                    onClick={() => rollback(snapshot)}
+                    disabled={busy}
+                    className="flex-1 rounded-xl bg-neutral-800 text-amber-300 py-2 text-sm font-medium disabled:opacity-40"
+                    type="button"
+                  >
+                    Roll back
+                  </button>
+                )}
+              </div>
+
+              {comparing?.snapshot.id === snapshot.id && (
+                <div className="space-y-3">
+                  <p className="text-xs text-neutral-500">
+                    What rolling back would change on this device:
+                  </p>
+                  <RestorePreview plan={comparing.plan} emptyMessage="Nothing has changed since this snapshot." />
+                </div>
+              )}
+            </div>
+          ))}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -1,9 +1,12 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { loadAwards } from "@/lib/awards/awards.storage";
-import { useSyncData } from "@/lib/sync-manager";
+import { useClasses, useStudent, useSessions, usePoints, useAwards } from "@/hooks/useLiveData";
+import { markChangesFor, pointsNewestFirst, teacherLabel, formatChangeTime } from "@/lib/history";
+import type { MarkChange, MarkMeta, TeacherRef } from "@/lib/sync-manager";
+import { usePermissions } from "@/hooks/usePermissions";
+import RecordHistory from "@/components/RecordHistory";
 
 // Loading Screen Component
 function LoadingScreen({ message = "Loading..." }: { message?: string }) {
@@ -51,6 +54,7 @@ type Student = {
   classId: string;
   joinedAtISO: string;
   archived?: boolean;
+  updatedAt?: string;
   deleted?: boolean;
 };
 
@@ -61,6 +65,8 @@ type RegisterSession = {
   classId: string;
   startedAtISO: string;
   marks: Record<string, Status>;
+  markMeta?: Record<string, MarkMeta>;
+  markHistory?: Record<string, MarkChange[]>;
   deleted?: boolean;
 };
 
@@ -72,13 +78,17 @@ type PointEvent = {
   points: number;
   createdAtISO: string;
   sessionId?: string;
+  teacher?: TeacherRef;
   deleted?: boolean;
 };
 
-const LS_POINTS = "bb_points";
-const LS_CLASSES = "bb_classes";
-const LS_STUDENTS = "bb_students";
-const LS_SESSIONS = "bb_sessions";
+const STUDENT_FIELDS: Record<string, string> = {
+  name: "Name",
+  classId: "Class",
+  joinedAtISO: "Joined",
+  archived: "Archived",
+  deleted: "Deleted",
+};
 
 const STATUS_LABEL: Record<Status, string> = {
   PRESENT: "/",
@@ -184,52 +194,19 @@ function polarToCartesian(cx: number, cy: number, r: number, angle: number) {
 export default function StudentProfilePage() {
   const { studentId } = useParams<{ studentId: string }>();
   const router = useRouter();
-  const { getClasses, getStudents, getSessions, getPoints } = useSyncData();
-
-  const [student, setStudent] = useState<Student | null>(null);
-  const [classes, setClasses] = useState<DanceClass[]>([]);
-  const [sessions, setSessions] = useState<RegisterSession[]>([]);
-  const [points, setPoints] = useState<PointEvent[]>([]);
-  const [awards, setAwards] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [classesData, studentsData, sessionsData, pointsData] = await Promise.all([
-          getClasses(),
-          getStudents(),
-          getSessions(),
-          getPoints(),
-        ]);
-
-        setClasses(classesData.filter(c => !c.deleted));
-        setStudent(studentsData.find((s) => s.id === studentId && !s.deleted) || null);
-        setSessions(sessionsData.filter(s => !s.deleted));
-        setPoints(pointsData.filter(p => !p.deleted));
-
-        const allAwards = loadAwards();
-        setAwards(allAwards.filter((a) => a.studentId === studentId));
-      } catch (error) {
-        console.error('Error loading student data:', error);
-        // Fallback to localStorage
-        setClasses(JSON.parse(localStorage.getItem(LS_CLASSES) || "[]").filter((c: DanceClass) => !c.deleted));
-
-        const allStudents: Student[] = JSON.parse(localStorage.getItem(LS_STUDENTS) || "[]");
-        setStudent(allStudents.find((s) => s.id === studentId && !s.deleted) || null);
-
-        setSessions(JSON.parse(localStorage.getItem(LS_SESSIONS) || "[]").filter((s: RegisterSession) => !s.deleted));
-        setPoints(JSON.parse(localStorage.getItem(LS_POINTS) || "[]").filter((p: PointEvent) => !p.deleted));
-
-        const allAwards = loadAwards();
-        setAwards(allAwards.filter((a) => a.studentId === studentId));
-      } finally {
-        setLoading(false);
-      }
-    };
+  const { can } = usePermissions();
+
+  const classesData: DanceClass[] | undefined = useClasses();
+  const studentData: Student | null | undefined = useStudent(studentId);
+  const sessionsData: RegisterSession[] | undefined = useSessions();
+  const pointsData: PointEvent[] | undefined = usePoints();
+  const awardsData = useAwards({ studentId });
 
-    loadData();
-  }, [studentId, getClasses, getStudents, getSessions, getPoints]);
+  const student = studentData ?? null;
+  const classes = useMemo(() => classesData ?? [], [classesData]);
+  const sessions = useMemo(() => sessionsData ?? [], [sessionsData]);
+  const points = useMemo(() => pointsData ?? [], [pointsData]);
+  const awards = useMemo(() => awardsData ?? [], [awardsData]);
 
   const cls = useMemo(
     () => classes.find((c) => c.id === student?.classId),
@@ -290,7 +267,7 @@ export default function StudentProfilePage() {
       byReason[p.reason] = (byReason[p.reason] ?? 0) + p.points;
     }
 
-    return { total, byReason };
+    return { total, byReason, history: pointsNewestFirst(mine) };
   }, [points, student]);
 
   if (!student || !cls || !stats) {
@@ -396,26 +373,101 @@ export default function StudentProfilePage() {
       <div className="space-y-2">
         {stats.history.map((s) => {
           const mark = s.marks[student.id];
+          const changes = markChangesFor(s, student.id);
+          const latest = changes[0];
           return (
             <div
               key={s.id}
-              className="rounded-xl bg-neutral-900 ring-1 ring-neutral-800 px-4 py-3 flex justify-between"
+              className="rounded-xl bg-neutral-900 ring-1 ring-neutral-800 px-4 py-3"
             >
-              <div>
-                <p className="text-sm">
-                  {new Date(s.startedAtISO).toLocaleString('en-GB')}
-                </p>
-                <p className={`text-xs font-semibold ${statusColor(mark)}`}>
-                  {mark}
-                </p>
+              <div className="flex justify-between">
+                <div>
+                  <p className="text-sm">
+                    {new Date(s.startedAtISO).toLocaleString('en-GB')}
+                  </p>
+                  <p className={`text-xs font-semibold ${statusColor(mark)}`}>
+                    {mark}
+                  </p>
+                </div>
+                <span className={`font-bold ${statusColor(mark)}`}>
+                  {STATUS_LABEL[mark]}
+                </span>
               </div>
-              <span className={`font-bold ${statusColor(mark)}`}>
-                {STATUS_LABEL[mark]}
-              </span>
+
+              {latest && (
+                <p className="mt-1 text-xs text-neutral-500">
+                  Marked by {teacherLabel(latest.teacher)} • {formatChangeTime(latest.at)}
+                </p>
+              )}
+
+              {/* Earlier changes, for when a mark is questioned */}
+              {changes.length > 1 && (
+                <details className="mt-2 text-xs text-neutral-400">
+                  <summary className="cursor-pointer">
+                    Changed {changes.length} times
+                  </summary>
+                  <ul className="mt-2 space-y-1">
+                    {changes.map((change) => (
+                      <li key={`${change.at}|${change.by}`} className="flex justify-between gap-3">
+                        <span className={change.status ? statusColor(change.status) : "text-neutral-500"}>
+                          {change.status ?? "Cleared"}
+                        </span>
+                        <span className="text-right">
+                          {teacherLabel(change.teacher)} • {formatChangeTime(change.at)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </div>
           );
         })}
       </div>
+
+      {/* POINTS HISTORY */}
+      {pointStats && pointStats.history.length > 0 && (
+        <>
+          <h2 className="text-lg font-semibold mt-6 mb-3">Points history</h2>
+
+          <div className="space-y-2">
+            {pointStats.history.map((p) => (
+              <div
+                key={p.id}
+                className="rounded-xl bg-neutral-900 ring-1 ring-neutral-800 px-4 py-3 flex justify-between gap-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm">{p.reason}</p>
+                  <p className="text-xs text-neutral-500">
+                    Given by {teacherLabel(p.teacher)} • {formatChangeTime(p.createdAtISO)}
+                  </p>
+                </div>
+                <span className="shrink-0 font-bold text-emerald-400">
+                  {p.points > 0 ? `+${p.points}` : p.points}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* RECORD HISTORY */}
+      <div className="mt-6">
+        <RecordHistory
+          table="students"
+          recordId={student.id}
+          version={student.updatedAt}
+          canRevert={can("manageStudents")}
+          describeField={(field) => STUDENT_FIELDS[field] ?? field}
+          describeValue={(field, value) => {
+            if (field === "classId") return classes.find((c) => c.id === value)?.name;
+            if (field === "joinedAtISO" && typeof value === "string") {
+              return new Date(value).toLocaleDateString('en-GB');
+            }
+            return undefined;
+          }}
+        />
+      </div>
     </main>
   );
 }
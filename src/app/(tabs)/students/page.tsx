@@ -1,9 +1,11 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useSyncData } from "@/lib/sync-manager";
+import { useClasses, useStudents, useSessions, usePoints } from "@/hooks/useLiveData";
 import { useModal } from "@/contexts/ModalContext";
+import { usePermissions } from "@/hooks/usePermissions";
 import { useFormValidation, validationRules, sanitizeInput } from "@/lib/validation";
 import type { DanceClass, Student, RegisterSession, PointEvent } from "@/lib/sync-manager";
 
@@ -43,25 +45,15 @@ function LoadingScreen({ message = "Loading..." }: { message?: string }) {
 /* ---------- TYPES ---------- */
 type Status = "ABSENT" | "PRESENT" | "LATE" | "EXCUSED";
 
-/* ---------- STORAGE KEYS ---------- */
-const LS_CLASSES = "bb_classes";
-const LS_STUDENTS = "bb_students";
-const LS_SESSIONS = "bb_sessions";
-const LS_POINTS = "bb_points";
-
 export default function StudentsPage() {
   const router = useRouter();
-  const { getClasses, getStudents, getSessions, getPoints, saveStudents, saveSessions, savePoints } = useSyncData();
+  const { saveStudents, saveSessions, savePoints, cleanupUnsyncedData: cleanupUnsynced } = useSyncData();
   const { showModal } = useModal();
-
-  const [classes, setClasses] = useState<DanceClass[]>([]);
-  const [students, setStudents] = useState<Student[]>([]);
-  const [sessions, setSessions] = useState<RegisterSession[]>([]);
-  const [points, setPoints] = useState<PointEvent[]>([]);
+  const { can } = usePermissions();
+  const canManageStudents = can("manageStudents");
 
   const [newName, setNewName] = useState("");
   const [newClassId, setNewClassId] = useState("");
-  const [loading, setLoading] = useState(true);
 
   // Filter and search state
   const [searchQuery, setSearchQuery] = useState("");
@@ -69,35 +61,17 @@ export default function StudentsPage() {
 
   const { errors, validate, clearError, hasErrors } = useFormValidation();
 
-  /* ---------- LOAD DATA ---------- */
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [classesData, studentsData, sessionsData, pointsData] = await Promise.all([
-          getClasses(),
-          getStudents(),
-          getSessions(),
-          getPoints(),
-        ]);
-
-        setClasses(classesData);
-        setStudents(studentsData);
-        setSessions(sessionsData);
-        setPoints(pointsData);
-      } catch (error) {
-        console.error('Error loading data:', error);
-        // Fallback to localStorage
-        setClasses(JSON.parse(localStorage.getItem(LS_CLASSES) || "[]"));
-        setStudents(JSON.parse(localStorage.getItem(LS_STUDENTS) || "[]"));
-        setSessions(JSON.parse(localStorage.getItem(LS_SESSIONS) || "[]").filter((s: any) => !s.deleted));
-        setPoints(JSON.parse(localStorage.getItem(LS_POINTS) || "[]").filter((p: any) => !p.deleted));
-      } finally {
-        setLoading(false);
-      }
-    };
+  /* ---------- LIVE DATA ---------- */
+  const classesData = useClasses();
+  const studentsData = useStudents();
+  const sessionsData = useSessions();
+  const pointsData = usePoints();
+  const loading = !classesData || !studentsData || !sessionsData || !pointsData;
 
-    loadData();
-  }, [getClasses, getStudents, getSessions]);
+  const classes: DanceClass[] = useMemo(() => classesData ?? [], [classesData]);
+  const students: Student[] = useMemo(() => studentsData ?? [], [studentsData]);
+  const sessions: RegisterSession[] = useMemo(() => sessionsData ?? [], [sessionsData]);
+  const points: PointEvent[] = useMemo(() => pointsData ?? [], [pointsData]);
 
   /* ---------- ACTIONS ---------- */
   const addStudent = async () => {
@@ -121,11 +95,8 @@ export default function StudentsPage() {
       updatedAt: new Date().toISOString(),
     };
 
-    const updatedStudents = [...students, newStudent];
-    setStudents(updatedStudents);
-
     try {
-      await saveStudents(updatedStudents);
+      await saveStudents([newStudent]);
       setNewName("");
       clearError("studentName");
     } catch (error) {
@@ -135,15 +106,13 @@ export default function StudentsPage() {
   };
 
   const moveStudent = async (id: string, classId: string) => {
-    const updatedStudents = students.map((s) =>
-      s.id === id
-        ? { ...s, classId, joinedAtISO: new Date().toISOString(), synced: false, updatedAt: new Date().toISOString() }
-        : s
-    );
-    setStudents(updatedStudents);
+    const student = students.find((s) => s.id === id);
+    if (!student) return;
+
+    const movedStudent = { ...student, classId, joinedAtISO: new Date().toISOString() };
 
     try {
-      await saveStudents(updatedStudents);
+      await saveStudents([movedStudent]);
     } catch (error) {
       console.error('Error moving student:', error);
     }
@@ -155,13 +124,11 @@ export default function StudentsPage() {
       "Archive Student",
       "Archive this student?",
       async () => {
-        const updatedStudents = students.map((s) =>
-          s.id === id ? { ...s, archived: true, synced: false, updatedAt: new Date().toISOString() } : s
-        );
-        setStudents(updatedStudents);
+        const student = students.find((s) => s.id === id);
+        if (!student) return;
 
         try {
-          await saveStudents(updatedStudents);
+          await saveStudents([{ ...student, archived: true }]);
         } catch (error) {
           console.error('Error archiving student:', error);
         }
@@ -173,24 +140,14 @@ export default function StudentsPage() {
     console.log('deleteSession called for:', id);
 
     // Mark session as deleted instead of filtering it out
-    const updatedSessions = sessions.map((s) =>
-      s.id === id
-        ? { ...s, deleted: true, synced: false, updatedAt: new Date().toISOString() }
-        : s
-    );
+    const updatedSessions = sessions
+      .filter((s) => s.id === id)
+      .map((s) => ({ ...s, deleted: true }));
 
     // Mark any points associated with this session as deleted
-    const updatedPoints = points.map((p) =>
-      p.sessionId === id
-        ? { ...p, deleted: true, synced: false, updatedAt: new Date().toISOString() }
-        : p
-    );
-
-    console.log('Updated sessions:', updatedSessions.filter(s => s.deleted));
-    console.log('Updated points:', updatedPoints.filter(p => p.deleted && p.sessionId === id));
-
-    setSessions(updatedSessions);
-    setPoints(updatedPoints);
+    const updatedPoints = points
+      .filter((p) => p.sessionId === id)
+      .map((p) => ({ ...p, deleted: true }));
 
     try {
       await Promise.all([
@@ -212,27 +169,17 @@ export default function StudentsPage() {
       return;
     }
 
-    const message = `Remove ${unsyncedSessions.length} unsynced session(s) and ${unsyncedPoints.length} unsynced point(s)? This data only exists locally and will be permanently lost.`;
+    const message = `Remove ${unsyncedSessions.length} unsynced session(s) and ${unsyncedPoints.length} unsynced point(s)? This data only exists locally; a snapshot is kept on this device in case you need it back.`;
 
     showModal(
       "confirm",
       "Clean Unsynced Data",
       message,
       async () => {
-        // Remove unsynced sessions completely (hard delete)
-        const cleanedSessions = sessions.filter(s => s.synced || s.deleted);
-        // Remove unsynced points completely (hard delete)
-        const cleanedPoints = points.filter(p => p.synced || p.deleted);
-
-        setSessions(cleanedSessions);
-        setPoints(cleanedPoints);
-
+        // Deleted as tombstones (purged later), with a snapshot to roll back to from Backup → Snapshots
         try {
-          await Promise.all([
-            saveSessions(cleanedSessions),
-            savePoints(cleanedPoints)
-          ]);
-          showModal("alert", "Cleanup Complete", `Removed ${unsyncedSessions.length} unsynced session(s) and ${unsyncedPoints.length} unsynced point(s).`);
+          const removed = await cleanupUnsynced();
+          showModal("alert", "Cleanup Complete", `Removed ${removed.sessions} unsynced session(s) and ${removed.points} unsynced point(s).`);
         } catch (error) {
           console.error('Error during cleanup:', error);
           showModal("alert", "Error", "Failed to clean up unsynced data. Please try again.");
@@ -303,48 +250,50 @@ export default function StudentsPage() {
       </h1>
 
       {/* ADD STUDENT */}
-      <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 mb-8 space-y-4">
-        <div>
-          <input
-            className={`w-full rounded-xl px-4 py-3 outline-none ${
-              errors.studentName ? "bg-red-900/40 ring-1 ring-red-500" : "bg-black/40"
-            }`}
-            placeholder="Student name"
-            value={newName}
-            onChange={(e) => {
-              const value = e.target.value;
-              setNewName(value);
-              if (errors.studentName) {
-                validate("studentName", sanitizeInput(value), validationRules.studentName);
-              }
-            }}
-            onBlur={(e) => validate("studentName", sanitizeInput(e.target.value), validationRules.studentName)}
-          />
-          {errors.studentName && (
-            <p className="mt-1 text-xs text-red-400">{errors.studentName}</p>
-          )}
-        </div>
+      {canManageStudents && (
+        <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 mb-8 space-y-4">
+          <div>
+            <input
+              className={`w-full rounded-xl px-4 py-3 outline-none ${
+                errors.studentName ? "bg-red-900/40 ring-1 ring-red-500" : "bg-black/40"
+              }`}
+              placeholder="Student name"
+              value={newName}
+              onChange={(e) => {
+                const value = e.target.value;
+                setNewName(value);
+                if (errors.studentName) {
+                  validate("studentName", sanitizeInput(value), validationRules.studentName);
+                }
+              }}
+              onBlur={(e) => validate("studentName", sanitizeInput(e.target.value), validationRules.studentName)}
+            />
+            {errors.studentName && (
+              <p className="mt-1 text-xs text-red-400">{errors.studentName}</p>
+            )}
+          </div>
 
-        <select
-          className="w-full rounded-xl bg-black/40 px-4 py-3"
-          value={newClassId}
-          onChange={(e) => setNewClassId(e.target.value)}
-        >
-          <option value="">Select class</option>
-          {classes.filter(c => !c.deleted).map((c) => (
-            <option key={c.id} value={c.id}>
-              {c.name}
-            </option>
-          ))}
-        </select>
-
-        <button
-          onClick={addStudent}
-          className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold"
-        >
-          Add student
-        </button>
-      </div>
+          <select
+            className="w-full rounded-xl bg-black/40 px-4 py-3"
+            value={newClassId}
+            onChange={(e) => setNewClassId(e.target.value)}
+          >
+            <option value="">Select class</option>
+            {classes.filter(c => !c.deleted).map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+
+          <button
+            onClick={addStudent}
+            className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold"
+          >
+            Add student
+          </button>
+        </div>
+      )}
 
       {/* FILTERS AND SEARCH */}
       <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 mb-6 space-y-4">
@@ -422,29 +371,31 @@ export default function StudentsPage() {
                 </div>
 
                 {/* ACTIONS */}
-                <div className="mt-4 flex gap-2">
-                  <select
-                    className="flex-1 rounded-xl bg-black/40 px-4 py-2 text-sm"
-                    value={s.classId}
-                    onChange={(e) => moveStudent(s.id, e.target.value)}
-                  >
-                    {classes.map((c) => (
-                      <option key={c.id} value={c.id}>
-                        Move to {c.name}
-                      </option>
-                    ))}
-                  </select>
-
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      archiveStudent(s.id);
-                    }}
-                    className="text-xs text-neutral-400 hover:text-red-400 px-3 py-2 min-w-[44px] min-h-[44px] flex items-center justify-center"
-                  >
-                    Archive
-                  </button>
-                </div>
+                {canManageStudents && (
+                  <div className="mt-4 flex gap-2">
+                    <select
+                      className="flex-1 rounded-xl bg-black/40 px-4 py-2 text-sm"
+                      value={s.classId}
+                      onChange={(e) => moveStudent(s.id, e.target.value)}
+                    >
+                      {classes.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          Move to {c.name}
+                        </option>
+                      ))}
+                    </select>
+
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        archiveStudent(s.id);
+                      }}
+                      className="text-xs text-neutral-400 hover:text-red-400 px-3 py-2 min-w-[44px] min-h-[44px] flex items-center justify-center"
+                    >
+                      Archive
+                    </button>
+                  </div>
+                )}
               </div>
             );
           })
@@ -456,12 +407,14 @@ export default function StudentsPage() {
         <h2 className="text-xl font-semibold font-title">
           Registers
         </h2>
-        <button
-          onClick={() => cleanupUnsyncedData()}
-          className="text-xs bg-amber-600/20 text-amber-400 px-3 py-2 rounded-lg hover:bg-amber-600/30 transition"
-        >
-          Clean Unsynced
-        </button>
+        {can("cleanupUnsynced") && (
+          <button
+            onClick={() => cleanupUnsyncedData()}
+            className="text-xs bg-amber-600/20 text-amber-400 px-3 py-2 rounded-lg hover:bg-amber-600/30 transition"
+          >
+            Clean Unsynced
+          </button>
+        )}
       </div>
 
       <div className="space-y-4">
@@ -487,22 +440,24 @@ export default function StudentsPage() {
                       <span className="ml-2 text-amber-400 text-xs">(unsynced)</span>
                     )}
                   </span>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      const sessionTime = new Date(s.startedAtISO).toLocaleString('en-GB');
-                      const syncStatus = s.synced ? "" : " (This data is not synced to cloud)";
-                      showModal(
-                        "confirm",
-                        "Delete Register",
-                        `Delete register from ${sessionTime}?${syncStatus} This cannot be undone.`,
-                        () => deleteSession(s.id)
-                      );
-                    }}
-                    className="text-red-400 px-3 py-2 min-w-[44px] min-h-[44px] flex items-center justify-center hover:bg-red-400/10 transition"
-                  >
-                    Delete
-                  </button>
+                  {can("deleteRegisters") && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        const sessionTime = new Date(s.startedAtISO).toLocaleString('en-GB');
+                        const syncStatus = s.synced ? "" : " (This data is not synced to cloud)";
+                        showModal(
+                          "confirm",
+                          "Delete Register",
+                          `Delete register from ${sessionTime}?${syncStatus} This cannot be undone.`,
+                          () => deleteSession(s.id)
+                        );
+                      }}
+                      className="text-red-400 px-3 py-2 min-w-[44px] min-h-[44px] flex items-center justify-center hover:bg-red-400/10 transition"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,398 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import type { SyncDiagnostics, TableName, UnsyncedRecord } from "@/lib/sync-manager";
+import type { QuarantineEntry } from "@/lib/local-store";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { useModal } from "@/contexts/ModalContext";
+
+// Loading Screen Component
+function LoadingScreen({ message = "Loading..." }: { message?: string }) {
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center justify-center">
+      <div className="text-center space-y-6">
+        {/* Animated icon */}
+        <div className="relative">
+          <div className="w-16 h-16 mx-auto bg-gradient-to-br from-orange-500 to-pink-500 rounded-xl flex items-center justify-center shadow-xl overflow-hidden">
+            <img
+              src="/icon-512.png"
+              alt="Bollywood Beatz Logo"
+              className="w-full h-full object-contain animate-bounce"
+            />
+          </div>
+        </div>
+
+        {/* Loading text */}
+        <div className="space-y-2">
+          <h2 className="text-xl font-semibold text-neutral-200">Bollywood Beatz</h2>
+          <p className="text-neutral-400 animate-pulse">{message}</p>
+        </div>
+
+        {/* Loading dots */}
+        <div className="flex space-x-2 justify-center">
+          <div className="w-2 h-2 bg-orange-500 rounded-full animate-bounce"></div>
+          <div className="w-2 h-2 bg-pink-500 rounded-full animate-bounce delay-100"></div>
+          <div className="w-2 h-2 bg-purple-500 rounded-full animate-bounce delay-200"></div>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+const TABLE_LABELS: Record<TableName, string> = {
+  classes: "Classes",
+  students: "Students",
+  sessions: "Registers",
+  points: "Points",
+  awards: "Awards",
+};
+
+const OP_LABELS = {
+  create: "New",
+  update: "Edited",
+  delete: "Deleted",
+} as const;
+
+function formatTime(iso?: string) {
+  if (!iso) return "Never";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("en-GB");
+}
+
+// Something a teacher will recognise, falling back to the record id
+function describeRecord({ entry, record }: UnsyncedRecord) {
+  if (!record) return entry.recordId;
+  if (typeof record.name === "string") return record.name;
+  if (typeof record.reason === "string") return `${record.reason} (${record.points ?? 0} pts)`;
+  if (typeof record.startedAtISO === "string") return `Register • ${formatTime(record.startedAtISO)}`;
+  if (typeof record.awardId === "string") return record.awardId;
+  return entry.recordId;
+}
+
+const SOURCE_LABELS = {
+  local: "Found on this device",
+  remote: "Downloaded",
+  save: "Blocked when saving",
+  transfer: "Received from another device",
+} as const;
+
+// One quarantined record: what's wrong with it, and an editor to fix it
+function QuarantineItem({
+  entry,
+  onRepair,
+  onDiscard,
+}: {
+  entry: QuarantineEntry;
+  onRepair: (entry: QuarantineEntry, record: unknown) => Promise<string[]>;
+  onDiscard: (entry: QuarantineEntry) => Promise<void>;
+}) {
+  const { showModal } = useModal();
+  const [text, setText] = useState(() => JSON.stringify(entry.record, null, 2));
+  const [problems, setProblems] = useState<string[]>(entry.problems);
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const save = async () => {
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      setProblems(["The record isn't valid JSON"]);
+      return;
+    }
+
+    setBusy(true);
+    try {
+      setProblems(await onRepair(entry, record));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const discard = () => {
+    showModal(
+      "confirm",
+      "Discard Record",
+      "Remove this record from this device? This cannot be undone.",
+      async () => {
+        setBusy(true);
+        try {
+          await onDiscard(entry);
+        } finally {
+          setBusy(false);
+        }
+      }
+    );
+  };
+
+  return (
+    <div className="rounded-2xl bg-amber-950/30 ring-1 ring-amber-500/30 p-4 space-y-3">
+      <div className="flex items-center justify-between text-xs text-neutral-400">
+        <span>
+          {TABLE_LABELS[entry.table]} • {SOURCE_LABELS[entry.source]}
+        </span>
+        <span>{formatTime(entry.quarantinedAt)}</span>
+      </div>
+
+      <ul className="text-sm text-amber-200 list-disc pl-5 space-y-0.5">
+        {problems.map((problem) => (
+          <li key={problem}>{problem}</li>
+        ))}
+      </ul>
+
+      {editing ? (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          spellCheck={false}
+          rows={10}
+          className="w-full rounded-xl bg-black/60 ring-1 ring-neutral-700 p-3 font-mono text-xs text-neutral-200"
+        />
+      ) : (
+        <pre className="text-xs text-neutral-400 whitespace-pre-wrap break-all max-h-40 overflow-auto">{text}</pre>
+      )}
+
+      <div className="flex gap-2">
+        {editing ? (
+          <button
+            onClick={save}
+            disabled={busy}
+            className="flex-1 rounded-xl bg-[var(--color-accent)] text-black py-2 text-sm font-semibold disabled:opacity-40"
+            type="button"
+          >
+            Save fix
+          </button>
+        ) : (
+          <button
+            onClick={() => setEditing(true)}
+            className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium"
+            type="button"
+          >
+            Repair
+          </button>
+        )}
+        <button
+          onClick={discard}
+          disabled={busy}
+          className="flex-1 rounded-xl bg-neutral-800 text-rose-300 py-2 text-sm font-medium disabled:opacity-40"
+          type="button"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function SyncPage() {
+  const router = useRouter();
+  const { getDiagnostics, retryNow, clearSyncErrors, repairQuarantined, discardQuarantined } = useSyncData();
+  const status = useSyncStatus();
+
+  const [diagnostics, setDiagnostics] = useState<SyncDiagnostics | null>(null);
+  const [retrying, setRetrying] = useState(false);
+
+  /* ---------- LOAD (again whenever the sync status moves) ---------- */
+  useEffect(() => {
+    let cancelled = false;
+
+    getDiagnostics()
+      .then((data) => {
+        if (!cancelled) setDiagnostics(data);
+      })
+      .catch((error) => {
+        console.error('Error loading sync diagnostics:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status, getDiagnostics]);
+
+  /* ---------- ACTIONS ---------- */
+  const retry = async () => {
+    setRetrying(true);
+    try {
+      await retryNow();
+    } catch (error) {
+      console.error('Retry failed:', error);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const clearErrors = async () => {
+    try {
+      await clearSyncErrors();
+    } catch (error) {
+      console.error('Error clearing sync errors:', error);
+    }
+  };
+
+  const repair = async (entry: QuarantineEntry, record: unknown) => {
+    try {
+      return await repairQuarantined(entry.id, record);
+    } catch (error) {
+      console.error('Error repairing record:', error);
+      return ["Couldn't save the record, try again"];
+    }
+  };
+
+  const discard = async (entry: QuarantineEntry) => {
+    try {
+      await discardQuarantined(entry.id);
+    } catch (error) {
+      console.error('Error discarding record:', error);
+    }
+  };
+
+  /* ---------- UI ---------- */
+  if (!diagnostics) {
+    return <LoadingScreen message="Checking sync status..." />;
+  }
+
+  const tables = Object.keys(TABLE_LABELS) as TableName[];
+  const totalPending = tables.reduce((sum, table) => sum + status.pending[table], 0);
+
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Sync</h1>
+      </div>
+
+      {/* STATUS */}
+      <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-base font-medium">
+              {!status.online
+                ? "Offline"
+                : status.syncing
+                  ? "Syncing…"
+                  : totalPending === 0
+                    ? "Everything is synced"
+                    : `${totalPending} change${totalPending === 1 ? "" : "s"} waiting`}
+            </p>
+            <p className="text-sm text-neutral-400">
+              {status.online ? "Connected" : "Changes are kept on this device until you reconnect"}
+            </p>
+          </div>
+
+          <span
+            className={[
+              "h-3 w-3 rounded-full",
+              !status.online ? "bg-neutral-500" : totalPending === 0 ? "bg-emerald-500" : "bg-amber-500",
+            ].join(" ")}
+          />
+        </div>
+
+        {status.lastError && (
+          <p className="text-sm text-rose-300">
+            Last error: {status.lastError.message}
+          </p>
+        )}
+
+        <button
+          onClick={retry}
+          disabled={!status.online || retrying || status.syncing}
+          className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold active:scale-[0.98] transition disabled:opacity-40"
+          type="button"
+        >
+          {retrying ? "Retrying…" : "Retry now"}
+        </button>
+      </section>
+
+      {/* PER TABLE */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">Data</h2>
+
+        {tables.map((table) => {
+          const unsynced = diagnostics.unsynced[table];
+          const times = diagnostics.lastSynced[table];
+
+          return (
+            <div key={table} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="font-medium">{TABLE_LABELS[table]}</p>
+                <p className={unsynced.length === 0 ? "text-sm text-emerald-400" : "text-sm text-amber-400"}>
+                  {unsynced.length === 0 ? "Synced" : `${unsynced.length} unsynced`}
+                </p>
+              </div>
+
+              <div className="text-xs text-neutral-400 space-y-0.5">
+                <p>Last upload: {formatTime(times.pushedAt)}</p>
+                <p>Last download: {formatTime(times.pulledAt)}</p>
+              </div>
+
+              {unsynced.length > 0 && (
+                <ul className="divide-y divide-neutral-800 text-sm">
+                  {unsynced.map((item) => (
+                    <li key={item.entry.recordId} className="flex items-center justify-between gap-3 py-2">
+                      <span className="min-w-0 truncate">{describeRecord(item)}</span>
+                      <span className="shrink-0 text-xs text-neutral-400">
+                        {OP_LABELS[item.entry.op]} • {formatTime(item.entry.queuedAt)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </section>
+
+      {/* QUARANTINE */}
+      {diagnostics.quarantined.length > 0 && (
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">Needs attention</h2>
+            <p className="text-xs text-neutral-500">
+              These records were damaged, so they&apos;re kept aside instead of being shown or synced.
+            </p>
+          </div>
+
+          {diagnostics.quarantined.map((entry) => (
+            <QuarantineItem key={entry.id} entry={entry} onRepair={repair} onDiscard={discard} />
+          ))}
+        </section>
+      )}
+
+      {/* ERRORS */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">Errors</h2>
+          {diagnostics.errors.length > 0 && (
+            <button onClick={clearErrors} className="text-xs text-neutral-400 underline" type="button">
+              Clear
+            </button>
+          )}
+        </div>
+
+        {diagnostics.errors.length === 0 ? (
+          <p className="text-sm text-neutral-500">No sync errors recorded.</p>
+        ) : (
+          diagnostics.errors.map((error, i) => (
+            <div key={`${error.at}-${i}`} className="rounded-2xl bg-rose-950/40 ring-1 ring-rose-500/30 p-4 space-y-2">
+              <div className="flex items-center justify-between text-xs text-neutral-400">
+                <span>
+                  {error.direction}
+                  {error.table ? ` • ${TABLE_LABELS[error.table]}` : ""}
+                </span>
+                <span>{formatTime(error.at)}</span>
+              </div>
+              <p className="text-sm text-rose-200">{error.message}</p>
+              <pre className="text-xs text-neutral-400 whitespace-pre-wrap break-all">{error.raw}</pre>
+            </div>
+          ))
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,432 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import type { TableName } from "@/lib/sync-manager";
+import { useClasses } from "@/hooks/useLiveData";
+import { useModal } from "@/contexts/ModalContext";
+import { loadAwardsMeta, saveAwardsMeta, restoreAwardsMeta, type BackupRecord } from "@/lib/backup";
+import {
+  newTransferContents,
+  writeBundle,
+  readBundle,
+  deviceFingerprint,
+  toFrames,
+  parseFrame,
+  joinFrames,
+  TransferError,
+  type TransferContents,
+  type TransferReport,
+} from "@/lib/transfer";
+import { formatChangeTime } from "@/lib/history";
+import QrFrames from "@/components/QrFrames";
+import QrScanner from "@/components/QrScanner";
+
+const TABLE_LABELS: Record<TableName, string> = {
+  classes: "Classes",
+  students: "Students",
+  sessions: "Registers",
+  points: "Points",
+  awards: "Awards",
+};
+
+// Conflicts listed; the counts above cover the rest
+const CONFLICT_LIMIT = 50;
+
+function downloadFile(name: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function countRecords(records: Record<TableName, BackupRecord[]>) {
+  return Object.values(records).reduce((sum, rows) => sum + rows.filter((row) => !row.deleted).length, 0);
+}
+
+function describeRecord(record: BackupRecord) {
+  if (typeof record.name === "string") return record.name;
+  if (typeof record.reason === "string") return `${record.reason} (${record.points ?? 0} pts)`;
+  if (typeof record.startedAtISO === "string") return `Register • ${formatChangeTime(record.startedAtISO)}`;
+  if (typeof record.awardId === "string") return record.awardId;
+  return record.id;
+}
+
+/* ---------- REPORT ---------- */
+function TransferSummary({ report }: { report: TransferReport }) {
+  const tables = Object.keys(TABLE_LABELS) as TableName[];
+
+  return (
+    <>
+      <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 divide-y divide-neutral-800 text-sm">
+        {tables.map((table) => {
+          const summary = report.summary[table];
+          return (
+            <div key={table} className="flex justify-between gap-3 px-4 py-3">
+              <span className="text-neutral-400">{TABLE_LABELS[table]}</span>
+              <span className="text-right text-neutral-200">
+                +{summary.added} • ~{summary.updated}
+                {summary.kept > 0 && <span className="text-neutral-400"> • {summary.kept} kept</span>}
+                {summary.invalid > 0 && <span className="text-amber-300"> • {summary.invalid} damaged</span>}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {report.conflicts.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-neutral-500">
+            Changed on both phones since they last swapped data. The copy saved last is kept; where
+            theirs won, yours can be brought back from the record&apos;s history.
+          </p>
+          <ul className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 divide-y divide-neutral-800 text-sm">
+            {report.conflicts.slice(0, CONFLICT_LIMIT).map((conflict) => (
+              <li key={`${conflict.table}:${conflict.id}`} className="px-4 py-3 space-y-1">
+                <div className="flex justify-between gap-3">
+                  <span className="min-w-0 truncate">{describeRecord(conflict.record)}</span>
+                  <span className="shrink-0 text-xs text-amber-300">
+                    {conflict.kept === "received" ? "Theirs kept" : "Yours kept"} • {TABLE_LABELS[conflict.table]}
+                  </span>
+                </div>
+                <p className="text-xs text-neutral-500">
+                  {conflict.changes.map((change) => change.field).join(", ")}
+                </p>
+              </li>
+            ))}
+            {report.conflicts.length > CONFLICT_LIMIT && (
+              <li className="px-4 py-3 text-xs text-neutral-500">
+                and {report.conflicts.length - CONFLICT_LIMIT} more
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {report.markConflicts.length > 0 && (
+        <p className="text-sm text-amber-300">
+          {report.markConflicts.length} register mark{report.markConflicts.length === 1 ? "" : "s"} disagree
+          between the phones. The latest was kept; open the register to confirm or flip {report.markConflicts.length === 1 ? "it" : "them"}.
+        </p>
+      )}
+    </>
+  );
+}
+
+export default function TransferPage() {
+  const router = useRouter();
+  const { exportTransfer, previewTransfer, importTransfer } = useSyncData();
+  const classes = useClasses();
+  const { showModal } = useModal();
+
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+
+  useEffect(() => {
+    deviceFingerprint()
+      .then(setFingerprint)
+      .catch((err) => console.error('Error loading transfer key:', err));
+  }, []);
+
+  /* ---------- SEND ---------- */
+  const [classId, setClassId] = useState("");
+  const [outgoing, setOutgoing] = useState<{ text: string; frames: string[]; count: number } | null>(null);
+  const [showCodes, setShowCodes] = useState(false);
+  const [preparing, setPreparing] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const prepare = async () => {
+    setPreparing(true);
+    setSendError(null);
+    setShowCodes(false);
+    try {
+      const danceClass = classes?.find((c) => c.id === classId);
+      const records = await exportTransfer(danceClass?.id);
+      const contents = newTransferContents(
+        records,
+        danceClass ? { classId: danceClass.id, className: danceClass.name } : null,
+        danceClass ? null : loadAwardsMeta()
+      );
+      const text = await writeBundle(contents);
+      setOutgoing({ text, frames: toFrames(text), count: countRecords(records) });
+    } catch (error) {
+      console.error('Error preparing transfer:', error);
+      setSendError("Couldn't prepare the transfer, try again");
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const chooseScope = (next: string) => {
+    setClassId(next);
+    setOutgoing(null);
+    setShowCodes(false);
+  };
+
+  /* ---------- RECEIVE ---------- */
+  const [scanning, setScanning] = useState(false);
+  const [progress, setProgress] = useState<{ seen: number; total: number } | null>(null);
+  const [incoming, setIncoming] = useState<{
+    contents: TransferContents;
+    fingerprint: string;
+    report: TransferReport;
+  } | null>(null);
+  const [imported, setImported] = useState<TransferReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [receiveError, setReceiveError] = useState<string | null>(null);
+
+  // Frames of the bundle being scanned; they arrive in any order and repeat
+  const collected = useRef<{ bundleId: string; total: number; chunks: Map<number, string> } | null>(null);
+
+  const openBundle = useCallback(async (text: string) => {
+    setBusy(true);
+    setReceiveError(null);
+    setImported(null);
+    try {
+      const { contents, fingerprint } = await readBundle(text);
+      setIncoming({ contents, fingerprint, report: await previewTransfer(contents.records) });
+    } catch (error) {
+      console.error('Error reading transfer:', error);
+      setReceiveError(error instanceof TransferError ? error.message : "Couldn't read that transfer");
+    } finally {
+      setBusy(false);
+    }
+  }, [previewTransfer]);
+
+  const onScan = useCallback((text: string) => {
+    const frame = parseFrame(text);
+    if (!frame) return;
+
+    if (collected.current?.bundleId !== frame.bundleId) {
+      collected.current = { bundleId: frame.bundleId, total: frame.total, chunks: new Map() };
+    }
+    const { chunks, total } = collected.current;
+    if (chunks.has(frame.index)) return;
+    chunks.set(frame.index, frame.chunk);
+    setProgress({ seen: chunks.size, total });
+
+    const joined = joinFrames(chunks, total);
+    if (joined !== null) {
+      collected.current = null;
+      setScanning(false);
+      setProgress(null);
+      openBundle(joined);
+    }
+  }, [openBundle]);
+
+  const startScanning = () => {
+    collected.current = null;
+    setProgress(null);
+    setIncoming(null);
+    setImported(null);
+    setReceiveError(null);
+    setScanning(true);
+  };
+
+  const chooseFile = async (file: File | undefined) => {
+    setIncoming(null);
+    setImported(null);
+    setReceiveError(null);
+    if (!file) return;
+
+    try {
+      await openBundle(await file.text());
+    } catch {
+      setReceiveError("Couldn't read that file");
+    }
+  };
+
+  const receive = () => {
+    if (!incoming) return;
+    const { contents } = incoming;
+
+    showModal(
+      "confirm",
+      "Import Transfer",
+      `Merge ${contents.scope ? contents.scope.className : "everything"} from ${contents.sender.name ?? "the other phone"} into this phone? Whichever copy was saved last is kept.`,
+      async () => {
+        setBusy(true);
+        setReceiveError(null);
+        try {
+          const report = await importTransfer(contents.records);
+          if (!contents.scope) saveAwardsMeta(restoreAwardsMeta(loadAwardsMeta(), contents.awardsMeta, "merge"));
+          setImported(report);
+          setIncoming(null);
+        } catch (error) {
+          console.error('Error importing transfer:', error);
+          setReceiveError(error instanceof Error ? error.message : "Couldn't import the transfer");
+        } finally {
+          setBusy(false);
+        }
+      }
+    );
+  };
+
+  /* ---------- UI ---------- */
+  const selectedClass = classes?.find((c) => c.id === classId);
+
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Transfer</h1>
+      </div>
+
+      <p className="text-sm text-neutral-400">
+        Move the studio&apos;s data, or one class, straight to another phone: a new one, or a
+        substitute&apos;s. No account or internet needed. Each transfer is signed by the phone that made it.
+      </p>
+
+      {fingerprint && (
+        <p className="text-xs text-neutral-500">
+          This phone&apos;s code: <span className="font-mono text-neutral-300">{fingerprint}</span>
+        </p>
+      )}
+
+      {/* SEND */}
+      <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-3">
+        <h2 className="text-base font-medium">Send</h2>
+
+        <select
+          value={classId}
+          onChange={(e) => chooseScope(e.target.value)}
+          className="w-full rounded-xl bg-black/60 ring-1 ring-neutral-700 px-3 py-2 text-sm"
+        >
+          <option value="">Everything</option>
+          {classes?.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+
+        {sendError && <p className="text-sm text-rose-300">{sendError}</p>}
+
+        {!outgoing ? (
+          <button
+            onClick={prepare}
+            disabled={preparing}
+            className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold active:scale-[0.98] transition disabled:opacity-40"
+            type="button"
+          >
+            {preparing ? "Preparing…" : "Prepare transfer"}
+          </button>
+        ) : (
+          <>
+            <p className="text-xs text-neutral-500">
+              {outgoing.count} record{outgoing.count === 1 ? "" : "s"}
+              {selectedClass ? ` from ${selectedClass.name}` : ""}, as {outgoing.frames.length} QR code{outgoing.frames.length === 1 ? "" : "s"}.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowCodes((s) => !s)}
+                className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium"
+                type="button"
+              >
+                {showCodes ? "Hide QR codes" : "Show QR codes"}
+              </button>
+              <button
+                onClick={() => downloadFile(`bollywood-beatz-transfer-${new Date().toISOString().slice(0, 10)}.json`, outgoing.text)}
+                className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium"
+                type="button"
+              >
+                Save as file
+              </button>
+            </div>
+            {showCodes && (
+              <>
+                <QrFrames frames={outgoing.frames} />
+                <p className="text-xs text-neutral-500">
+                  Keep this screen up while the other phone scans. The codes loop, so missed ones come round again.
+                </p>
+              </>
+            )}
+          </>
+        )}
+      </section>
+
+      {/* RECEIVE */}
+      <section className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-5 space-y-3">
+        <h2 className="text-base font-medium">Receive</h2>
+
+        {scanning ? (
+          <>
+            <QrScanner onScan={onScan} />
+            <p className="text-xs text-neutral-500">
+              {progress ? `Got ${progress.seen} of ${progress.total} codes…` : "Point the camera at the other phone's codes."}
+            </p>
+            <button
+              onClick={() => setScanning(false)}
+              className="w-full rounded-xl bg-neutral-800 py-2 text-sm font-medium"
+              type="button"
+            >
+              Stop scanning
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={startScanning}
+              disabled={busy}
+              className="w-full rounded-xl bg-neutral-800 py-3 text-sm font-medium disabled:opacity-40"
+              type="button"
+            >
+              Scan QR codes
+            </button>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => chooseFile(e.target.files?.[0])}
+              className="w-full text-sm text-neutral-300"
+            />
+          </>
+        )}
+
+        {busy && <p className="text-sm text-neutral-400">Reading…</p>}
+        {receiveError && <p className="text-sm text-rose-300">{receiveError}</p>}
+      </section>
+
+      {/* PREVIEW */}
+      {incoming && (
+        <section className="space-y-3">
+          <div>
+            <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">Preview</h2>
+            <p className="text-xs text-neutral-500">
+              {incoming.contents.scope ? incoming.contents.scope.className : "Everything"} from{" "}
+              {incoming.contents.sender.name ?? "another phone"}, {formatChangeTime(incoming.contents.createdAt)}.
+              Nothing has been changed yet.
+            </p>
+            <p className="text-xs text-neutral-500">
+              Sent by the phone with code <span className="font-mono text-neutral-300">{incoming.fingerprint}</span>;
+              check it matches what that phone shows.
+            </p>
+          </div>
+
+          <TransferSummary report={incoming.report} />
+
+          <button
+            onClick={receive}
+            disabled={busy}
+            className="w-full rounded-xl bg-[var(--color-accent)] text-black py-3 font-semibold active:scale-[0.98] transition disabled:opacity-40"
+            type="button"
+          >
+            Import
+          </button>
+        </section>
+      )}
+
+      {/* RESULT */}
+      {imported && (
+        <section className="space-y-3">
+          <p className="text-sm text-emerald-300">
+            Imported. Anything new will sync like any other edit once this phone syncs.
+          </p>
+          <TransferSummary report={imported} />
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSyncData } from "@/lib/sync-manager";
+import type { TableName, TrashItem } from "@/lib/sync-manager";
+import { useClasses, useStudents, useSessions, usePoints, useAwards } from "@/hooks/useLiveData";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useModal } from "@/contexts/ModalContext";
+import { permissionForChange } from "@/lib/permissions";
+import { getAwardDefinition } from "@/lib/awards/awards.definitions";
+import { teacherLabel, formatChangeTime } from "@/lib/history";
+
+// Loading Screen Component
+function LoadingScreen({ message = "Loading..." }: { message?: string }) {
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center justify-center">
+      <div className="text-center space-y-6">
+        {/* Animated icon */}
+        <div className="relative">
+          <div className="w-16 h-16 mx-auto bg-gradient-to-br from-orange-500 to-pink-500 rounded-xl flex items-center justify-center shadow-xl overflow-hidden">
+            <img
+              src="/icon-512.png"
+              alt="Bollywood Beatz Logo"
+              className="w-full h-full object-contain animate-bounce"
+            />
+          </div>
+        </div>
+
+        {/* Loading text */}
+        <div className="space-y-2">
+          <h2 className="text-xl font-semibold text-neutral-200">Bollywood Beatz</h2>
+          <p className="text-neutral-400 animate-pulse">{message}</p>
+        </div>
+
+        {/* Loading dots */}
+        <div className="flex space-x-2 justify-center">
+          <div className="w-2 h-2 bg-orange-500 rounded-full animate-bounce"></div>
+          <div className="w-2 h-2 bg-pink-500 rounded-full animate-bounce delay-100"></div>
+          <div className="w-2 h-2 bg-purple-500 rounded-full animate-bounce delay-200"></div>
+        </div>
+      </div>
+    </main>
+  );
+}
+
+const TABLE_LABELS: Record<TableName, string> = {
+  classes: "Classes",
+  students: "Students",
+  sessions: "Registers",
+  points: "Points",
+  awards: "Awards",
+};
+
+export default function TrashPage() {
+  const router = useRouter();
+  const { getTrash, restoreFromTrash, purgeFromTrash } = useSyncData();
+  const { can } = usePermissions();
+  const { showModal } = useModal();
+
+  // Live tables, so the list reloads when anything is deleted or restored elsewhere
+  const classes = useClasses();
+  const students = useStudents();
+  const sessions = useSessions();
+  const points = usePoints();
+  const awards = useAwards();
+
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /* ---------- LOAD ---------- */
+  useEffect(() => {
+    let cancelled = false;
+
+    getTrash()
+      .then((trash) => {
+        if (!cancelled) setItems(trash);
+      })
+      .catch((err) => {
+        console.error('Error loading trash:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getTrash, classes, students, sessions, points, awards]);
+
+  /* ---------- NAMES ---------- */
+  // Deleted classes and students are only in the Trash, so look there too
+  const nameOf = (table: TableName, id: string) => {
+    const live = table === "classes" ? classes?.find((c) => c.id === id) : students?.find((s) => s.id === id);
+    if (live) return live.name;
+    const trashed = items?.find((item) => item.table === table && item.record.id === id);
+    return typeof trashed?.record.name === "string" ? trashed.record.name : "Unknown";
+  };
+
+  const describe = ({ table, record }: TrashItem) => {
+    switch (table) {
+      case "classes":
+      case "students":
+        return String(record.name);
+      case "sessions":
+        return `${nameOf("classes", String(record.classId))} • ${new Date(String(record.startedAtISO)).toLocaleDateString("en-GB")}`;
+      case "points":
+        return `${nameOf("students", String(record.studentId))} • ${record.reason} (${record.points} pts)`;
+      case "awards":
+        return `${nameOf("students", String(record.studentId))} • ${getAwardDefinition(String(record.awardId))?.name ?? record.awardId}`;
+    }
+  };
+
+  /* ---------- ACTIONS ---------- */
+  const run = async (item: TrashItem, action: typeof restoreFromTrash) => {
+    setBusy(item.record.id);
+    setError(null);
+    try {
+      await action(item.table, [item.record.id]);
+    } catch (err) {
+      console.error('Error updating trash:', err);
+      setError(err instanceof Error ? err.message : "Couldn't change that record, try again");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const purge = (item: TrashItem) => {
+    const extra = item.points.length > 0
+      ? ` The ${item.points.length} point${item.points.length === 1 ? "" : "s"} deleted with it go too.`
+      : "";
+    showModal(
+      "confirm",
+      "Delete Forever",
+      `Delete "${describe(item)}" for good, on every device?${extra} This cannot be undone.`,
+      () => run(item, purgeFromTrash)
+    );
+  };
+
+  /* ---------- UI ---------- */
+  if (!items) {
+    return <LoadingScreen message="Loading trash..." />;
+  }
+
+  const tables = (Object.keys(TABLE_LABELS) as TableName[])
+    .filter((table) => items.some((item) => item.table === table));
+
+  return (
+    <main id="main-content" className="min-h-screen bg-black text-white p-4 pb-28 space-y-6">
+      {/* HEADER */}
+      <div className="flex items-center gap-3">
+        <button onClick={() => router.back()} className="text-neutral-300 text-xl" type="button">
+          ←
+        </button>
+        <h1 className="text-3xl font-semibold font-title text-[var(--color-accent)]">Trash</h1>
+      </div>
+
+      <p className="text-sm text-neutral-400">
+        Deleted classes, registers, points and awards, and archived students. Anything here can be
+        put back until it&apos;s deleted for good.
+      </p>
+
+      {error && <p className="text-sm text-rose-300">{error}</p>}
+
+      {items.length === 0 && (
+        <p className="text-sm text-neutral-500">The trash is empty.</p>
+      )}
+
+      {/* PER TABLE */}
+      {tables.map((table) => {
+        const allowed = can(permissionForChange(table, "delete"));
+
+        return (
+          <section key={table} className="space-y-3">
+            <h2 className="text-sm font-medium text-neutral-400 uppercase tracking-wide">{TABLE_LABELS[table]}</h2>
+
+            {items.filter((item) => item.table === table).map((item) => (
+              <div key={item.record.id} className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 space-y-3">
+                <div>
+                  <p className="font-medium">{describe(item)}</p>
+                  <p className="text-xs text-neutral-400">
+                    {item.record.deleted ? "Deleted" : "Archived"} by {teacherLabel(item.removedBy)}
+                    {item.removedAt ? ` • ${formatChangeTime(item.removedAt)}` : ""}
+                  </p>
+                  {item.points.length > 0 && (
+                    <p className="text-xs text-neutral-500">
+                      With {item.points.length} point{item.points.length === 1 ? "" : "s"} given in this register
+                    </p>
+                  )}
+                </div>
+
+                {allowed && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => run(item, restoreFromTrash)}
+                      disabled={busy !== null}
+                      className="flex-1 rounded-xl bg-neutral-800 py-2 text-sm font-medium disabled:opacity-40"
+                      type="button"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => purge(item)}
+                      disabled={busy !== null}
+                      className="flex-1 rounded-xl bg-neutral-800 text-rose-300 py-2 text-sm font-medium disabled:opacity-40"
+                      type="button"
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+        );
+      })}
+    </main>
+  );
+}
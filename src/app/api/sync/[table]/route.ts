@@ -0,0 +1,125 @@
+// Self-hosted sync endpoint: the HttpBackend protocol over a local SQLite file
+// Point devices at it with NEXT_PUBLIC_SYNC_URL=/api/sync (see SYNC_SETUP_README.md)
+// Every request needs a sync token, and only reaches the token's own studio
+
+import { NextResponse, type NextRequest } from "next/server";
+import { getSqliteSyncStore, isSyncTable, MAX_PAGE_SIZE } from "@/lib/sqlite-sync";
+import { decodePullCursor, encodePullCursor, type RemoteRecord } from "@/lib/remote-backend";
+import { authenticateSync, SyncAuthError, type SyncCaller } from "@/lib/sync-auth";
+import { can, permissionForChange, PermissionError } from "@/lib/permissions";
+
+// better-sqlite3 is a native module, and every response depends on the database
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ table: string }> };
+
+function error(status: number, message: string) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+// The studio and role the request's token belongs to, or the response turning it away
+function authenticate(request: NextRequest): SyncCaller | NextResponse {
+  try {
+    return authenticateSync(request.headers.get("authorization"));
+  } catch (err) {
+    if (err instanceof SyncAuthError) return error(err.status, err.message);
+    console.error("Error checking sync token:", err);
+    return error(500, "Failed to check the sync token");
+  }
+}
+
+function isRecord(value: unknown): value is RemoteRecord {
+  return !!value && typeof value === "object" && typeof (value as RemoteRecord).id === "string";
+}
+
+function isTimestamp(value: string) {
+  return !Number.isNaN(new Date(value).getTime());
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const caller = authenticate(request);
+  if (caller instanceof NextResponse) return caller;
+
+  const { table } = await params;
+  if (!isSyncTable(table)) return error(404, `Unknown table "${table}"`);
+
+  const search = request.nextUrl.searchParams;
+  const since = search.get("since") ?? undefined;
+  if (since && !isTimestamp(since)) return error(400, "since must be an ISO timestamp");
+
+  const afterParam = search.get("after");
+  const after = afterParam ? decodePullCursor(afterParam) : undefined;
+  if (after === null) return error(400, "after must be a cursor from an earlier page");
+
+  // Any studioId asked for is ignored: a token only ever reads its own studio
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(search.get("limit")) || MAX_PAGE_SIZE));
+
+  try {
+    const { rows, next } = getSqliteSyncStore().pull(table, since, after, limit, caller.studioId);
+    return NextResponse.json({ rows, next: next && encodePullCursor(next) });
+  } catch (err) {
+    console.error(`Error reading ${table}:`, err);
+    return error(500, `Failed to read ${table}`);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const caller = authenticate(request);
+  if (caller instanceof NextResponse) return caller;
+
+  const { table } = await params;
+  if (!isSyncTable(table)) return error(404, `Unknown table "${table}"`);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return error(400, "Body must be JSON");
+  }
+
+  const rows = (body as { rows?: unknown })?.rows;
+  if (!Array.isArray(rows) || !rows.every(isRecord)) {
+    return error(400, "Expected { rows: [...] } with an id on every row");
+  }
+
+  try {
+    getSqliteSyncStore().push(table, rows, caller);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    // Nothing from a refused push is saved
+    if (err instanceof PermissionError || err instanceof SyncAuthError) return error(403, err.message);
+    console.error(`Error writing ${table}:`, err);
+    return error(500, `Failed to write ${table}`);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const caller = authenticate(request);
+  if (caller instanceof NextResponse) return caller;
+
+  const { table } = await params;
+  if (!isSyncTable(table)) return error(404, `Unknown table "${table}"`);
+
+  // Purging needs the same role as deleting; as on Supabase, where the policy just
+  // matches no rows, other roles purge nothing rather than fail every sync
+  if (!can(caller.role, permissionForChange(table, "delete"), true)) return new NextResponse(null, { status: 204 });
+
+  const deletedBefore = request.nextUrl.searchParams.get("deletedBefore");
+  if (!deletedBefore || !isTimestamp(deletedBefore)) {
+    return error(400, "deletedBefore must be an ISO timestamp");
+  }
+
+  const purgedBefore = request.nextUrl.searchParams.get("purgedBefore") || undefined;
+  if (purgedBefore && !isTimestamp(purgedBefore)) {
+    return error(400, "purgedBefore must be an ISO timestamp");
+  }
+
+  try {
+    getSqliteSyncStore().purgeTombstones(table, deletedBefore, caller.studioId, purgedBefore);
+    return new NextResponse(null, { status: 204 });
+  } catch (err) {
+    console.error(`Error purging ${table}:`, err);
+    return error(500, `Failed to purge ${table}`);
+  }
+}
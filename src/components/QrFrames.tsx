@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import QRCode from "qrcode";
+
+interface Props {
+  frames: string[];
+  // How long each code stays up; long enough for a phone camera to focus
+  frameMs?: number;
+}
+
+/**
+ * A transfer bundle as QR codes, one frame after another on a loop, so a
+ * receiving phone can pick up whatever frames it missed on the next pass.
+ */
+export default function QrFrames({ frames, frameMs = 350 }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [index, setIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    if (paused || frames.length < 2) return;
+    const timer = setInterval(() => setIndex((i) => (i + 1) % frames.length), frameMs);
+    return () => clearInterval(timer);
+  }, [frames, frameMs, paused]);
+
+  const current = index % frames.length;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    QRCode.toCanvas(canvasRef.current, frames[current], { errorCorrectionLevel: "L", margin: 2, width: 320 })
+      .catch((err: unknown) => console.error('Error drawing QR code:', err));
+  }, [frames, current]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center rounded-2xl bg-white p-3">
+        <canvas ref={canvasRef} className="max-w-full h-auto" />
+      </div>
+      <div className="flex items-center justify-between gap-3 text-xs text-neutral-400">
+        <span>Code {current + 1} of {frames.length}</span>
+        {frames.length > 1 && (
+          <button
+            onClick={() => setPaused((p) => !p)}
+            className="rounded-lg bg-neutral-800 px-3 py-1 text-neutral-200"
+            type="button"
+          >
+            {paused ? "Play" : "Pause"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
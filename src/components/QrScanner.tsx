@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+
+interface Props {
+  // Called with the text of every QR code read, repeats included
+  onScan: (text: string) => void;
+}
+
+/**
+ * The back camera, reading QR codes from every video frame until the
+ * component unmounts. Pass a stable `onScan`, or the camera restarts.
+ */
+export default function QrScanner({ onScan }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    const read = () => {
+      const video = videoRef.current;
+      if (stopped || !video || !context) return;
+      if (video.readyState >= video.HAVE_ENOUGH_DATA && video.videoWidth > 0) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+        if (code?.data) onScan(code.data);
+      }
+      frame = requestAnimationFrame(read);
+    };
+
+    const unavailable = "Couldn't open the camera. Allow camera access, or send the bundle as a file instead.";
+    if (!navigator.mediaDevices) {
+      // Only offered over HTTPS
+      queueMicrotask(() => setError(unavailable));
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then(async (media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+        frame = requestAnimationFrame(read);
+      })
+      .catch((err) => {
+        console.error('Error opening camera:', err);
+        if (!stopped) setError(unavailable);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [onScan]);
+
+  if (error) return <p className="text-sm text-rose-300">{error}</p>;
+
+  return (
+    <video
+      ref={videoRef}
+      muted
+      playsInline
+      className="w-full rounded-2xl bg-neutral-900 ring-1 ring-neutral-800"
+    />
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSyncData, type TableName } from "@/lib/sync-manager";
+import type { AuditEntry } from "@/lib/local-store";
+import { useModal } from "@/contexts/ModalContext";
+import { teacherLabel, formatChangeTime } from "@/lib/history";
+
+interface Props {
+  table: TableName;
+  recordId: string;
+  // The record's current updatedAt, so the list reloads when it changes
+  version?: string;
+  canRevert: boolean;
+  // Page-specific wording, e.g. "marks.<studentId>" as the student's name
+  describeField?: (field: string) => string;
+  describeValue?: (field: string, value: unknown) => string | undefined;
+}
+
+// Tombstone timestamps only repeat what "deleted" already says
+const HIDDEN_FIELDS = new Set(["deletedAt"]);
+
+const OP_LABEL: Record<AuditEntry["op"], string> = {
+  create: "Created",
+  update: "Changed",
+  delete: "Deleted",
+};
+
+function defaultValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" || typeof value === "number") return String(value);
+  return JSON.stringify(value);
+}
+
+function entryTitle(entry: AuditEntry): string {
+  if (entry.source === "revert") return "Restored an earlier version";
+  if (entry.source === "backup") return "Restored from a backup";
+  if (entry.source === "snapshot") return "Rolled back to a snapshot";
+  if (entry.source === "transfer") return "Received from another device";
+  if (entry.source === "conflict") return "Settled a sync conflict";
+  if (entry.source === "repair") return "Fixed by the data check";
+  return OP_LABEL[entry.op];
+}
+
+function entryAuthor(entry: AuditEntry): string {
+  if (entry.source === "remote") return "Synced from another device";
+  return teacherLabel(entry.teacher);
+}
+
+/**
+ * Every recorded version of one record, newest first, with what changed
+ * each time. Any older version can be restored; the restore is saved as a
+ * new change, so it shows up here too.
+ */
+export default function RecordHistory({
+  table,
+  recordId,
+  version,
+  canRevert,
+  describeField = (field) => field,
+  describeValue,
+}: Props) {
+  const { getRecordHistory, revertRecord } = useSyncData();
+  const { showModal } = useModal();
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getRecordHistory(table, recordId)
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch((err) => {
+        console.error('Error loading history:', err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [table, recordId, version, getRecordHistory]);
+
+  const formatValue = (field: string, value: unknown) =>
+    describeValue?.(field, value) ?? defaultValue(value);
+
+  const restore = (entry: AuditEntry) => {
+    showModal(
+      "confirm",
+      "Restore Version",
+      `Put this back the way it was on ${formatChangeTime(entry.at)}? The current version stays in the history.`,
+      () => {
+        setError(null);
+        revertRecord(entry.id).catch((err) => {
+          console.error('Error restoring version:', err);
+          setError(err instanceof Error ? err.message : "Couldn't restore that version");
+        });
+      }
+    );
+  };
+
+  return (
+    <details className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 p-4 text-sm">
+      <summary className="cursor-pointer font-semibold text-neutral-200">
+        History{entries ? ` (${entries.length})` : ""}
+      </summary>
+
+      {error && <p className="mt-3 text-xs text-rose-300">{error}</p>}
+
+      {entries && entries.length === 0 && (
+        <p className="mt-3 text-xs text-neutral-400">
+          No changes recorded on this device yet.
+        </p>
+      )}
+
+      <ul className="mt-3 space-y-3">
+        {(entries ?? []).map((entry, index) => {
+          const changes = entry.changes.filter((change) => !HIDDEN_FIELDS.has(change.field));
+          return (
+            <li key={entry.id} className="rounded-xl bg-black/40 px-3 py-3 space-y-2">
+              <div className="flex justify-between gap-3">
+                <span className="font-medium">{entryTitle(entry)}</span>
+                <span className="shrink-0 text-xs text-neutral-400">{formatChangeTime(entry.at)}</span>
+              </div>
+              <p className="text-xs text-neutral-500">{entryAuthor(entry)}</p>
+
+              {entry.op !== "create" && changes.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                  {changes.map((change) => (
+                    <li key={change.field} className="flex flex-wrap gap-x-2">
+                      <span className="text-neutral-400">{describeField(change.field)}:</span>
+                      <span className="text-rose-300 line-through">{formatValue(change.field, change.before)}</span>
+                      <span className="text-emerald-300">{formatValue(change.field, change.after)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {/* The newest entry is the current version */}
+              {canRevert && index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => restore(entry)}
+                  className="rounded-lg bg-white/10 px-3 py-1 text-xs text-neutral-200 hover:bg-white/20 transition"
+                >
+                  Restore this version
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import type { TableName } from "@/lib/sync-manager";
+import type { BackupRecord, RestorePlan } from "@/lib/backup";
+import { formatChangeTime } from "@/lib/history";
+
+interface Props {
+  plan: RestorePlan;
+  // Shown when restoring would change nothing
+  emptyMessage: string;
+}
+
+const TABLE_LABELS: Record<TableName, string> = {
+  classes: "Classes",
+  students: "Students",
+  sessions: "Registers",
+  points: "Points",
+  awards: "Awards",
+};
+
+const OP_LABELS = {
+  create: "Add",
+  update: "Change",
+  delete: "Delete",
+} as const;
+
+// Changes listed; the counts above cover the rest
+const PREVIEW_LIMIT = 50;
+
+// Something a teacher will recognise, falling back to the record id
+function describeRecord(record: BackupRecord) {
+  if (typeof record.name === "string") return record.name;
+  if (typeof record.reason === "string") return `${record.reason} (${record.points ?? 0} pts)`;
+  if (typeof record.startedAtISO === "string") return `Register • ${formatChangeTime(record.startedAtISO)}`;
+  if (typeof record.awardId === "string") return record.awardId;
+  return record.id;
+}
+
+/**
+ * What a restore or rollback would do, before it's confirmed: counts per
+ * table, then the first few changes with the fields each one touches.
+ */
+export default function RestorePreview({ plan, emptyMessage }: Props) {
+  const tables = Object.keys(TABLE_LABELS) as TableName[];
+
+  return (
+    <>
+      <div className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 divide-y divide-neutral-800 text-sm">
+        {tables.map((table) => {
+          const summary = plan.summary[table];
+          return (
+            <div key={table} className="flex justify-between gap-3 px-4 py-3">
+              <span className="text-neutral-400">{TABLE_LABELS[table]}</span>
+              <span className="text-right text-neutral-200">
+                +{summary.added} • ~{summary.updated} • −{summary.removed}
+                {summary.invalid > 0 && <span className="text-amber-300"> • {summary.invalid} damaged</span>}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {plan.changes.length === 0 ? (
+        <p className="text-sm text-neutral-500">{emptyMessage}</p>
+      ) : (
+        <ul className="rounded-2xl bg-neutral-900 ring-1 ring-neutral-800 divide-y divide-neutral-800 text-sm">
+          {plan.changes.slice(0, PREVIEW_LIMIT).map((change) => (
+            <li key={`${change.table}:${change.record.id}`} className="px-4 py-3 space-y-1">
+              <div className="flex justify-between gap-3">
+                <span className="min-w-0 truncate">{describeRecord(change.record)}</span>
+                <span className="shrink-0 text-xs text-neutral-400">
+                  {OP_LABELS[change.op]} • {TABLE_LABELS[change.table]}
+                </span>
+              </div>
+              {change.op === "update" && (
+                <p className="text-xs text-neutral-500">
+                  {change.changes.map((field) => field.field).join(", ")}
+                </p>
+              )}
+            </li>
+          ))}
+          {plan.changes.length > PREVIEW_LIMIT && (
+            <li className="px-4 py-3 text-xs text-neutral-500">
+              and {plan.changes.length - PREVIEW_LIMIT} more
+            </li>
+          )}
+        </ul>
+      )}
+    </>
+  );
+}
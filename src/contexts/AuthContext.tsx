@@ -0,0 +1,182 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabase";
+import { syncManager, usesSupabase } from "@/lib/sync-manager";
+import {
+  fetchStudios,
+  createStudio as createStudioRemote,
+  setActiveStudioId,
+  type Studio,
+} from "@/lib/studios";
+
+interface AuthContextValue {
+  // Sign-in only applies when syncing through Supabase
+  available: boolean;
+  // True until the stored session has been checked
+  loading: boolean;
+  user: User | null;
+  studios: Studio[];
+  activeStudioId: string | null;
+  signIn: (email: string, password: string) => Promise<void>;
+  // Resolves to false when the account still has to be confirmed by email
+  signUp: (email: string, password: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
+  selectStudio: (studioId: string | null) => Promise<void>;
+  createStudio: (name: string) => Promise<void>;
+  refreshStudios: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within AuthProvider");
+  }
+  return context;
+}
+
+// Load a studio's local data and remember it for the next launch
+async function switchStudio(studioId: string | null) {
+  setActiveStudioId(studioId);
+  await syncManager.setStudio(studioId);
+}
+
+function AuthProvider({ children }: { children: ReactNode }) {
+  const available = usesSupabase && !!supabase;
+  const [loading, setLoading] = useState(available);
+  const [user, setUser] = useState<User | null>(null);
+  const [studios, setStudios] = useState<Studio[]>([]);
+  const [activeStudioId, setActiveStudio] = useState<string | null>(() => syncManager.getStudioId());
+
+  const selectStudio = useCallback(async (studioId: string | null) => {
+    await switchStudio(studioId);
+    setActiveStudio(studioId);
+  }, []);
+
+  const refreshStudios = useCallback(async () => {
+    if (!supabase) return;
+    const list = await fetchStudios(supabase);
+    setStudios(list);
+
+    // Membership was removed, or this is the first sign-in on this device
+    const current = syncManager.getStudioId();
+    if (!current || !list.some(studio => studio.id === current)) {
+      await selectStudio(list[0]?.id ?? null);
+    }
+  }, [selectStudio]);
+
+  /* ---------- SYNC ---------- */
+  // Listeners and timers stop with the provider, so remounts don't stack them
+  useEffect(() => syncManager.start(), []);
+
+  /* ---------- SESSION ---------- */
+  useEffect(() => {
+    if (!available || !supabase) return;
+
+    const client = supabase;
+    let cancelled = false;
+
+    const apply = (nextUser: User | null, accessToken: string | null) => {
+      if (cancelled) return;
+      setUser(nextUser);
+      syncManager.setAccessToken(accessToken);
+      syncManager.setTeacher(nextUser ? { id: nextUser.id, name: nextUser.email ?? "Teacher" } : null);
+
+      if (!nextUser) {
+        setStudios([]);
+        selectStudio(null).catch(error => {
+          console.error("Error leaving studio:", error);
+        });
+        return;
+      }
+
+      // Offline, the studio picked last time stays loaded
+      refreshStudios().catch(error => {
+        console.warn("Couldn't load studios:", error);
+      });
+    };
+
+    client.auth.getSession()
+      .then(({ data }) => apply(data.session?.user ?? null, data.session?.access_token ?? null))
+      .catch(error => {
+        console.error("Error reading session:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const { data: listener } = client.auth.onAuthStateChange((event, session) => {
+      // Token refreshes only need the new token passed on
+      if (event === "TOKEN_REFRESHED") {
+        syncManager.setAccessToken(session?.access_token ?? null);
+        return;
+      }
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT" || event === "USER_UPDATED") {
+        apply(session?.user ?? null, session?.access_token ?? null);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      listener.subscription.unsubscribe();
+    };
+  }, [available, refreshStudios, selectStudio]);
+
+  // SyncManager enforces the role; it keeps the last one known for offline use
+  useEffect(() => {
+    const studio = studios.find(s => s.id === activeStudioId);
+    if (studio) syncManager.setRole(studio.role);
+  }, [studios, activeStudioId]);
+
+  /* ---------- ACTIONS ---------- */
+  const signIn = async (email: string, password: string) => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signUp = async (email: string, password: string) => {
+    if (!supabase) return false;
+    const { data, error } = await supabase.auth.signUp({ email, password });
+    if (error) throw error;
+    return !!data.session;
+  };
+
+  const signOut = async () => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
+  const createStudio = async (name: string) => {
+    if (!supabase) return;
+    const studioId = await createStudioRemote(supabase, name);
+    setStudios(await fetchStudios(supabase));
+    await selectStudio(studioId);
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{
+        available,
+        loading,
+        user,
+        studios,
+        activeStudioId,
+        signIn,
+        signUp,
+        signOut,
+        selectStudio,
+        createStudio,
+        refreshStudios,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export { AuthProvider };
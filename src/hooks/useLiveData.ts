@@ -0,0 +1,93 @@
+// src/hooks/useLiveData.ts - Live views of local data that re-render on every change
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { dataStore } from '@/lib/data-store';
+import type {
+  TableName,
+  DanceClass,
+  Student,
+  RegisterSession,
+  PointEvent,
+  AwardUnlock,
+} from '@/lib/sync-manager';
+
+// Rows are undefined until the first local read finishes
+function useTable<T>(table: TableName): T[] | undefined {
+  const subscribe = useCallback((listener: () => void) => dataStore.subscribe(table, listener), [table]);
+  const getSnapshot = useCallback(() => dataStore.getSnapshot<T>(table), [table]);
+  return useSyncExternalStore(subscribe, getSnapshot, () => undefined);
+}
+
+export function useClasses(): DanceClass[] | undefined {
+  return useTable<DanceClass>('classes');
+}
+
+// Resolves to null once loaded if the class doesn't exist
+export function useClass(classId: string): DanceClass | null | undefined {
+  const classes = useClasses();
+  return useMemo(() => classes && (classes.find(c => c.id === classId) ?? null), [classes, classId]);
+}
+
+export function useStudents(): Student[] | undefined {
+  return useTable<Student>('students');
+}
+
+export function useStudentsInClass(classId: string): Student[] | undefined {
+  const students = useStudents();
+  return useMemo(() => students?.filter(s => s.classId === classId), [students, classId]);
+}
+
+export function useStudent(studentId: string): Student | null | undefined {
+  const students = useStudents();
+  return useMemo(() => students && (students.find(s => s.id === studentId) ?? null), [students, studentId]);
+}
+
+export interface SessionFilter {
+  classId?: string;
+  // Inclusive bounds on startedAtISO
+  from?: string;
+  to?: string;
+}
+
+export function useSessions(filter: SessionFilter = {}): RegisterSession[] | undefined {
+  const sessions = useTable<RegisterSession>('sessions');
+  const { classId, from, to } = filter;
+
+  return useMemo(() => sessions?.filter(s =>
+    (!classId || s.classId === classId) &&
+    (!from || s.startedAtISO >= from) &&
+    (!to || s.startedAtISO <= to)
+  ), [sessions, classId, from, to]);
+}
+
+export interface PointFilter {
+  classId?: string;
+  studentId?: string;
+  sessionId?: string;
+}
+
+export function usePoints(filter: PointFilter = {}): PointEvent[] | undefined {
+  const points = useTable<PointEvent>('points');
+  const { classId, studentId, sessionId } = filter;
+
+  return useMemo(() => points?.filter(p =>
+    (!classId || p.classId === classId) &&
+    (!studentId || p.studentId === studentId) &&
+    (!sessionId || p.sessionId === sessionId)
+  ), [points, classId, studentId, sessionId]);
+}
+
+export interface AwardFilter {
+  classId?: string;
+  studentId?: string;
+}
+
+export function useAwards(filter: AwardFilter = {}): AwardUnlock[] | undefined {
+  const awards = useTable<AwardUnlock>('awards');
+  const { classId, studentId } = filter;
+
+  return useMemo(() => awards?.filter(a =>
+    (!classId || a.classId === classId) &&
+    (!studentId || a.studentId === studentId)
+  ), [awards, classId, studentId]);
+}
@@ -0,0 +1,12 @@
+// src/hooks/usePermissions.ts - What the signed-in teacher may do in the active studio
+
+import { useCallback } from 'react';
+import { can as roleCan, type Permission } from '@/lib/permissions';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+
+export function usePermissions() {
+  const { role, studioId } = useSyncStatus();
+  // Read-only in a studio until the role is known
+  const can = useCallback((permission: Permission) => roleCan(role, permission, studioId !== null), [role, studioId]);
+  return { role, can };
+}
@@ -0,0 +1,28 @@
+// src/hooks/useSyncStatus.ts - Live sync status (online, syncing, pending changes, quarantined records, last error)
+
+import { useSyncExternalStore } from 'react';
+import { syncManager, type SyncStatus } from '@/lib/sync-manager';
+
+function subscribe(listener: () => void) {
+  return syncManager.on('status-changed', listener);
+}
+
+function getSnapshot(): SyncStatus {
+  return syncManager.getStatus();
+}
+
+// What the server renders, before the browser's real status is known
+const SERVER_STATUS: SyncStatus = {
+  online: false,
+  studioId: null,
+  role: null,
+  syncing: false,
+  pending: { classes: 0, students: 0, sessions: 0, points: 0, awards: 0 },
+  quarantined: 0,
+  conflicts: 0,
+  lastError: null,
+};
+
+export function useSyncStatus(): SyncStatus {
+  return useSyncExternalStore(subscribe, getSnapshot, () => SERVER_STATUS);
+}
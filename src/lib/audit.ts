@@ -0,0 +1,68 @@
+// Before/after diffs for the audit log
+// SyncManager writes an entry for every record a save or a pull changes,
+// so a version that was overwritten can still be looked up and restored
+
+import type { AuditEntry, AuditSource, FieldChange, OutboxOp } from "./local-store";
+import type { TableName, TeacherRef } from "./sync-manager";
+
+// Bookkeeping that changes on every save, and mark stamps already shown as register history
+const IGNORED_FIELDS = new Set(["synced", "updatedAt", "hlc", "markMeta", "markHistory"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * List the fields that differ between two versions of a record. Maps such
+ * as register marks are compared entry by entry, so one changed mark reads
+ * as "marks.<studentId>" rather than the whole map.
+ */
+export function diffRecords(before: object | null | undefined, after: object): FieldChange[] {
+  const prev = (before ?? {}) as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const changes: FieldChange[] = [];
+
+  for (const field of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.has(field) || same(prev[field], next[field])) continue;
+
+    if (isPlainObject(prev[field]) || isPlainObject(next[field])) {
+      const a = isPlainObject(prev[field]) ? prev[field] as Record<string, unknown> : {};
+      const b = isPlainObject(next[field]) ? next[field] as Record<string, unknown> : {};
+      for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+        if (!same(a[key], b[key])) changes.push({ field: `${field}.${key}`, before: a[key], after: b[key] });
+      }
+      continue;
+    }
+
+    changes.push({ field, before: prev[field], after: next[field] });
+  }
+
+  return changes;
+}
+
+export function auditEntry(
+  table: TableName,
+  op: OutboxOp,
+  before: { id: string } | undefined,
+  after: { id: string },
+  source: AuditSource,
+  at: string,
+  author: { deviceId?: string; teacher?: TeacherRef } = {}
+): AuditEntry {
+  return {
+    id: crypto.randomUUID(),
+    table,
+    recordId: after.id,
+    op,
+    source,
+    at,
+    ...author,
+    before: before ?? null,
+    after,
+    changes: diffRecords(before, after),
+  };
+}
@@ -2,6 +2,7 @@
 
 import type { Student, RegisterSession, PointEvent, AwardUnlock } from "../sync-manager";
 import type { AwardCandidate } from "./awards.types";
+import { monthPeriodKey } from "./awards.utils";
 
 
 // Helper function to mark attendance as attended
@@ -329,7 +330,7 @@ export function autoAward(opts: {
 
   const winner = candidates[0]!;
   const periodKey = awardType === "student_of_month"
-    ? `${opts.rangeFrom!.getFullYear()}-${String(opts.rangeFrom!.getMonth() + 1).padStart(2, "0")}`
+    ? monthPeriodKey(opts.rangeFrom!)
     : getAcademicYearBounds(new Date()).key;
 
   const periodType = awardType === "student_of_month" ? "RANGE" : "ACADEMIC_YEAR";
@@ -1,13 +1,13 @@
 // src/lib/awards/awards.types.ts
 
+import type { AwardUnlock } from "../sync-manager";
+
 export type AwardCategory =
   | "MONTHLY_BADGE"
   | "MAJOR";
 
-export type AwardPeriodType =
-  | "MONTH"
-  | "YEAR"
-  | "CUSTOM";
+// RANGE keys are "startISO|endISO"; ACADEMIC_YEAR keys are "2024-2025"
+export type AwardPeriodType = AwardUnlock["periodType"];
 
 export type AwardDefinition = {
   id: string;
@@ -34,26 +34,7 @@ export type AwardCandidate = {
   lastDateISO?: string; // For Most Improved
 };
 
-export type AwardUnlock = {
-  id: string;
-
-  awardId: string;
-  studentId: string;
-  classId: string;
-
-  // what time period this award belongs to
-  periodType: AwardPeriodType;
-  periodKey: string; // e.g. "2025-03", "2024-2025"
-
-  unlockedAtISO: string;
-
-  // only for big awards
-  decidedBy: "SYSTEM" | "TEACHER";
-
-  // Sync manager fields
-  synced?: boolean;
-  updatedAt?: string;
-  deleted?: boolean;
-};
+// Stored awards share the sync manager's shape
+export type { AwardUnlock };
 
 export {};
\ No newline at end of file
@@ -49,6 +49,23 @@ export function getPeriodAwards(
   return awards.filter((award) => award.periodKey === periodKey);
 }
 
+/**
+ * Period key for a RANGE award: "startISO|endISO"
+ */
+export function rangePeriodKey(from: Date, to: Date): string {
+  return `${from.toISOString()}|${to.toISOString()}`;
+}
+
+/**
+ * RANGE period key covering the whole calendar month that contains `date`
+ * (automatic Student of the Month awards use one key per month)
+ */
+export function monthPeriodKey(date: Date): string {
+  const start = new Date(date.getFullYear(), date.getMonth(), 1, 0, 0, 0, 0);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59, 999);
+  return rangePeriodKey(start, end);
+}
+
 /**
  * Format award period for display
  */
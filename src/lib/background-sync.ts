@@ -0,0 +1,56 @@
+// Background Sync: lets the service worker upload the outbox even after the app is closed
+// The worker side lives in worker/index.ts (built into public/ by next-pwa)
+
+export const OUTBOX_SYNC_TAG = "bb-outbox";
+// Posted by the worker to open tabs after it uploads queued changes
+export const OUTBOX_FLUSHED_MESSAGE = "bb-outbox-flushed";
+// Where the app leaves the Supabase URL, anon key and session token for the worker
+export const SUPABASE_CONFIG_KEY = "supabaseConfig";
+
+export interface SupabaseConfig {
+  url: string;
+  anonKey: string;
+  // The signed-in teacher's token; row level security turns away the anon key alone
+  accessToken?: string;
+}
+
+export interface OutboxFlushedMessage {
+  type: typeof OUTBOX_FLUSHED_MESSAGE;
+  tables: string[];
+}
+
+// Background Sync isn't in the DOM typings yet
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Ask the service worker to flush the outbox the next time the device has a
+ * connection. A no-op where service workers or Background Sync are missing.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncCapableRegistration | undefined;
+    await registration?.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn("Background sync registration failed:", error);
+  }
+}
+
+// Hear about uploads the service worker made while this tab was open; returns
+// a function that stops listening
+export function onBackgroundFlush(listener: (tables: string[]) => void): () => void {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return () => {};
+
+  const container = navigator.serviceWorker;
+  const receive = (event: MessageEvent) => {
+    const message = event.data as OutboxFlushedMessage | undefined;
+    if (message?.type === OUTBOX_FLUSHED_MESSAGE && Array.isArray(message.tables)) {
+      listener(message.tables);
+    }
+  };
+  container.addEventListener("message", receive);
+  return () => container.removeEventListener("message", receive);
+}
@@ -0,0 +1,333 @@
+// Whole-device backups written to a file, optionally passphrase-encrypted
+// SyncManager gathers the records and restores them through its normal
+// saves; this module reads and writes the file and works out what a
+// restore would change
+
+import type { TableName } from "./sync-manager";
+import type { FieldChange, OutboxOp } from "./local-store";
+import { diffRecords } from "./audit";
+import { CURRENT_SCHEMA_VERSION, normalizeRecord } from "./migrations";
+import { validateRecord } from "./schemas";
+import { compareStamps } from "./hlc";
+
+export const BACKUP_FORMAT = "bollywood-beatz-backup";
+// Bump when the file layout changes; readBackup() refuses newer versions
+export const BACKUP_VERSION = 1;
+
+// Award settings kept by the awards page outside the synced tables
+export const AWARDS_META_KEY = "bb_awards_meta";
+
+export const BACKUP_TABLES: readonly TableName[] = ["classes", "students", "sessions", "points", "awards"];
+
+// Slow enough to make guessing a passphrase expensive, quick enough on a phone
+const PBKDF2_ITERATIONS = 250_000;
+
+export type BackupRecord = { id: string; updatedAt?: string; hlc?: string; deleted?: boolean } & Record<string, unknown>;
+
+export interface BackupContents {
+  createdAt: string;
+  // The local data schema the records were written in
+  schemaVersion: number;
+  studioId?: string;
+  records: Record<TableName, BackupRecord[]>;
+  awardsMeta: unknown;
+}
+
+interface PlainBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: false;
+  contents: BackupContents;
+}
+
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: true;
+  createdAt: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  // Base64 ciphertext of the JSON BackupContents
+  payload: string;
+}
+
+type BackupFile = PlainBackupFile | EncryptedBackupFile;
+
+export type BackupErrorReason = "invalid" | "newer" | "needsPassphrase" | "wrongPassphrase";
+
+// A file that can't be read as a backup; `reason` lets the page ask for a passphrase
+export class BackupError extends Error {
+  constructor(message: string, readonly reason: BackupErrorReason) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+/* ---------- ENCRYPTION ---------- */
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/* ---------- FILES ---------- */
+
+// The backup as file text; with a passphrase, everything but the header is encrypted
+export async function writeBackup(contents: BackupContents, passphrase?: string): Promise<string> {
+  if (!passphrase) {
+    const file: PlainBackupFile = { format: BACKUP_FORMAT, version: BACKUP_VERSION, encrypted: false, contents };
+    return JSON.stringify(file);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(contents))
+  );
+
+  const file: EncryptedBackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    encrypted: true,
+    createdAt: contents.createdAt,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    payload: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(file);
+}
+
+function parseFile(text: string): BackupFile {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new BackupError("This file isn't a backup", "invalid");
+  }
+
+  if (!file || typeof file !== "object" || (file as { format?: unknown }).format !== BACKUP_FORMAT) {
+    throw new BackupError("This file isn't a backup", "invalid");
+  }
+  if (typeof (file as BackupFile).version !== "number" || (file as BackupFile).version > BACKUP_VERSION) {
+    throw new BackupError("This backup was made by a newer version of the app", "newer");
+  }
+  return file as BackupFile;
+}
+
+// Whether the file text needs a passphrase to read
+export function isEncryptedBackup(text: string): boolean {
+  return parseFile(text).encrypted;
+}
+
+function checkContents(value: unknown): BackupContents {
+  const contents = value as BackupContents;
+  if (!contents || typeof contents !== "object" || !contents.records || typeof contents.records !== "object") {
+    throw new BackupError("This backup is damaged", "invalid");
+  }
+  if (contents.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupError("This backup was made by a newer version of the app", "newer");
+  }
+
+  const records = {} as Record<TableName, BackupRecord[]>;
+  for (const table of BACKUP_TABLES) {
+    const rows = contents.records[table] ?? [];
+    if (!Array.isArray(rows)) throw new BackupError("This backup is damaged", "invalid");
+    // Rows without an id can't be matched to anything; the rest are checked by planRestore()
+    records[table] = rows.filter((row): row is BackupRecord =>
+      !!row && typeof row === "object" && typeof (row as { id?: unknown }).id === "string"
+    );
+  }
+  return { ...contents, records };
+}
+
+/**
+ * Read a backup file. Encrypted backups need the passphrase they were made
+ * with; a missing or wrong one throws a BackupError saying which.
+ */
+export async function readBackup(text: string, passphrase?: string): Promise<BackupContents> {
+  const file = parseFile(text);
+  if (!file.encrypted) return checkContents(file.contents);
+
+  if (!passphrase) throw new BackupError("This backup is encrypted; enter its passphrase", "needsPassphrase");
+
+  let plaintext: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+    plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(file.cipher.iv) }, key, fromBase64(file.payload));
+  } catch {
+    // AES-GCM can't tell a wrong key from a tampered file
+    throw new BackupError("Wrong passphrase, or the file has been changed", "wrongPassphrase");
+  }
+
+  try {
+    return checkContents(JSON.parse(new TextDecoder().decode(plaintext)));
+  } catch (error) {
+    if (error instanceof BackupError) throw error;
+    throw new BackupError("This backup is damaged", "invalid");
+  }
+}
+
+/* ---------- RESTORE PLAN ---------- */
+
+// Merge keeps what's only on this device; replace makes this device match the backup
+export type RestoreMode = "merge" | "replace";
+
+export interface RestoreChange {
+  table: TableName;
+  op: OutboxOp;
+  // The version the restore would save
+  record: BackupRecord;
+  changes: FieldChange[];
+}
+
+export interface RestoreSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  // Damaged rows in the backup, left out of the restore
+  invalid: number;
+}
+
+export interface RestorePlan {
+  changes: RestoreChange[];
+  summary: Record<TableName, RestoreSummary>;
+}
+
+function isNewer(a: BackupRecord, b: BackupRecord): boolean {
+  if (a.hlc && b.hlc) return compareStamps(a.hlc, b.hlc) > 0;
+  return new Date(a.updatedAt ?? 0).getTime() > new Date(b.updatedAt ?? 0).getTime();
+}
+
+// Copy without sync bookkeeping, so a restored version saves as a fresh change
+function asSave(record: BackupRecord): BackupRecord {
+  return { ...record, synced: undefined, updatedAt: undefined, hlc: undefined, deleted: !!record.deleted };
+}
+
+/**
+ * Work out what restoring a backup over this device's records would do,
+ * without changing anything. Merge adds records the device doesn't have and
+ * takes the backup's copy only where it was saved later; replace takes
+ * every backup copy and deletes whatever the backup doesn't have. Damaged
+ * rows are counted and skipped, and keep their local copy either way.
+ */
+export function planRestore(
+  current: Record<TableName, BackupRecord[]>,
+  backup: Record<TableName, BackupRecord[]>,
+  mode: RestoreMode
+): RestorePlan {
+  const changes: RestoreChange[] = [];
+  const summary = {} as Record<TableName, RestoreSummary>;
+
+  for (const table of BACKUP_TABLES) {
+    const local = new Map(current[table].map(record => [record.id, record]));
+    const counts: RestoreSummary = { added: 0, updated: 0, removed: 0, unchanged: 0, invalid: 0 };
+
+    for (const row of backup[table]) {
+      // Backups from before a schema change are brought up to date first
+      const outcome = validateRecord<BackupRecord>(table, normalizeRecord(table, row));
+      if (!outcome.valid) {
+        counts.invalid++;
+        local.delete(row.id);
+        continue;
+      }
+
+      const saved = outcome.record;
+      const existing = local.get(saved.id);
+      local.delete(saved.id);
+
+      if (!existing) {
+        if (saved.deleted) continue;
+        changes.push({ table, op: "create", record: asSave(saved), changes: diffRecords(undefined, saved) });
+        counts.added++;
+        continue;
+      }
+
+      const diff = diffRecords(existing, saved);
+      if (diff.length === 0 || (mode === "merge" && !isNewer(saved, existing))) {
+        counts.unchanged++;
+        continue;
+      }
+
+      const op: OutboxOp = saved.deleted && !existing.deleted ? "delete" : "update";
+      changes.push({ table, op, record: asSave(saved), changes: diff });
+      if (op === "delete") counts.removed++;
+      else counts.updated++;
+    }
+
+    // Anything left is only on this device
+    if (mode === "replace") {
+      for (const extra of local.values()) {
+        if (extra.deleted) continue;
+        const record = asSave({ ...extra, deleted: true });
+        changes.push({ table, op: "delete", record, changes: diffRecords(extra, record) });
+        counts.removed++;
+      }
+    }
+
+    summary[table] = counts;
+  }
+
+  return { changes, summary };
+}
+
+export function loadAwardsMeta(): unknown {
+  if (typeof window === "undefined") return null;
+  try {
+    return JSON.parse(localStorage.getItem(AWARDS_META_KEY) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+export function saveAwardsMeta(meta: unknown): void {
+  if (typeof window === "undefined") return;
+  if (meta === null || meta === undefined) {
+    localStorage.removeItem(AWARDS_META_KEY);
+  } else {
+    localStorage.setItem(AWARDS_META_KEY, JSON.stringify(meta));
+  }
+}
+
+/**
+ * Award settings after a restore. They're small and rarely edited, so
+ * merge only fills in classes this device has no settings for.
+ */
+export function restoreAwardsMeta(current: unknown, backup: unknown, mode: RestoreMode): unknown {
+  if (mode === "replace" || !current || typeof current !== "object") return backup ?? current;
+  if (!backup || typeof backup !== "object") return current;
+
+  const mine = current as { sotm?: Record<string, unknown> };
+  const theirs = backup as { sotm?: Record<string, unknown> };
+  return { ...theirs, ...mine, sotm: { ...theirs.sotm, ...mine.sotm } };
+}
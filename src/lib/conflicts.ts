@@ -0,0 +1,128 @@
+// Whole-record conflicts between this device and the server
+// A pull keeps whichever copy has the later clock stamp, which is only a
+// tie-break when neither side saw the other's edit. When both sides edited a
+// record since they last agreed on it, SyncManager records both copies here
+// so a teacher can pick one, or pick field by field. Register marks have their own per-student
+// conflicts (see marks.ts).
+
+import type { TableName } from "./sync-manager";
+import { diffRecords } from "./audit";
+
+export type ConflictRecord = { id: string; updatedAt?: string; deleted?: boolean } & Record<string, unknown>;
+
+// Points are only ever given or deleted, never edited, so they can't conflict this way
+export const CONFLICT_TABLES: readonly TableName[] = ["classes", "students", "sessions", "awards"];
+
+// Bookkeeping that doesn't say anything a teacher would choose between
+const IGNORED_FIELDS = new Set(["deletedAt", "deletedBy", "purgedAt", "studioId"]);
+// Register marks merge student by student and are never part of a record conflict
+const MARK_FIELDS = new Set(["marks", "markMeta", "markHistory"]);
+
+export type ConflictSide = "local" | "remote";
+
+export interface ConflictField {
+  field: string;
+  local: unknown;
+  remote: unknown;
+  // Which sides changed it since they last agreed; the other side still has the old value
+  changedLocally: boolean;
+  changedRemotely: boolean;
+}
+
+export interface RecordConflict {
+  id: string;
+  table: TableName;
+  recordId: string;
+  // This device's unsynced copy, and the server's
+  local: ConflictRecord;
+  remote: ConflictRecord;
+  fields: ConflictField[];
+  // The copy the pull kept until a teacher decides
+  applied: ConflictSide;
+  detectedAt: string;
+}
+
+// Keep one copy whole, or name a side for each conflicting field
+export type ConflictChoice = ConflictSide | Record<string, ConflictSide>;
+
+export function recordConflictId(table: TableName, recordId: string): string {
+  return `${table}:${recordId}`;
+}
+
+// Top-level fields that differ between two versions, as a teacher would choose between them
+function changedFields(table: TableName, before: object, after: object): Set<string> {
+  const fields = new Set<string>();
+  for (const change of diffRecords(before, after)) {
+    const field = change.field.split(".")[0];
+    if (IGNORED_FIELDS.has(field)) continue;
+    if (table === "sessions" && MARK_FIELDS.has(field)) continue;
+    fields.add(field);
+  }
+  return fields;
+}
+
+/**
+ * The conflict between a local change and a pulled one, or null when they
+ * don't really conflict: one side hasn't moved on from `base` (the copy
+ * both last agreed on), or they ended up the same.
+ */
+export function detectConflict(
+  table: TableName,
+  base: ConflictRecord,
+  local: ConflictRecord,
+  remote: ConflictRecord,
+  applied: ConflictSide,
+  detectedAt: string
+): RecordConflict | null {
+  if (!CONFLICT_TABLES.includes(table)) return null;
+
+  const changedLocally = changedFields(table, base, local);
+  const changedRemotely = changedFields(table, base, remote);
+  if (changedLocally.size === 0 || changedRemotely.size === 0) return null;
+
+  const differing = changedFields(table, local, remote);
+  if (differing.size === 0) return null;
+
+  return {
+    id: recordConflictId(table, local.id),
+    table,
+    recordId: local.id,
+    local,
+    remote,
+    fields: [...differing].map((field) => ({
+      field,
+      local: local[field],
+      remote: remote[field],
+      changedLocally: changedLocally.has(field),
+      changedRemotely: changedRemotely.has(field),
+    })),
+    applied,
+    detectedAt,
+  };
+}
+
+// The side to preselect for a field: whichever actually changed it, else the copy the pull kept
+export function suggestedSide(conflict: RecordConflict, field: ConflictField): ConflictSide {
+  if (field.changedLocally && !field.changedRemotely) return "local";
+  if (field.changedRemotely && !field.changedLocally) return "remote";
+  return conflict.applied;
+}
+
+/**
+ * The record after settling a conflict: `current` (what's stored now) with
+ * each conflicting field taken from the chosen side. Fields neither side
+ * fought over keep their current value.
+ */
+export function resolveConflict(conflict: RecordConflict, current: ConflictRecord, choice: ConflictChoice): ConflictRecord {
+  const resolved: ConflictRecord = { ...current };
+  for (const field of conflict.fields) {
+    const side = typeof choice === "string" ? choice : choice[field.field] ?? suggestedSide(conflict, field);
+    const value = conflict[side][field.field];
+    if (value === undefined) {
+      delete resolved[field.field];
+    } else {
+      resolved[field.field] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,68 @@
+// Live, subscribable copy of local data for React views
+// One snapshot per table, re-read whenever SyncManager reports a change
+
+import { syncManager, type TableName } from "./sync-manager";
+
+type Listener = () => void;
+
+class DataStore {
+  private snapshots = new Map<TableName, unknown[]>();
+  private listeners = new Map<TableName, Set<Listener>>();
+  // Bumped on every reload so an older read can't overwrite a newer one
+  private versions = new Map<TableName, number>();
+
+  constructor() {
+    syncManager.onChange(tables => {
+      for (const table of tables) {
+        if (this.listeners.get(table)?.size) {
+          this.reload(table);
+        } else {
+          // Nobody is watching; read it fresh on the next subscribe
+          this.snapshots.delete(table);
+        }
+      }
+    });
+  }
+
+  private async reload(table: TableName): Promise<void> {
+    const version = (this.versions.get(table) ?? 0) + 1;
+    this.versions.set(table, version);
+
+    try {
+      const rows = await syncManager.readLocal(table);
+      if (this.versions.get(table) !== version) return;
+
+      this.snapshots.set(table, rows);
+      this.listeners.get(table)?.forEach(listener => listener());
+    } catch (error) {
+      console.error(`Error loading ${table}:`, error);
+    }
+  }
+
+  subscribe(table: TableName, listener: Listener): () => void {
+    let listeners = this.listeners.get(table);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(table, listeners);
+    }
+
+    const first = listeners.size === 0;
+    listeners.add(listener);
+
+    if (first && !this.snapshots.has(table)) {
+      // Show what's on this device straight away, then pick up remote changes
+      this.reload(table).then(() => syncManager.refresh(table));
+    }
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  // Stable until the table changes, as useSyncExternalStore requires
+  getSnapshot<T>(table: TableName): T[] | undefined {
+    return this.snapshots.get(table) as T[] | undefined;
+  }
+}
+
+export const dataStore = new DataStore();
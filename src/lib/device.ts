@@ -0,0 +1,50 @@
+// Stable per-browser device identity, used to attribute changes
+
+const DEVICE_ID_KEY = "bb_device_id";
+
+export function getDeviceId(): string {
+  if (typeof window === "undefined") return "server";
+
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+// The name changes made on this device are credited to when nobody is signed in
+const TEACHER_NAME_KEY = "bb_teacher_name";
+
+export function getTeacherName(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(TEACHER_NAME_KEY)?.trim() || null;
+}
+
+export function setTeacherName(name: string): void {
+  if (typeof window === "undefined") return;
+  const trimmed = name.trim();
+  if (trimmed) {
+    localStorage.setItem(TEACHER_NAME_KEY, trimmed);
+  } else {
+    localStorage.removeItem(TEACHER_NAME_KEY);
+  }
+}
+
+// The token this device shows a self-hosted sync server (see SYNC_TOKENS in SYNC_SETUP_README.md)
+const SYNC_TOKEN_KEY = "bb_sync_token";
+
+export function getSyncToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(SYNC_TOKEN_KEY)?.trim() || null;
+}
+
+export function setSyncToken(token: string): void {
+  if (typeof window === "undefined") return;
+  const trimmed = token.trim();
+  if (trimmed) {
+    localStorage.setItem(SYNC_TOKEN_KEY, trimmed);
+  } else {
+    localStorage.removeItem(SYNC_TOKEN_KEY);
+  }
+}
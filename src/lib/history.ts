@@ -0,0 +1,48 @@
+// Who changed each register mark and gave each point, for the register and
+// student profile pages
+
+import type { RegisterSession, MarkChange, PointEvent, TeacherRef } from "./sync-manager";
+
+// A mark change together with the student it belongs to
+export interface StudentMarkChange extends MarkChange {
+  studentId: string;
+}
+
+// Records saved before attribution was kept just say so
+export function teacherLabel(teacher?: TeacherRef): string {
+  return teacher?.name ?? "Not recorded";
+}
+
+export function formatChangeTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-GB", { dateStyle: "short", timeStyle: "short" });
+}
+
+/**
+ * Every change to one student's mark in a register, newest first. Marks
+ * made before history was kept fall back to their last stamp, if any.
+ */
+export function markChangesFor(session: RegisterSession, studentId: string): MarkChange[] {
+  const history = session.markHistory?.[studentId];
+  if (history && history.length > 0) return [...history].reverse();
+
+  const meta = session.markMeta?.[studentId];
+  if (!meta) return [];
+  return [{ status: session.marks[studentId], at: meta.at, by: meta.by, teacher: meta.teacher }];
+}
+
+// Every mark change in a register across all students, newest first
+export function sessionMarkChanges(session: RegisterSession): StudentMarkChange[] {
+  const studentIds = new Set([
+    ...Object.keys(session.marks ?? {}),
+    ...Object.keys(session.markHistory ?? {}),
+  ]);
+
+  return [...studentIds]
+    .flatMap(studentId => markChangesFor(session, studentId).map(change => ({ ...change, studentId })))
+    .sort((a, b) => (a.at < b.at ? 1 : a.at > b.at ? -1 : 0));
+}
+
+// Points in the order they were given, newest first
+export function pointsNewestFirst(points: PointEvent[]): PointEvent[] {
+  return [...points].sort((a, b) => +new Date(b.createdAtISO) - +new Date(a.createdAtISO));
+}
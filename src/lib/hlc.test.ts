@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { compareStamps, HybridClock, isStamp, parseStamp } from "./hlc";
+
+const at = (iso: string) => () => new Date(iso).getTime();
+
+describe("compareStamps", () => {
+  it("orders by time, then counter, then device", () => {
+    const stamps = [
+      "2026-03-02T09:00:01.000Z-0000-a",
+      "2026-03-02T09:00:00.000Z-0002-a",
+      "2026-03-02T09:00:00.000Z-0001-b",
+      "2026-03-02T09:00:00.000Z-0001-a",
+    ];
+    expect([...stamps].sort(compareStamps)).toEqual([
+      "2026-03-02T09:00:00.000Z-0001-a",
+      "2026-03-02T09:00:00.000Z-0001-b",
+      "2026-03-02T09:00:00.000Z-0002-a",
+      "2026-03-02T09:00:01.000Z-0000-a",
+    ]);
+    expect(compareStamps("2026-03-02T09:00:00.000Z-0000-a", "2026-03-02T09:00:00.000Z-0000-a")).toBe(0);
+  });
+
+  it("orders counters past 9 correctly", () => {
+    expect(compareStamps("2026-03-02T09:00:00.000Z-0009-a", "2026-03-02T09:00:00.000Z-000a-a")).toBeLessThan(0);
+  });
+});
+
+describe("parseStamp", () => {
+  it("reads the parts of a stamp", () => {
+    expect(parseStamp("2026-03-02T09:00:00.000Z-001f-device-1")).toEqual({
+      wall: new Date("2026-03-02T09:00:00.000Z").getTime(),
+      counter: 31,
+      node: "device-1",
+    });
+  });
+
+  it("rejects anything else", () => {
+    expect(parseStamp("2026-03-02T09:00:00.000Z")).toBeNull();
+    expect(isStamp(42)).toBe(false);
+  });
+});
+
+describe("HybridClock", () => {
+  it("counts up within one millisecond", () => {
+    const clock = new HybridClock("a", at("2026-03-02T09:00:00.000Z"));
+    expect(clock.now()).toBe("2026-03-02T09:00:00.000Z-0000-a");
+    expect(clock.now()).toBe("2026-03-02T09:00:00.000Z-0001-a");
+  });
+
+  it("never goes back when the device clock does", () => {
+    let time = new Date("2026-03-02T09:00:00.000Z").getTime();
+    const clock = new HybridClock("a", () => time);
+    const first = clock.now();
+    time -= 60_000;
+    expect(compareStamps(clock.now(), first)).toBeGreaterThan(0);
+  });
+
+  it("stamps after a change seen from a device with a fast clock", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const clock = new HybridClock("a", at("2026-03-02T09:00:00.000Z"));
+    const ahead = "2026-03-02T10:00:00.000Z-0003-b";
+
+    clock.receive(ahead);
+    const next = clock.now();
+    expect(compareStamps(next, ahead)).toBeGreaterThan(0);
+    expect(next).toBe("2026-03-02T10:00:00.000Z-0004-a");
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("ignores stamps it can't read", () => {
+    const clock = new HybridClock("a", at("2026-03-02T09:00:00.000Z"));
+    clock.receive("not a stamp");
+    expect(clock.latest()).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+// Hybrid logical clock stamps for ordering record versions
+// Each stamp is the wall time, a counter and the device id, e.g.
+// 2026-03-02T09:15:00.000Z-0003-<device id>. Stamps sort as plain strings,
+// and a device never stamps anything older than a stamp it has already seen,
+// so an edit made after seeing another device's edit always orders after it,
+// however wrong either device's clock is.
+
+const COUNTER_DIGITS = 4;
+const MAX_COUNTER = 0xffff;
+const STAMP_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z)-([0-9a-f]{4})-(.+)$/;
+
+// Stamps further ahead of this device's clock than this are probably from a device with a wrong clock
+const DRIFT_WARNING_MS = 5 * 60 * 1000;
+
+export interface ParsedStamp {
+  wall: number;
+  counter: number;
+  node: string;
+}
+
+export function parseStamp(stamp: string): ParsedStamp | null {
+  const match = STAMP_PATTERN.exec(stamp);
+  if (!match) return null;
+  const wall = new Date(match[1]).getTime();
+  if (Number.isNaN(wall)) return null;
+  return { wall, counter: parseInt(match[2], 16), node: match[3] };
+}
+
+export function isStamp(value: unknown): value is string {
+  return typeof value === "string" && parseStamp(value) !== null;
+}
+
+function formatStamp(wall: number, counter: number, node: string): string {
+  return `${new Date(wall).toISOString()}-${counter.toString(16).padStart(COUNTER_DIGITS, "0")}-${node}`;
+}
+
+// Negative when `a` was stamped before `b`
+export function compareStamps(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export class HybridClock {
+  private wall = 0;
+  private counter = 0;
+  // Devices already warned about, so each skewed clock is reported once
+  private warned = new Set<string>();
+
+  constructor(
+    private node: string,
+    private clock: () => number = Date.now
+  ) {}
+
+  // A stamp for a change made now, later than every stamp made or seen before
+  now(): string {
+    const physical = this.clock();
+    if (physical > this.wall) {
+      this.wall = physical;
+      this.counter = 0;
+    } else if (this.counter < MAX_COUNTER) {
+      this.counter++;
+    } else {
+      // Out of counter for this millisecond; borrow the next one
+      this.wall++;
+      this.counter = 0;
+    }
+    return formatStamp(this.wall, this.counter, this.node);
+  }
+
+  // Move past a stamp made elsewhere, so the next local one orders after it
+  receive(stamp: string): void {
+    const parsed = parseStamp(stamp);
+    if (!parsed) return;
+
+    const physical = this.clock();
+    if (parsed.wall - physical > DRIFT_WARNING_MS && !this.warned.has(parsed.node)) {
+      this.warned.add(parsed.node);
+      console.warn(`Received a change stamped ${Math.round((parsed.wall - physical) / 60000)} minute(s) ahead of this device's clock from ${parsed.node}`);
+    }
+
+    if (parsed.wall > this.wall || (parsed.wall === this.wall && parsed.counter > this.counter)) {
+      this.wall = parsed.wall;
+      this.counter = parsed.counter;
+    }
+  }
+
+  // The last stamp made or seen, to carry the clock over a restart
+  latest(): string | null {
+    return this.wall > 0 ? formatStamp(this.wall, this.counter, this.node) : null;
+  }
+}
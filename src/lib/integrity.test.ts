@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { IntegrityError, planRepair, scanIntegrity, type IntegrityData } from "./integrity";
+import { stampMarkChanges } from "./marks";
+import type { DanceClass, MarkStatus, PointEvent, RegisterSession, Student } from "./sync-manager";
+
+const danceClass: DanceClass = { id: "c1", name: "Ballet", color: "#fff" };
+const student = (id: string, classId = "c1"): Student => ({ id, name: id, classId, joinedAtISO: "2026-01-01T00:00:00.000Z" });
+
+function data(overrides: Partial<IntegrityData> = {}): IntegrityData {
+  return { classes: [danceClass], students: [student("s1"), student("s2")], sessions: [], points: [], awards: [], ...overrides };
+}
+
+// A register started on one phone the way the register page does it, with everyone absent
+function startRegister(id: string, device: string, at: string, studentIds = ["s1", "s2"]): RegisterSession {
+  const marks = Object.fromEntries(studentIds.map((studentId) => [studentId, "ABSENT" as MarkStatus]));
+  return stampMarkChanges(undefined, { id, classId: "c1", startedAtISO: at, marks }, at, device);
+}
+
+function mark(session: RegisterSession, studentId: string, status: MarkStatus, at: string, device: string): RegisterSession {
+  return stampMarkChanges(session, { ...session, marks: { ...session.marks, [studentId]: status } }, at, device);
+}
+
+function mergeDuplicates(sessions: RegisterSession[], points: PointEvent[] = []) {
+  const input = data({ sessions, points });
+  const issue = scanIntegrity(input).find((item) => item.kind === "duplicateRegister");
+  if (!issue) throw new Error("no duplicate register found");
+  return planRepair(issue, { action: "merge" }, input, "2026-03-02T10:00:00.000Z");
+}
+
+describe("scanIntegrity", () => {
+  it("finds students whose class is in the Trash", () => {
+    const issues = scanIntegrity(data({ classes: [{ ...danceClass, deleted: true }] }));
+    expect(issues.map((issue) => issue.id)).toEqual(["studentWithoutClass:s1", "studentWithoutClass:s2"]);
+    expect(issues[0].inTrash).toBe(true);
+  });
+
+  it("finds two open registers for one class on one day, oldest first", () => {
+    const r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z");
+    const r2 = startRegister("r2", "phone-b", "2026-03-02T09:10:00.000Z");
+    const r3 = startRegister("r3", "phone-a", "2026-03-03T09:00:00.000Z");
+
+    const [issue] = scanIntegrity(data({ sessions: [r2, r1, r3] }));
+    expect(issue.kind).toBe("duplicateRegister");
+    expect(issue.recordIds).toEqual(["r1", "r2"]);
+  });
+
+  it("reports marks for students never seen here, offering to remove them", () => {
+    const r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z", ["s1", "stranger"]);
+    const [issue] = scanIntegrity(data({ sessions: [r1], tombstoneCutoff: "2026-02-01T00:00:00.000Z" }));
+    expect(issue).toMatchObject({ kind: "markWithoutStudent", recordIds: ["r1"], studentIds: ["stranger"], actions: ["removeMarks"] });
+  });
+
+  it("leaves marks for students whose tombstones were purged", () => {
+    const old = startRegister("old", "phone-a", "2026-01-05T09:00:00.000Z", ["s1", "purged"]);
+    const recent = startRegister("recent", "phone-a", "2026-03-02T09:00:00.000Z", ["s1", "fromTrash"]);
+    const issues = scanIntegrity(data({
+      sessions: [old, recent],
+      tombstoneCutoff: "2026-02-01T00:00:00.000Z",
+      purgedStudentIds: ["fromTrash"],
+    }));
+    expect(issues).toEqual([]);
+  });
+
+  it("ignores deleted records", () => {
+    const point: PointEvent = { id: "p1", studentId: "gone", classId: "c1", reason: "Effort", points: 1, createdAtISO: "2026-03-02T09:00:00.000Z", deleted: true };
+    expect(scanIntegrity(data({ points: [point] }))).toEqual([]);
+  });
+});
+
+describe("planRepair", () => {
+  it("refuses a fix the issue doesn't offer", () => {
+    const input = data({ classes: [] });
+    const [issue] = scanIntegrity(input);
+    expect(() => planRepair(issue, { action: "merge" }, input, "2026-03-02T10:00:00.000Z")).toThrow(IntegrityError);
+  });
+
+  it("keeps a real mark over the absent a later register started with", () => {
+    let r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z");
+    r1 = mark(r1, "s1", "PRESENT", "2026-03-02T09:05:00.000Z", "phone-a");
+    const r2 = startRegister("r2", "phone-b", "2026-03-02T09:10:00.000Z");
+
+    const { saves, markConflicts } = mergeDuplicates([r1, r2]);
+    const [merged, removed] = saves.sessions ?? [];
+    expect(merged.id).toBe("r2");
+    expect(merged.marks).toEqual({ s1: "PRESENT", s2: "ABSENT" });
+    expect(merged.markMeta?.s1.by).toBe("phone-a");
+    expect(removed).toMatchObject({ id: "r1", deleted: true });
+    expect(markConflicts).toEqual([]);
+  });
+
+  it("keeps a real mark over an unstamped absent", () => {
+    let r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z");
+    r1 = mark(r1, "s1", "PRESENT", "2026-03-02T09:05:00.000Z", "phone-a");
+    const r2: RegisterSession = { id: "r2", classId: "c1", startedAtISO: "2026-03-02T09:10:00.000Z", marks: { s1: "ABSENT" } };
+
+    const { saves } = mergeDuplicates([r1, r2]);
+    expect(saves.sessions?.[0].marks.s1).toBe("PRESENT");
+  });
+
+  it("reports real marks that disagree against the register that stays", () => {
+    let r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z");
+    r1 = mark(r1, "s1", "PRESENT", "2026-03-02T09:05:00.000Z", "phone-a");
+    let r2 = startRegister("r2", "phone-b", "2026-03-02T09:10:00.000Z");
+    r2 = mark(r2, "s1", "LATE", "2026-03-02T09:12:00.000Z", "phone-b");
+
+    const { saves, markConflicts } = mergeDuplicates([r1, r2]);
+    expect(saves.sessions?.[0].marks.s1).toBe("LATE");
+    expect(markConflicts).toHaveLength(1);
+    expect(markConflicts[0]).toMatchObject({ id: "r2:s1", sessionId: "r2", studentId: "s1" });
+    expect(markConflicts[0].local.status).toBe("LATE");
+    expect(markConflicts[0].remote.status).toBe("PRESENT");
+  });
+
+  it("moves points from the merged-away register to the one that stays", () => {
+    const r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z");
+    const r2 = startRegister("r2", "phone-b", "2026-03-02T09:10:00.000Z");
+    const point: PointEvent = { id: "p1", studentId: "s1", classId: "c1", reason: "Effort", points: 2, createdAtISO: "2026-03-02T09:06:00.000Z", sessionId: "r1" };
+
+    const { saves } = mergeDuplicates([r1, r2], [point]);
+    expect(saves.points).toEqual([{ ...point, sessionId: "r2" }]);
+  });
+
+  it("removes only the unknown students' marks", () => {
+    const r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z", ["s1", "stranger"]);
+    const input = data({ sessions: [r1] });
+    const [issue] = scanIntegrity(input);
+
+    const { saves } = planRepair(issue, { action: "removeMarks" }, input, "2026-03-02T10:00:00.000Z");
+    expect(saves.sessions?.map((session) => session.marks)).toEqual([{ s1: "ABSENT" }]);
+  });
+
+  it("closes all but the latest register", () => {
+    const r1 = startRegister("r1", "phone-a", "2026-03-02T09:00:00.000Z");
+    const r2 = startRegister("r2", "phone-b", "2026-03-02T09:10:00.000Z");
+    const input = data({ sessions: [r1, r2] });
+    const [issue] = scanIntegrity(input);
+
+    const { saves } = planRepair(issue, { action: "close" }, input, "2026-03-02T10:00:00.000Z");
+    expect(saves.sessions).toEqual([{ ...r1, closedAtISO: "2026-03-02T10:00:00.000Z" }]);
+  });
+});
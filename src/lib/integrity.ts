@@ -0,0 +1,315 @@
+// Checks across tables that per-record validation can't see
+// Orphans build up when a class or student is deleted on one device while
+// another still has records pointing at it, and two phones can each start a
+// register for the same lesson. scanIntegrity finds these; planRepair works
+// out the saves that fix one of them, which SyncManager makes as ordinary
+// changes so the fix syncs like any other edit.
+
+import type { AwardUnlock, DanceClass, PointEvent, RegisterSession, Student, TableName } from "./sync-manager";
+import { markConflictId, mergeSessionMarks, type MarkConflict } from "./marks";
+
+export type IntegrityKind =
+  | "studentWithoutClass"
+  | "pointWithoutStudent"
+  | "markWithoutStudent"
+  | "awardWithoutClass"
+  | "duplicateRegister";
+
+// In the order the Data Check page lists them
+export const INTEGRITY_KINDS: readonly IntegrityKind[] = [
+  "studentWithoutClass",
+  "pointWithoutStudent",
+  "markWithoutStudent",
+  "awardWithoutClass",
+  "duplicateRegister",
+];
+
+export type RepairAction = "reassign" | "delete" | "removeMarks" | "merge" | "close";
+
+export type IntegrityRepair =
+  | { action: "reassign"; classId: string }
+  | { action: "delete" }
+  | { action: "removeMarks" }
+  | { action: "merge" }
+  | { action: "close" };
+
+export interface IntegrityIssue {
+  id: string;
+  kind: IntegrityKind;
+  table: TableName;
+  // The records at fault; for duplicate registers, every open one that day, oldest first
+  recordIds: string[];
+  // The class the records belong to, or point at
+  classId: string;
+  // The missing student, or for marks every unknown student in the register
+  studentIds?: string[];
+  // Whether what's missing is in the Trash rather than gone altogether
+  inTrash?: boolean;
+  // Where reassigned records most likely belong
+  suggestedClassId?: string;
+  actions: RepairAction[];
+}
+
+// Every local record, tombstones included
+export interface IntegrityData {
+  classes: DanceClass[];
+  students: Student[];
+  sessions: RegisterSession[];
+  points: PointEvent[];
+  awards: AwardUnlock[];
+  // Registers started before this may mark students whose tombstones have since been purged
+  tombstoneCutoff?: string;
+  // Students the audit log remembers, though their records are gone
+  purgedStudentIds?: string[];
+}
+
+export type IntegrityErrorReason = "fixed" | "unavailable";
+
+// A repair that can't be made; "fixed" means the problem went away since the scan
+export class IntegrityError extends Error {
+  constructor(message: string, readonly reason: IntegrityErrorReason) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+/* ---------- SCAN ---------- */
+
+// The local calendar day, as the register page groups registers
+function dayKey(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Every cross-table problem in the data, grouped by kind in the order of
+ * INTEGRITY_KINDS. Records already deleted are never reported; records
+ * pointing at something in the Trash are, since restoring it is up to a
+ * teacher.
+ */
+export function scanIntegrity(data: IntegrityData): IntegrityIssue[] {
+  const classes = new Map(data.classes.map((c) => [c.id, c]));
+  const students = new Map(data.students.map((s) => [s.id, s]));
+  const liveClass = (id: string) => !!classes.get(id) && !classes.get(id)?.deleted;
+  const liveStudent = (id: string) => !!students.get(id) && !students.get(id)?.deleted;
+  const issues: IntegrityIssue[] = [];
+
+  for (const student of data.students) {
+    if (student.deleted || liveClass(student.classId)) continue;
+    issues.push({
+      id: `studentWithoutClass:${student.id}`,
+      kind: "studentWithoutClass",
+      table: "students",
+      recordIds: [student.id],
+      classId: student.classId,
+      inTrash: classes.has(student.classId),
+      actions: ["reassign", "delete"],
+    });
+  }
+
+  for (const point of data.points) {
+    if (point.deleted || liveStudent(point.studentId)) continue;
+    issues.push({
+      id: `pointWithoutStudent:${point.id}`,
+      kind: "pointWithoutStudent",
+      table: "points",
+      recordIds: [point.id],
+      classId: point.classId,
+      studentIds: [point.studentId],
+      inTrash: students.has(point.studentId),
+      actions: ["delete"],
+    });
+  }
+
+  // Marks for deleted students are history, purged or not; only marks for students never seen
+  // here are wrong. Removing them is offered but never done unasked, as they may be all that's
+  // left of someone
+  const purged = new Set(data.purgedStudentIds);
+  for (const session of data.sessions) {
+    if (session.deleted) continue;
+    if (data.tombstoneCutoff && session.startedAtISO < data.tombstoneCutoff) continue;
+    const unknown = Object.keys(session.marks ?? {}).filter((studentId) => !students.has(studentId) && !purged.has(studentId));
+    if (unknown.length === 0) continue;
+    issues.push({
+      id: `markWithoutStudent:${session.id}`,
+      kind: "markWithoutStudent",
+      table: "sessions",
+      recordIds: [session.id],
+      classId: session.classId,
+      studentIds: unknown,
+      actions: ["removeMarks"],
+    });
+  }
+
+  for (const award of data.awards) {
+    if (award.deleted || liveClass(award.classId)) continue;
+    const student = students.get(award.studentId);
+    const suggested = student && !student.deleted && liveClass(student.classId) ? student.classId : undefined;
+    issues.push({
+      id: `awardWithoutClass:${award.id}`,
+      kind: "awardWithoutClass",
+      table: "awards",
+      recordIds: [award.id],
+      classId: award.classId,
+      studentIds: [award.studentId],
+      inTrash: classes.has(award.classId),
+      suggestedClassId: suggested,
+      actions: ["reassign", "delete"],
+    });
+  }
+
+  const openByDay = new Map<string, RegisterSession[]>();
+  for (const session of data.sessions) {
+    if (session.deleted || session.closedAtISO) continue;
+    const key = `${session.classId}:${dayKey(session.startedAtISO)}`;
+    openByDay.set(key, [...(openByDay.get(key) ?? []), session]);
+  }
+  for (const [key, sessions] of openByDay) {
+    if (sessions.length < 2) continue;
+    const sorted = [...sessions].sort((a, b) => a.startedAtISO.localeCompare(b.startedAtISO));
+    issues.push({
+      id: `duplicateRegister:${key}`,
+      kind: "duplicateRegister",
+      table: "sessions",
+      recordIds: sorted.map((session) => session.id),
+      classId: sorted[0].classId,
+      actions: ["merge", "close"],
+    });
+  }
+
+  return issues;
+}
+
+export function countIssues(issues: IntegrityIssue[]): Record<IntegrityKind, number> {
+  const counts = Object.fromEntries(INTEGRITY_KINDS.map((kind) => [kind, 0])) as Record<IntegrityKind, number>;
+  for (const issue of issues) counts[issue.kind]++;
+  return counts;
+}
+
+/* ---------- REPAIR ---------- */
+
+export type RepairSaves = Partial<{
+  classes: DanceClass[];
+  students: Student[];
+  sessions: RegisterSession[];
+  points: PointEvent[];
+  awards: AwardUnlock[];
+}>;
+
+export interface RepairPlan {
+  saves: RepairSaves;
+  // Students the merged registers marked differently without either teacher seeing the other's mark
+  markConflicts: MarkConflict[];
+}
+
+function pick<T extends { id: string }>(records: T[], ids: string[]): T[] {
+  return ids.flatMap((id) => records.filter((record) => record.id === id));
+}
+
+// Registers start with everyone absent; a mark nobody has changed since is only that default
+function isDefaultMark(session: RegisterSession, studentId: string): boolean {
+  if (!session.markMeta?.[studentId]) return true;
+  return session.marks[studentId] === "ABSENT" && (session.markHistory?.[studentId]?.length ?? 0) <= 1;
+}
+
+// Drops the defaults for students another register really marked, so they can't win by being saved later
+function withoutDefaults(session: RegisterSession, marked: Set<string>): RegisterSession {
+  const marks = { ...session.marks };
+  const markMeta = { ...(session.markMeta ?? {}) };
+  for (const studentId of Object.keys(session.marks ?? {})) {
+    if (!marked.has(studentId) || !isDefaultMark(session, studentId)) continue;
+    delete marks[studentId];
+    delete markMeta[studentId];
+  }
+  return { ...session, marks, markMeta };
+}
+
+/**
+ * The records to save to fix one issue. Deletes send records to the Trash.
+ * Merging keeps the latest of the duplicate registers, takes each student's
+ * latest real mark from all of them, moves their points over and deletes the
+ * rest; closing closes all but the latest.
+ */
+export function planRepair(issue: IntegrityIssue, repair: IntegrityRepair, data: IntegrityData, now: string): RepairPlan {
+  if (!issue.actions.includes(repair.action)) {
+    throw new IntegrityError("That fix isn't offered for this problem", "unavailable");
+  }
+  if (issue.kind === "duplicateRegister" && repair.action === "merge") return mergeRegisters(issue, data, now);
+  return { saves: planSaves(issue, repair, data, now), markConflicts: [] };
+}
+
+function planSaves(issue: IntegrityIssue, repair: IntegrityRepair, data: IntegrityData, now: string): RepairSaves {
+  switch (issue.kind) {
+    case "studentWithoutClass": {
+      const students = pick(data.students, issue.recordIds);
+      if (repair.action === "delete") return { students: students.map((s) => ({ ...s, deleted: true })) };
+      return { students: students.map((s) => ({ ...s, classId: reassignTarget(repair, data) })) };
+    }
+
+    case "pointWithoutStudent":
+      return { points: pick(data.points, issue.recordIds).map((p) => ({ ...p, deleted: true })) };
+
+    // The register is saved without them, so saveChanges() stamps each removal like any mark change
+    case "markWithoutStudent": {
+      const unknown = new Set(issue.studentIds);
+      return {
+        sessions: pick(data.sessions, issue.recordIds).map((session) => ({
+          ...session,
+          marks: Object.fromEntries(Object.entries(session.marks ?? {}).filter(([studentId]) => !unknown.has(studentId))),
+        })),
+      };
+    }
+
+    case "awardWithoutClass": {
+      const awards = pick(data.awards, issue.recordIds);
+      if (repair.action === "delete") return { awards: awards.map((a) => ({ ...a, deleted: true })) };
+      return { awards: awards.map((a) => ({ ...a, classId: reassignTarget(repair, data) })) };
+    }
+
+    // Merging is planned by mergeRegisters
+    case "duplicateRegister": {
+      const others = pick(data.sessions, issue.recordIds).slice(0, -1);
+      return { sessions: others.map((session) => ({ ...session, closedAtISO: now })) };
+    }
+  }
+}
+
+function mergeRegisters(issue: IntegrityIssue, data: IntegrityData, now: string): RepairPlan {
+  const sessions = pick(data.sessions, issue.recordIds);
+  const kept = sessions[sessions.length - 1];
+  const others = sessions.slice(0, -1);
+
+  const marked = new Set(
+    sessions.flatMap((session) => Object.keys(session.marks ?? {}).filter((studentId) => !isDefaultMark(session, studentId)))
+  );
+  const conflicts = new Map<string, MarkConflict>();
+  let merged = withoutDefaults(kept, marked);
+  for (const other of others) {
+    const result = mergeSessionMarks(merged, withoutDefaults(other, marked), now);
+    merged = { ...merged, marks: result.marks, markMeta: result.markMeta, markHistory: result.markHistory };
+    // Reported against the register that stays
+    for (const conflict of result.conflicts) {
+      const id = markConflictId(kept.id, conflict.studentId);
+      conflicts.set(id, { ...conflict, id, sessionId: kept.id });
+    }
+  }
+
+  const otherIds = new Set(others.map((session) => session.id));
+  return {
+    saves: {
+      sessions: [merged, ...others.map((session) => ({ ...session, deleted: true }))],
+      points: data.points
+        .filter((point) => !point.deleted && point.sessionId && otherIds.has(point.sessionId))
+        .map((point) => ({ ...point, sessionId: kept.id })),
+    },
+    markConflicts: [...conflicts.values()],
+  };
+}
+
+function reassignTarget(repair: IntegrityRepair, data: IntegrityData): string {
+  const classId = repair.action === "reassign" ? repair.classId : "";
+  if (!data.classes.some((c) => c.id === classId && !c.deleted)) {
+    throw new IntegrityError("Pick a class that still exists", "unavailable");
+  }
+  return classId;
+}
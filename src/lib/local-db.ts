@@ -0,0 +1,357 @@
+// IndexedDB storage for the sync manager (via Dexie)
+// One table per entity, replacing the old bb_* localStorage arrays
+
+import Dexie, { type Table } from "dexie";
+import type { DanceClass, Student, RegisterSession, PointEvent, AwardUnlock, TableName } from "./sync-manager";
+import type { MarkConflict } from "./marks";
+import type { RecordConflict } from "./conflicts";
+import type {
+  AuditEntry,
+  LocalSnapshot,
+  LocalStore,
+  MetaEntry,
+  OutboxEntry,
+  QuarantineEntry,
+  SnapshotInfo,
+  StoredRecord,
+} from "./local-store";
+
+const DB_NAME = "bollywood-beatz";
+
+// Each studio gets its own database; the unsuffixed one holds data kept on this device only
+export function localDatabaseName(studioId: string | null): string {
+  return studioId ? `${DB_NAME}:${studioId}` : DB_NAME;
+}
+
+// Every partition on this device, for the service worker to flush
+export async function listLocalDatabaseNames(): Promise<string[]> {
+  const names = await Dexie.getDatabaseNames();
+  return names.filter(name => name === DB_NAME || name.startsWith(`${DB_NAME}:`));
+}
+
+// Legacy localStorage keys, migrated into IndexedDB on first run
+const LEGACY_KEYS = {
+  classes: "bb_classes",
+  students: "bb_students",
+  sessions: "bb_sessions",
+  points: "bb_points",
+  awards: "bb_awards",
+} as const;
+
+const META_MIGRATED = "migratedFromLocalStorage";
+
+export const ENTITY_TABLES = ["classes", "students", "sessions", "points", "awards"] as const;
+
+export class LocalDatabase extends Dexie {
+  classes!: Table<DanceClass, string>;
+  students!: Table<Student, string>;
+  sessions!: Table<RegisterSession, string>;
+  points!: Table<PointEvent, string>;
+  awards!: Table<AwardUnlock, string>;
+  meta!: Table<MetaEntry, string>;
+  outbox!: Table<OutboxEntry, [string, string]>;
+  markConflicts!: Table<MarkConflict, string>;
+  recordConflicts!: Table<RecordConflict, string>;
+  quarantine!: Table<QuarantineEntry, string>;
+  audit!: Table<AuditEntry, string>;
+  snapshots!: Table<LocalSnapshot, string>;
+
+  constructor(name: string = DB_NAME) {
+    super(name);
+
+    this.version(1).stores({
+      classes: "id",
+      students: "id, classId",
+      sessions: "id, classId, startedAtISO",
+      points: "id, studentId, classId, sessionId",
+      awards: "id, studentId, classId",
+      meta: "key",
+    });
+
+    this.version(2).stores({
+      outbox: "[table+recordId], table, queuedAt",
+    }).upgrade(async tx => {
+      // Queue anything that was never confirmed as synced under the old scheme
+      const queuedAt = new Date().toISOString();
+      for (const table of ENTITY_TABLES) {
+        const unsynced = await tx.table(table).filter(item => !item.synced).toArray();
+        await tx.table("outbox").bulkPut(unsynced.map(item => ({
+          table,
+          recordId: item.id,
+          op: item.deleted ? "delete" : "update",
+          queuedAt,
+        })));
+      }
+    });
+
+    this.version(3).stores({
+      markConflicts: "id, sessionId",
+    });
+
+    this.version(4).stores({
+      quarantine: "id, table",
+    });
+
+    this.version(5).stores({
+      audit: "id, [table+recordId], at",
+    });
+
+    this.version(6).stores({
+      snapshots: "id, takenAt",
+    });
+
+    this.version(7).stores({
+      recordConflicts: "id, table",
+    });
+  }
+}
+
+function readLegacyKey<T extends { id: string }>(key: string): T[] {
+  try {
+    const items = JSON.parse(localStorage.getItem(key) || "[]");
+    if (!Array.isArray(items)) return [];
+    // Skip anything without a usable primary key
+    return items.filter((item: T) => item && typeof item.id === "string");
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Copy any existing bb_* localStorage arrays into IndexedDB.
+ * Runs once per browser; the old keys are left in place as a fallback copy.
+ */
+export async function migrateFromLocalStorage(db: LocalDatabase): Promise<void> {
+  const done = await db.meta.get(META_MIGRATED);
+  if (done) return;
+
+  const tables = [db.classes, db.students, db.sessions, db.points, db.awards, db.meta, db.outbox];
+  await db.transaction("rw", tables, async () => {
+    const queuedAt = new Date().toISOString();
+    const copy = async <T extends { id: string; synced?: boolean; deleted?: boolean }>(
+      table: Table<T, string>,
+      items: T[]
+    ) => {
+      await table.bulkPut(items);
+      // Anything the old code never confirmed as synced still needs uploading
+      await db.outbox.bulkPut(items.filter(item => !item.synced).map(item => ({
+        table: table.name,
+        recordId: item.id,
+        op: item.deleted ? "delete" : "update",
+        queuedAt,
+      })));
+    };
+
+    await copy(db.classes, readLegacyKey<DanceClass>(LEGACY_KEYS.classes));
+    await copy(db.students, readLegacyKey<Student>(LEGACY_KEYS.students));
+    await copy(db.sessions, readLegacyKey<RegisterSession>(LEGACY_KEYS.sessions));
+    await copy(db.points, readLegacyKey<PointEvent>(LEGACY_KEYS.points));
+    await copy(db.awards, readLegacyKey<AwardUnlock>(LEGACY_KEYS.awards));
+    await db.meta.put({ key: META_MIGRATED, value: queuedAt });
+  });
+}
+
+// LocalStore over the Dexie database
+export class IndexedDbStore implements LocalStore {
+  private opened = false;
+
+  // `opening` (e.g. the localStorage migration) finishes before any read or write
+  constructor(private db: LocalDatabase, private opening: Promise<void> = Promise.resolve()) {}
+
+  private async whenOpen(): Promise<void> {
+    // Never awaited inside a transaction: by then the store is open
+    if (this.opened) return;
+    await this.opening;
+    this.opened = true;
+  }
+
+  private entities<T extends StoredRecord>(table: TableName): Table<T, string> {
+    return this.db.table<T, string>(table);
+  }
+
+  async getAll<T extends StoredRecord>(table: TableName): Promise<T[]> {
+    await this.whenOpen();
+    return this.entities<T>(table).toArray();
+  }
+
+  async bulkGet<T extends StoredRecord>(table: TableName, ids: string[]): Promise<(T | undefined)[]> {
+    await this.whenOpen();
+    return this.entities<T>(table).bulkGet(ids);
+  }
+
+  async bulkPut<T extends StoredRecord>(table: TableName, records: T[]): Promise<void> {
+    await this.whenOpen();
+    await this.entities<T>(table).bulkPut(records);
+  }
+
+  async bulkDelete(table: TableName, ids: string[]): Promise<void> {
+    await this.whenOpen();
+    await this.entities(table).bulkDelete(ids);
+  }
+
+  async getOutbox(table: TableName): Promise<OutboxEntry[]> {
+    await this.whenOpen();
+    return this.db.outbox.where("table").equals(table).sortBy("queuedAt");
+  }
+
+  async getOutboxEntry(table: TableName, recordId: string): Promise<OutboxEntry | undefined> {
+    await this.whenOpen();
+    return this.db.outbox.get([table, recordId]);
+  }
+
+  async putOutboxEntries(entries: OutboxEntry[]): Promise<void> {
+    await this.whenOpen();
+    await this.db.outbox.bulkPut(entries);
+  }
+
+  async deleteOutboxEntry(table: TableName, recordId: string): Promise<void> {
+    await this.whenOpen();
+    await this.db.outbox.delete([table, recordId]);
+  }
+
+  async countOutbox(table: TableName): Promise<number> {
+    await this.whenOpen();
+    return this.db.outbox.where("table").equals(table).count();
+  }
+
+  async getMeta(key: string): Promise<unknown> {
+    await this.whenOpen();
+    return (await this.db.meta.get(key))?.value;
+  }
+
+  async setMeta(key: string, value: unknown): Promise<void> {
+    await this.whenOpen();
+    await this.db.meta.put({ key, value });
+  }
+
+  async deleteMeta(key: string): Promise<void> {
+    await this.whenOpen();
+    await this.db.meta.delete(key);
+  }
+
+  async getMarkConflicts(sessionId?: string): Promise<MarkConflict[]> {
+    await this.whenOpen();
+    return sessionId
+      ? this.db.markConflicts.where("sessionId").equals(sessionId).toArray()
+      : this.db.markConflicts.toArray();
+  }
+
+  async getMarkConflict(id: string): Promise<MarkConflict | undefined> {
+    await this.whenOpen();
+    return this.db.markConflicts.get(id);
+  }
+
+  async putMarkConflicts(conflicts: MarkConflict[]): Promise<void> {
+    await this.whenOpen();
+    await this.db.markConflicts.bulkPut(conflicts);
+  }
+
+  async deleteMarkConflict(id: string): Promise<void> {
+    await this.whenOpen();
+    await this.db.markConflicts.delete(id);
+  }
+
+  async getRecordConflicts(): Promise<RecordConflict[]> {
+    await this.whenOpen();
+    return this.db.recordConflicts.toArray();
+  }
+
+  async getRecordConflict(id: string): Promise<RecordConflict | undefined> {
+    await this.whenOpen();
+    return this.db.recordConflicts.get(id);
+  }
+
+  async putRecordConflicts(conflicts: RecordConflict[]): Promise<void> {
+    await this.whenOpen();
+    await this.db.recordConflicts.bulkPut(conflicts);
+  }
+
+  async deleteRecordConflict(id: string): Promise<void> {
+    await this.whenOpen();
+    await this.db.recordConflicts.delete(id);
+  }
+
+  async getQuarantine(): Promise<QuarantineEntry[]> {
+    await this.whenOpen();
+    return this.db.quarantine.toArray();
+  }
+
+  async getQuarantineEntry(id: string): Promise<QuarantineEntry | undefined> {
+    await this.whenOpen();
+    return this.db.quarantine.get(id);
+  }
+
+  async putQuarantine(entries: QuarantineEntry[]): Promise<void> {
+    await this.whenOpen();
+    await this.db.quarantine.bulkPut(entries);
+  }
+
+  async deleteQuarantineEntry(id: string): Promise<void> {
+    await this.whenOpen();
+    await this.db.quarantine.delete(id);
+  }
+
+  async getAuditLog(table: TableName, recordId: string): Promise<AuditEntry[]> {
+    await this.whenOpen();
+    return this.db.audit.where("[table+recordId]").equals([table, recordId]).sortBy("at");
+  }
+
+  async getAuditEntry(id: string): Promise<AuditEntry | undefined> {
+    await this.whenOpen();
+    return this.db.audit.get(id);
+  }
+
+  async putAuditEntries(entries: AuditEntry[]): Promise<void> {
+    await this.whenOpen();
+    await this.db.audit.bulkPut(entries);
+  }
+
+  async pruneAuditLog(before: string): Promise<number> {
+    await this.whenOpen();
+    return this.db.audit.where("at").below(before).delete();
+  }
+
+  async getSnapshots(): Promise<SnapshotInfo[]> {
+    await this.whenOpen();
+    const snapshots = await this.db.snapshots.orderBy("takenAt").reverse().toArray();
+    return snapshots.map(({ id, takenAt, reason, counts, size }) => ({ id, takenAt, reason, counts, size }));
+  }
+
+  async getSnapshot(id: string): Promise<LocalSnapshot | undefined> {
+    await this.whenOpen();
+    return this.db.snapshots.get(id);
+  }
+
+  async putSnapshot(snapshot: LocalSnapshot): Promise<void> {
+    await this.whenOpen();
+    await this.db.snapshots.put(snapshot);
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    await this.whenOpen();
+    await this.db.snapshots.bulkDelete(ids);
+  }
+
+  async transaction<R>(work: () => Promise<R>): Promise<R> {
+    await this.whenOpen();
+    return this.db.transaction("rw", this.db.tables, work);
+  }
+}
+
+/**
+ * Open a studio's IndexedDB store (null for data kept on this device only).
+ * Legacy localStorage data predates studios, so it's moved into the latter.
+ * Returns null outside the browser (server rendering) or when IndexedDB is
+ * unavailable.
+ */
+export function openIndexedDbStore(studioId: string | null = null): IndexedDbStore | null {
+  if (typeof window === "undefined" || typeof indexedDB === "undefined") return null;
+
+  const db = new LocalDatabase(localDatabaseName(studioId));
+  if (studioId) return new IndexedDbStore(db);
+
+  const migrated = migrateFromLocalStorage(db).catch(error => {
+    console.error("Failed to migrate localStorage data:", error);
+  });
+  return new IndexedDbStore(db, migrated);
+}
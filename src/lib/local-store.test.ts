@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { LocalStorageStore } from "./local-store";
+
+// The part of window.localStorage the store uses, shared by every "tab" in a test
+function sharedStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe("LocalStorageStore.reload", () => {
+  it("sees what another tab saved", async () => {
+    const storage = sharedStorage();
+    const tabA = new LocalStorageStore(storage);
+    const tabB = new LocalStorageStore(storage);
+    await tabB.getAll("classes");
+
+    await tabA.bulkPut("classes", [{ id: "c1", name: "Ballet", synced: false }]);
+    await tabA.putOutboxEntries([{ table: "classes", recordId: "c1", op: "create", queuedAt: "2026-03-02T09:00:00.000Z" }]);
+    expect(await tabB.getAll("classes")).toEqual([]);
+
+    await tabB.reload();
+    expect(await tabB.getAll("classes")).toEqual([{ id: "c1", name: "Ballet", synced: false }]);
+    expect(await tabB.getOutbox("classes")).toHaveLength(1);
+  });
+
+  it("drops records another tab removed", async () => {
+    const storage = sharedStorage();
+    const tabA = new LocalStorageStore(storage);
+    await tabA.bulkPut("classes", [{ id: "c1", name: "Ballet", synced: true }]);
+    const tabB = new LocalStorageStore(storage);
+
+    await tabA.bulkDelete("classes", ["c1"]);
+    await tabB.reload();
+    expect(await tabB.getAll("classes")).toEqual([]);
+  });
+});
@@ -0,0 +1,469 @@
+// Where the sync manager keeps data on this device
+// IndexedDB in the browser (see local-db.ts); memory and localStorage
+// versions for Node scripts, tests and browsers without IndexedDB
+
+import type { TableName, TeacherRef } from "./sync-manager";
+import type { MarkConflict } from "./marks";
+import type { RecordConflict } from "./conflicts";
+
+export interface MetaEntry {
+  key: string;
+  value: unknown;
+}
+
+export type OutboxOp = "create" | "update" | "delete";
+
+// One pending change per record, drained by syncToCloud
+export interface OutboxEntry {
+  table: string;
+  recordId: string;
+  op: OutboxOp;
+  queuedAt: string;
+  // The clock stamp of the queued change; unlike queuedAt, a change queued again always gets a new one
+  hlc?: string;
+  // The server's copy the change was made on, to tell a concurrent edit from a stale echo
+  base?: StoredRecord;
+}
+
+export type StoredRecord = { id: string };
+
+// Where a quarantined record was caught
+export type QuarantineSource = "local" | "remote" | "save" | "transfer";
+
+// A record that failed its schema check, kept aside until a teacher repairs or discards it
+export interface QuarantineEntry {
+  id: string;
+  table: TableName;
+  recordId?: string;
+  record: unknown;
+  problems: string[];
+  source: QuarantineSource;
+  quarantinedAt: string;
+}
+
+// Where an audited change came from: a save here, a pull from another device, a revert, a backup file or a snapshot
+export type AuditSource = "local" | "remote" | "revert" | "backup" | "snapshot" | "transfer" | "conflict" | "repair";
+
+// One field that changed; nested maps such as register marks are split into "marks.<studentId>"
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One change to one record, with the whole record before and after; entries are only ever added
+export interface AuditEntry {
+  id: string;
+  table: TableName;
+  recordId: string;
+  op: OutboxOp;
+  source: AuditSource;
+  at: string;
+  // The device and teacher that saved it; unknown for changes pulled from elsewhere
+  deviceId?: string;
+  teacher?: TeacherRef;
+  before: unknown | null;
+  after: unknown;
+  changes: FieldChange[];
+}
+
+// Why a snapshot of the local data was taken: the daily one, on request, or before something destructive
+export type SnapshotReason = "daily" | "manual" | "cleanup" | "migration" | "restore" | "rollback" | "purge";
+
+// What the snapshots screen lists, without the data itself
+export interface SnapshotInfo {
+  id: string;
+  takenAt: string;
+  reason: SnapshotReason;
+  // Records per table, tombstones left out
+  counts: Record<TableName, number>;
+  // Stored size of the data, in characters
+  size: number;
+}
+
+// A compressed copy of all local data; "gzip" data is base64, "json" is for browsers that can't compress
+export interface LocalSnapshot extends SnapshotInfo {
+  encoding: "gzip" | "json";
+  data: string;
+}
+
+export interface LocalStore {
+  // Entity rows, tombstones included
+  getAll<T extends StoredRecord>(table: TableName): Promise<T[]>;
+  bulkGet<T extends StoredRecord>(table: TableName, ids: string[]): Promise<(T | undefined)[]>;
+  bulkPut<T extends StoredRecord>(table: TableName, records: T[]): Promise<void>;
+  bulkDelete(table: TableName, ids: string[]): Promise<void>;
+
+  // Outbox entries for one table, oldest first
+  getOutbox(table: TableName): Promise<OutboxEntry[]>;
+  getOutboxEntry(table: TableName, recordId: string): Promise<OutboxEntry | undefined>;
+  putOutboxEntries(entries: OutboxEntry[]): Promise<void>;
+  deleteOutboxEntry(table: TableName, recordId: string): Promise<void>;
+  countOutbox(table: TableName): Promise<number>;
+
+  // Sync bookkeeping: watermarks, last sync times, recorded errors
+  getMeta(key: string): Promise<unknown>;
+  setMeta(key: string, value: unknown): Promise<void>;
+  deleteMeta(key: string): Promise<void>;
+
+  getMarkConflicts(sessionId?: string): Promise<MarkConflict[]>;
+  getMarkConflict(id: string): Promise<MarkConflict | undefined>;
+  putMarkConflicts(conflicts: MarkConflict[]): Promise<void>;
+  deleteMarkConflict(id: string): Promise<void>;
+
+  getRecordConflicts(): Promise<RecordConflict[]>;
+  getRecordConflict(id: string): Promise<RecordConflict | undefined>;
+  putRecordConflicts(conflicts: RecordConflict[]): Promise<void>;
+  deleteRecordConflict(id: string): Promise<void>;
+
+  getQuarantine(): Promise<QuarantineEntry[]>;
+  getQuarantineEntry(id: string): Promise<QuarantineEntry | undefined>;
+  putQuarantine(entries: QuarantineEntry[]): Promise<void>;
+  deleteQuarantineEntry(id: string): Promise<void>;
+
+  // Audit log, oldest first; there is deliberately no way to change an entry,
+  // and entries only go once they're older than the tombstone retention window
+  getAuditLog(table: TableName, recordId: string): Promise<AuditEntry[]>;
+  getAuditEntry(id: string): Promise<AuditEntry | undefined>;
+  putAuditEntries(entries: AuditEntry[]): Promise<void>;
+  // Resolves to how many entries were removed
+  pruneAuditLog(before: string): Promise<number>;
+
+  // Snapshots, newest first
+  getSnapshots(): Promise<SnapshotInfo[]>;
+  getSnapshot(id: string): Promise<LocalSnapshot | undefined>;
+  putSnapshot(snapshot: LocalSnapshot): Promise<void>;
+  deleteSnapshots(ids: string[]): Promise<void>;
+
+  /**
+   * Run `work` as one unit: if it throws, none of its writes are kept.
+   * Only this store's methods may be awaited inside `work`.
+   */
+  transaction<R>(work: () => Promise<R>): Promise<R>;
+
+  // Re-read storage another tab may have written to; only stores that keep their own copy need it
+  reload?(): Promise<void>;
+}
+
+// Everything a map-backed store holds, keyed the same way IndexedDB keys it
+type Collections = {
+  entities: Map<string, Map<string, StoredRecord>>;
+  outbox: Map<string, OutboxEntry>;
+  meta: Map<string, unknown>;
+  markConflicts: Map<string, MarkConflict>;
+  recordConflicts: Map<string, RecordConflict>;
+  quarantine: Map<string, QuarantineEntry>;
+  audit: Map<string, AuditEntry>;
+  snapshots: Map<string, LocalSnapshot>;
+};
+
+type CollectionName = keyof Collections;
+
+function outboxKey(table: string, recordId: string): string {
+  return `${table}\u0000${recordId}`;
+}
+
+/**
+ * Keeps everything in memory. Records are copied in and out, as IndexedDB
+ * does, so callers can't change stored data by mutating what they read.
+ */
+export class MemoryStore implements LocalStore {
+  protected data: Collections = {
+    entities: new Map(),
+    outbox: new Map(),
+    meta: new Map(),
+    markConflicts: new Map(),
+    recordConflicts: new Map(),
+    quarantine: new Map(),
+    audit: new Map(),
+    snapshots: new Map(),
+  };
+  // Undo steps for the running transaction, and what it wrote to
+  private journal: (() => void)[] | null = null;
+  private dirty = new Set<CollectionName>();
+  private lock: Promise<unknown> = Promise.resolve();
+
+  private entityMap(table: TableName): Map<string, StoredRecord> {
+    let map = this.data.entities.get(table);
+    if (!map) {
+      map = new Map();
+      this.data.entities.set(table, map);
+    }
+    return map;
+  }
+
+  // Write one key, remembering the old value in case the transaction fails
+  private write<V>(collection: CollectionName, map: Map<string, V>, key: string, value: V | undefined): void {
+    if (this.journal) {
+      const had = map.has(key);
+      const old = map.get(key);
+      this.journal.push(() => {
+        if (had) map.set(key, old as V);
+        else map.delete(key);
+      });
+    }
+
+    if (value === undefined) map.delete(key);
+    else map.set(key, structuredClone(value));
+
+    if (this.journal) this.dirty.add(collection);
+    else this.persist?.(collection);
+  }
+
+  // Implemented by stores that keep a copy elsewhere
+  protected persist?(collection: CollectionName): void;
+
+  async getAll<T extends StoredRecord>(table: TableName): Promise<T[]> {
+    return [...this.entityMap(table).values()].map(record => structuredClone(record) as T);
+  }
+
+  async bulkGet<T extends StoredRecord>(table: TableName, ids: string[]): Promise<(T | undefined)[]> {
+    const map = this.entityMap(table);
+    return ids.map(id => {
+      const record = map.get(id);
+      return record ? structuredClone(record) as T : undefined;
+    });
+  }
+
+  async bulkPut<T extends StoredRecord>(table: TableName, records: T[]): Promise<void> {
+    const map = this.entityMap(table);
+    for (const record of records) this.write("entities", map, record.id, record);
+  }
+
+  async bulkDelete(table: TableName, ids: string[]): Promise<void> {
+    const map = this.entityMap(table);
+    for (const id of ids) this.write("entities", map, id, undefined);
+  }
+
+  async getOutbox(table: TableName): Promise<OutboxEntry[]> {
+    return [...this.data.outbox.values()]
+      .filter(entry => entry.table === table)
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+      .map(entry => ({ ...entry }));
+  }
+
+  async getOutboxEntry(table: TableName, recordId: string): Promise<OutboxEntry | undefined> {
+    const entry = this.data.outbox.get(outboxKey(table, recordId));
+    return entry ? { ...entry } : undefined;
+  }
+
+  async putOutboxEntries(entries: OutboxEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.write("outbox", this.data.outbox, outboxKey(entry.table, entry.recordId), entry);
+    }
+  }
+
+  async deleteOutboxEntry(table: TableName, recordId: string): Promise<void> {
+    this.write("outbox", this.data.outbox, outboxKey(table, recordId), undefined);
+  }
+
+  async countOutbox(table: TableName): Promise<number> {
+    let count = 0;
+    for (const entry of this.data.outbox.values()) {
+      if (entry.table === table) count++;
+    }
+    return count;
+  }
+
+  async getMeta(key: string): Promise<unknown> {
+    const value = this.data.meta.get(key);
+    return value === undefined ? undefined : structuredClone(value);
+  }
+
+  async setMeta(key: string, value: unknown): Promise<void> {
+    this.write("meta", this.data.meta, key, value);
+  }
+
+  async deleteMeta(key: string): Promise<void> {
+    this.write("meta", this.data.meta, key, undefined);
+  }
+
+  async getMarkConflicts(sessionId?: string): Promise<MarkConflict[]> {
+    return [...this.data.markConflicts.values()]
+      .filter(conflict => !sessionId || conflict.sessionId === sessionId)
+      .map(conflict => structuredClone(conflict));
+  }
+
+  async getMarkConflict(id: string): Promise<MarkConflict | undefined> {
+    const conflict = this.data.markConflicts.get(id);
+    return conflict ? structuredClone(conflict) : undefined;
+  }
+
+  async putMarkConflicts(conflicts: MarkConflict[]): Promise<void> {
+    for (const conflict of conflicts) {
+      this.write("markConflicts", this.data.markConflicts, conflict.id, conflict);
+    }
+  }
+
+  async deleteMarkConflict(id: string): Promise<void> {
+    this.write("markConflicts", this.data.markConflicts, id, undefined);
+  }
+
+  async getRecordConflicts(): Promise<RecordConflict[]> {
+    return [...this.data.recordConflicts.values()].map(conflict => structuredClone(conflict));
+  }
+
+  async getRecordConflict(id: string): Promise<RecordConflict | undefined> {
+    const conflict = this.data.recordConflicts.get(id);
+    return conflict ? structuredClone(conflict) : undefined;
+  }
+
+  async putRecordConflicts(conflicts: RecordConflict[]): Promise<void> {
+    for (const conflict of conflicts) {
+      this.write("recordConflicts", this.data.recordConflicts, conflict.id, conflict);
+    }
+  }
+
+  async deleteRecordConflict(id: string): Promise<void> {
+    this.write("recordConflicts", this.data.recordConflicts, id, undefined);
+  }
+
+  async getQuarantine(): Promise<QuarantineEntry[]> {
+    return [...this.data.quarantine.values()].map(entry => structuredClone(entry));
+  }
+
+  async getQuarantineEntry(id: string): Promise<QuarantineEntry | undefined> {
+    const entry = this.data.quarantine.get(id);
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  async putQuarantine(entries: QuarantineEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.write("quarantine", this.data.quarantine, entry.id, entry);
+    }
+  }
+
+  async deleteQuarantineEntry(id: string): Promise<void> {
+    this.write("quarantine", this.data.quarantine, id, undefined);
+  }
+
+  async getAuditLog(table: TableName, recordId: string): Promise<AuditEntry[]> {
+    return [...this.data.audit.values()]
+      .filter(entry => entry.table === table && entry.recordId === recordId)
+      .sort((a, b) => a.at.localeCompare(b.at))
+      .map(entry => structuredClone(entry));
+  }
+
+  async getAuditEntry(id: string): Promise<AuditEntry | undefined> {
+    const entry = this.data.audit.get(id);
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  async putAuditEntries(entries: AuditEntry[]): Promise<void> {
+    for (const entry of entries) {
+      this.write("audit", this.data.audit, entry.id, entry);
+    }
+  }
+
+  async pruneAuditLog(before: string): Promise<number> {
+    const expired = [...this.data.audit.values()].filter(entry => entry.at < before);
+    for (const entry of expired) {
+      this.write("audit", this.data.audit, entry.id, undefined);
+    }
+    return expired.length;
+  }
+
+  async getSnapshots(): Promise<SnapshotInfo[]> {
+    return [...this.data.snapshots.values()]
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt))
+      .map(({ id, takenAt, reason, counts, size }) => structuredClone({ id, takenAt, reason, counts, size }));
+  }
+
+  async getSnapshot(id: string): Promise<LocalSnapshot | undefined> {
+    const snapshot = this.data.snapshots.get(id);
+    return snapshot ? structuredClone(snapshot) : undefined;
+  }
+
+  async putSnapshot(snapshot: LocalSnapshot): Promise<void> {
+    this.write("snapshots", this.data.snapshots, snapshot.id, snapshot);
+  }
+
+  async deleteSnapshots(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.write("snapshots", this.data.snapshots, id, undefined);
+    }
+  }
+
+  // Transactions run one at a time; a failed one is undone step by step
+  async transaction<R>(work: () => Promise<R>): Promise<R> {
+    const run = this.lock.then(async () => {
+      const journal: (() => void)[] = [];
+      this.journal = journal;
+
+      try {
+        return await work();
+      } catch (error) {
+        journal.reverse().forEach(undo => undo());
+        this.dirty.clear();
+        throw error;
+      } finally {
+        this.journal = null;
+        this.dirty.forEach(collection => this.persist?.(collection));
+        this.dirty.clear();
+      }
+    });
+
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+const LOCAL_STORAGE_PREFIX = "bb_store:";
+
+// Each studio's data is kept under its own keys; null is data kept on this device only
+export function localStoragePrefix(studioId: string | null): string {
+  return studioId ? `${LOCAL_STORAGE_PREFIX}${studioId}:` : LOCAL_STORAGE_PREFIX;
+}
+
+/**
+ * A MemoryStore that saves each collection to localStorage as JSON.
+ * For browsers without IndexedDB; everything is held in memory while the
+ * app runs, so it suits small studios only. Other tabs write the same keys,
+ * so the copy in memory is read again whenever one says it saved.
+ */
+export class LocalStorageStore extends MemoryStore {
+  constructor(private storage: Storage = localStorage, private prefix = LOCAL_STORAGE_PREFIX) {
+    super();
+    this.load();
+  }
+
+  // Waits for any running transaction, so its writes aren't swapped out from under it
+  async reload(): Promise<void> {
+    await this.transaction(async () => this.load());
+  }
+
+  private load(): void {
+    const read = <V>(collection: CollectionName): [string, V][] => {
+      try {
+        const parsed = JSON.parse(this.storage.getItem(`${this.prefix}${collection}`) || "[]");
+        return Array.isArray(parsed) ? parsed : [];
+      } catch {
+        return [];
+      }
+    };
+
+    this.data.entities = new Map();
+    for (const [table, rows] of read<[string, StoredRecord][]>("entities")) {
+      this.data.entities.set(table, new Map(rows));
+    }
+    this.data.outbox = new Map(read<OutboxEntry>("outbox"));
+    this.data.meta = new Map(read<unknown>("meta"));
+    this.data.markConflicts = new Map(read<MarkConflict>("markConflicts"));
+    this.data.recordConflicts = new Map(read<RecordConflict>("recordConflicts"));
+    this.data.quarantine = new Map(read<QuarantineEntry>("quarantine"));
+    this.data.audit = new Map(read<AuditEntry>("audit"));
+    this.data.snapshots = new Map(read<LocalSnapshot>("snapshots"));
+  }
+
+  protected persist(collection: CollectionName): void {
+    const entries = collection === "entities"
+      ? [...this.data.entities].map(([table, rows]) => [table, [...rows]])
+      : [...this.data[collection]];
+
+    try {
+      this.storage.setItem(`${this.prefix}${collection}`, JSON.stringify(entries));
+    } catch (error) {
+      console.error(`Failed to save ${collection} to localStorage:`, error);
+    }
+  }
+}
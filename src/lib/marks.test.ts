@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { mergeSessionMarks, stampMarkChanges } from "./marks";
+import type { MarkMeta, MarkStatus, RegisterSession } from "./sync-manager";
+
+const DETECTED_AT = "2026-03-02T10:00:00.000Z";
+
+function register(marks: Record<string, MarkStatus>, markMeta: Record<string, MarkMeta> = {}): RegisterSession {
+  return { id: "r1", classId: "c1", startedAtISO: "2026-03-02T09:00:00.000Z", marks, markMeta };
+}
+
+describe("mergeSessionMarks", () => {
+  it("keeps the later mark for each student and every student from both sides", () => {
+    const local = register(
+      { s1: "PRESENT", s2: "LATE" },
+      { s1: { at: "2026-03-02T09:05:00.000Z", by: "phone-a" }, s2: { at: "2026-03-02T09:01:00.000Z", by: "phone-a" } }
+    );
+    const remote = register(
+      { s2: "EXCUSED", s3: "ABSENT" },
+      { s2: { at: "2026-03-02T09:06:00.000Z", by: "phone-a" }, s3: { at: "2026-03-02T09:02:00.000Z", by: "phone-b" } }
+    );
+
+    const result = mergeSessionMarks(local, remote, DETECTED_AT);
+    expect(result.marks).toEqual({ s1: "PRESENT", s2: "EXCUSED", s3: "ABSENT" });
+    expect(result.markMeta.s2.at).toBe("2026-03-02T09:06:00.000Z");
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("reports marks two devices changed without seeing each other's change", () => {
+    const local = register({ s1: "PRESENT" }, { s1: { at: "2026-03-02T09:05:00.000Z", by: "phone-a" } });
+    const remote = { ...register({ s1: "LATE" }, { s1: { at: "2026-03-02T09:04:00.000Z", by: "phone-b" } }), id: "r2" };
+
+    const result = mergeSessionMarks(local, remote, DETECTED_AT);
+    expect(result.marks.s1).toBe("PRESENT");
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      id: "r2:s1",
+      sessionId: "r2",
+      studentId: "s1",
+      local: { status: "PRESENT" },
+      remote: { status: "LATE" },
+      detectedAt: DETECTED_AT,
+    });
+  });
+
+  it("doesn't report a change made on top of the other side's", () => {
+    const local = register({ s1: "PRESENT" }, { s1: { at: "2026-03-02T09:05:00.000Z", by: "phone-a", baseAt: "2026-03-02T09:04:00.000Z" } });
+    const remote = register({ s1: "LATE" }, { s1: { at: "2026-03-02T09:04:00.000Z", by: "phone-b" } });
+
+    const result = mergeSessionMarks(local, remote, DETECTED_AT);
+    expect(result.marks.s1).toBe("PRESENT");
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("orders marks by clock stamp rather than device time", () => {
+    // phone-b's clock is a minute fast, but its change was made before phone-a's
+    const local = register({ s1: "PRESENT" }, {
+      s1: { at: "2026-03-02T09:05:00.000Z", by: "phone-a", baseAt: "2026-03-02T09:06:00.000Z", hlc: "2026-03-02T09:06:00.000Z-0001-phone-a" },
+    });
+    const remote = register({ s1: "LATE" }, {
+      s1: { at: "2026-03-02T09:06:00.000Z", by: "phone-b", hlc: "2026-03-02T09:06:00.000Z-0000-phone-b" },
+    });
+
+    expect(mergeSessionMarks(local, remote, DETECTED_AT).marks.s1).toBe("PRESENT");
+  });
+
+  it("prefers a stamped mark over one saved before marks were stamped", () => {
+    const local = register({ s1: "ABSENT" });
+    const remote = register({ s1: "PRESENT" }, { s1: { at: "2026-03-02T09:05:00.000Z", by: "phone-b" } });
+
+    expect(mergeSessionMarks(local, remote, DETECTED_AT).marks.s1).toBe("PRESENT");
+    expect(mergeSessionMarks(remote, local, DETECTED_AT).marks.s1).toBe("PRESENT");
+  });
+
+  it("combines both sides' history without repeating shared changes", () => {
+    const started = stampMarkChanges(undefined, register({ s1: "ABSENT" }), "2026-03-02T09:00:00.000Z", "phone-a");
+    const local = stampMarkChanges(started, { ...started, marks: { s1: "PRESENT" } }, "2026-03-02T09:05:00.000Z", "phone-a");
+    const remote = stampMarkChanges(started, { ...started, marks: { s1: "LATE" } }, "2026-03-02T09:04:00.000Z", "phone-b");
+
+    const history = mergeSessionMarks(local, remote, DETECTED_AT).markHistory.s1;
+    expect(history.map((change) => change.status)).toEqual(["ABSENT", "LATE", "PRESENT"]);
+  });
+});
@@ -0,0 +1,196 @@
+// Per-student merging of register marks
+// Lets two teachers mark the same register on different phones without
+// one phone's marks wiping out the other's
+
+import type { RegisterSession, MarkStatus, MarkMeta, MarkChange, TeacherRef } from "./sync-manager";
+import { compareStamps } from "./hlc";
+
+export interface MarkVersion {
+  status?: MarkStatus;
+  meta?: MarkMeta;
+}
+
+// Both sides changed the same student's mark without seeing each other's change
+export interface MarkConflict {
+  id: string;
+  sessionId: string;
+  classId: string;
+  studentId: string;
+  local: MarkVersion;
+  remote: MarkVersion;
+  detectedAt: string;
+}
+
+export function markConflictId(sessionId: string, studentId: string): string {
+  return `${sessionId}:${studentId}`;
+}
+
+// A change is identified by when and where it was made, so copies from other devices don't repeat
+function changeKey(change: MarkChange): string {
+  return `${change.at}|${change.by}`;
+}
+
+// Every change either side knows about, oldest first
+function mergeChanges(a: MarkChange[] = [], b: MarkChange[] = []): MarkChange[] {
+  const byKey = new Map<string, MarkChange>();
+  for (const change of [...a, ...b]) byKey.set(changeKey(change), change);
+  return [...byKey.values()].sort((x, y) => (x.at < y.at ? -1 : x.at > y.at ? 1 : 0));
+}
+
+/**
+ * Combine two copies of a register's mark history, student by student.
+ * History only ever grows, so nothing either copy recorded is lost.
+ */
+export function mergeMarkHistory(
+  a: Record<string, MarkChange[]> = {},
+  b: Record<string, MarkChange[]> = {}
+): Record<string, MarkChange[]> {
+  const history: Record<string, MarkChange[]> = {};
+  for (const studentId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    history[studentId] = mergeChanges(a[studentId], b[studentId]);
+  }
+  return history;
+}
+
+function toChange(status: MarkStatus | undefined, meta: MarkMeta): MarkChange {
+  return {
+    ...(status !== undefined && { status }),
+    at: meta.at,
+    by: meta.by,
+    ...(meta.teacher && { teacher: meta.teacher }),
+  };
+}
+
+// Sessions saved before history was kept have none, and stay that way until a mark changes
+function withHistory(session: RegisterSession, history: Record<string, MarkChange[]>): RegisterSession {
+  if (Object.keys(history).length === 0) return session;
+  return { ...session, markHistory: history };
+}
+
+// Clock stamps order marks across devices; marks stamped before them only have their times
+function isLaterMark(a: MarkMeta, b: MarkMeta): boolean {
+  if (a.hlc && b.hlc) return compareStamps(a.hlc, b.hlc) > 0;
+  return new Date(a.at) > new Date(b.at);
+}
+
+/**
+ * Stamp every mark that differs from the previous version with its own
+ * timestamp and author, and add it to the student's history. Newer stamps
+ * supplied by the caller are kept as-is.
+ */
+export function stampMarkChanges(
+  previous: RegisterSession | undefined,
+  next: RegisterSession,
+  now: string,
+  author: string,
+  teacher?: TeacherRef,
+  hlc?: string
+): RegisterSession {
+  const prevMarks = previous?.marks ?? {};
+  const prevMeta = previous?.markMeta ?? {};
+  // Stored stamps win for unchanged marks, so a stale copy can't roll them back
+  const markMeta: Record<string, MarkMeta> = { ...prevMeta };
+  // A stale copy can't drop history either
+  const markHistory = mergeMarkHistory(previous?.markHistory, next.markHistory);
+
+  const record = (studentId: string, meta: MarkMeta) => {
+    markHistory[studentId] = mergeChanges(markHistory[studentId], [toChange(next.marks?.[studentId], meta)]);
+  };
+
+  const studentIds = new Set([...Object.keys(prevMarks), ...Object.keys(next.marks ?? {})]);
+  for (const studentId of studentIds) {
+    const changed = prevMarks[studentId] !== next.marks?.[studentId];
+    const incoming = next.markMeta?.[studentId];
+    const earlier = prevMeta[studentId];
+    if (incoming && (!earlier || isLaterMark(incoming, earlier))) {
+      markMeta[studentId] = incoming;
+      if (changed) record(studentId, incoming);
+      continue;
+    }
+
+    if (!changed) continue;
+
+    markMeta[studentId] = {
+      at: now,
+      by: author,
+      // Consecutive edits by one author keep pointing at the last version they didn't write
+      baseAt: earlier?.by === author ? earlier.baseAt : earlier?.at,
+      ...(teacher && { teacher }),
+      ...(hlc && { hlc }),
+    };
+    record(studentId, markMeta[studentId]);
+  }
+
+  return withHistory({ ...next, markMeta }, markHistory);
+}
+
+function sameVersion(a?: MarkMeta, b?: MarkMeta): boolean {
+  if (!a || !b) return false;
+  // Two changes on one device can share a millisecond, but never a clock stamp
+  if (a.hlc && b.hlc) return a.hlc === b.hlc;
+  return a.at === b.at && a.by === b.by;
+}
+
+// Whether two mark versions were made without either author seeing the other
+function isConcurrent(local: MarkMeta, remote: MarkMeta): boolean {
+  if (local.by === remote.by) return false;
+  return local.baseAt !== remote.at && remote.baseAt !== local.at;
+}
+
+/**
+ * Merge the marks of two versions of a session, student by student.
+ * The latest change per student wins; concurrent changes that disagree
+ * are also reported so a teacher can confirm or flip them.
+ */
+export function mergeSessionMarks(
+  local: RegisterSession,
+  remote: RegisterSession,
+  detectedAt: string
+): {
+  marks: Record<string, MarkStatus>;
+  markMeta: Record<string, MarkMeta>;
+  markHistory: Record<string, MarkChange[]>;
+  conflicts: MarkConflict[];
+} {
+  const marks: Record<string, MarkStatus> = {};
+  const markMeta: Record<string, MarkMeta> = {};
+  const conflicts: MarkConflict[] = [];
+
+  const studentIds = new Set([...Object.keys(local.marks ?? {}), ...Object.keys(remote.marks ?? {})]);
+
+  for (const studentId of studentIds) {
+    const localStatus = local.marks?.[studentId];
+    const remoteStatus = remote.marks?.[studentId];
+    const localMeta = local.markMeta?.[studentId];
+    const remoteMeta = remote.markMeta?.[studentId];
+
+    let useLocal: boolean;
+    if (!remoteMeta || !localMeta) {
+      // Unstamped marks predate per-mark tracking; fall back to whichever side has one
+      useLocal = remoteStatus === undefined || (!!localMeta && !remoteMeta);
+    } else if (sameVersion(localMeta, remoteMeta)) {
+      useLocal = false;
+    } else {
+      useLocal = isLaterMark(localMeta, remoteMeta);
+
+      if (localStatus !== remoteStatus && isConcurrent(localMeta, remoteMeta)) {
+        conflicts.push({
+          id: markConflictId(remote.id, studentId),
+          sessionId: remote.id,
+          classId: remote.classId,
+          studentId,
+          local: { status: localStatus, meta: localMeta },
+          remote: { status: remoteStatus, meta: remoteMeta },
+          detectedAt,
+        });
+      }
+    }
+
+    const status = useLocal ? localStatus : remoteStatus;
+    const meta = useLocal ? localMeta : remoteMeta;
+    if (status !== undefined) marks[studentId] = status;
+    if (meta) markMeta[studentId] = meta;
+  }
+
+  return { marks, markMeta, markHistory: mergeMarkHistory(local.markHistory, remote.markHistory), conflicts };
+}
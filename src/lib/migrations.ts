@@ -0,0 +1,162 @@
+// Versioned shape of local data
+// Each migration rewrites stored records into the next shape. SyncManager runs
+// any that haven't run yet at startup, and applies the same rewrites to rows
+// pulled from devices that haven't upgraded.
+
+import type { LocalStore, OutboxEntry } from "./local-store";
+import type { TableName } from "./sync-manager";
+import { monthPeriodKey } from "./awards/awards.utils";
+
+export const SCHEMA_VERSION_KEY = "schemaVersion";
+const BACKUP_PREFIX = "schemaBackup:";
+const BACKUPS_KEPT = 3;
+
+type StoredRow = { id: string; updatedAt?: string; synced?: boolean } & Record<string, unknown>;
+
+// Rewrite one record; return it unchanged when it's already in shape. Must be safe to run twice.
+type Normalize = (record: StoredRow) => StoredRow;
+
+export interface Migration {
+  // The schema version this migration produces
+  version: number;
+  description: string;
+  normalize: Partial<Record<TableName, Normalize>>;
+}
+
+// Copy of the touched tables, taken just before a migration ran
+export interface SchemaBackup {
+  fromVersion: number;
+  toVersion: number;
+  takenAt: string;
+  tables: Partial<Record<TableName, StoredRow[]>>;
+}
+
+const MONTH_KEY = /^(\d{4})-(\d{2})$/;
+const YEAR_KEY = /^(\d{4})$/;
+
+/**
+ * Older builds wrote award periods three ways: MONTH/YEAR/CUSTOM types
+ * (awards.types.ts), "YYYY-MM" keys for automatic Student of the Month
+ * awards, and "startISO|endISO" keys for teacher-picked ones. Settle on
+ * RANGE with "startISO|endISO" and ACADEMIC_YEAR with "2024-2025".
+ */
+function normalizeAwardPeriod(award: StoredRow): StoredRow {
+  const periodType = award.periodType;
+  const periodKey = typeof award.periodKey === "string" ? award.periodKey : "";
+
+  const month = MONTH_KEY.exec(periodKey);
+  if ((periodType === "MONTH" || periodType === "RANGE" || periodType === "CUSTOM") && month) {
+    const date = new Date(Number(month[1]), Number(month[2]) - 1, 1);
+    return { ...award, periodType: "RANGE", periodKey: monthPeriodKey(date) };
+  }
+
+  if (periodType === "MONTH" || periodType === "CUSTOM") {
+    return { ...award, periodType: "RANGE" };
+  }
+
+  if (periodType === "YEAR") {
+    const year = YEAR_KEY.exec(periodKey);
+    const key = year ? `${year[1]}-${Number(year[1]) + 1}` : periodKey;
+    return { ...award, periodType: "ACADEMIC_YEAR", periodKey: key };
+  }
+
+  return award;
+}
+
+// In order; never edit one that has shipped, add another instead
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Normalise award period types and keys",
+    normalize: { awards: normalizeAwardPeriod },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1]?.version ?? 0;
+
+// Bring a record from any earlier schema up to date (used for pulled rows)
+export function normalizeRecord<T extends { id: string }>(table: TableName, record: T): T {
+  let row = record as unknown as StoredRow;
+  for (const migration of MIGRATIONS) {
+    row = migration.normalize[table]?.(row) ?? row;
+  }
+  return row as unknown as T;
+}
+
+async function getSchemaVersion(store: LocalStore): Promise<number> {
+  const value = await store.getMeta(SCHEMA_VERSION_KEY);
+  // Data written before versioning is version 0
+  return typeof value === "number" ? value : 0;
+}
+
+// Run one migration in a single transaction: backup, rewrite, queue the changes, bump the version
+async function applyMigration(store: LocalStore, fromVersion: number, migration: Migration): Promise<void> {
+  const now = new Date().toISOString();
+  const tables = Object.keys(migration.normalize) as TableName[];
+
+  await store.transaction(async () => {
+    const backup: SchemaBackup = { fromVersion, toVersion: migration.version, takenAt: now, tables: {} };
+
+    for (const table of tables) {
+      const rows = await store.getAll<StoredRow>(table);
+      backup.tables[table] = rows;
+
+      const changed: StoredRow[] = [];
+      const entries: OutboxEntry[] = [];
+      for (const row of rows) {
+        const next = migration.normalize[table]!(row);
+        if (next === row) continue;
+
+        // Rewritten records sync like any other edit, so other devices get the new shape
+        changed.push({ ...next, synced: false, updatedAt: now });
+        const pending = await store.getOutboxEntry(table, row.id);
+        entries.push({
+          table,
+          recordId: row.id,
+          op: pending?.op === "create" ? "create" : row.deleted ? "delete" : "update",
+          queuedAt: now,
+        });
+      }
+
+      await store.bulkPut(table, changed);
+      await store.putOutboxEntries(entries);
+    }
+
+    await store.setMeta(`${BACKUP_PREFIX}${migration.version}`, backup);
+    await store.deleteMeta(`${BACKUP_PREFIX}${migration.version - BACKUPS_KEPT}`);
+    await store.setMeta(SCHEMA_VERSION_KEY, migration.version);
+  });
+}
+
+/**
+ * Run every migration newer than the stored schema version, oldest first.
+ * A failed migration rolls back and stops the run, leaving the data at the
+ * last version that completed. `beforeMigrating` runs once, only if there
+ * is something to migrate. Resolves to the resulting schema version.
+ */
+export async function runMigrations(store: LocalStore, beforeMigrating?: () => Promise<unknown>): Promise<number> {
+  let version = await getSchemaVersion(store);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer build of the app; leave it alone
+    console.warn(`Local data is at schema version ${version}, newer than this app's ${CURRENT_SCHEMA_VERSION}`);
+    return version;
+  }
+
+  if (beforeMigrating && MIGRATIONS.some(migration => migration.version > version)) {
+    await beforeMigrating();
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= version) continue;
+    await applyMigration(store, version, migration);
+    version = migration.version;
+  }
+
+  return version;
+}
+
+// The copy taken before migrating to `version`, if it's still kept
+export async function getSchemaBackup(store: LocalStore, version: number): Promise<SchemaBackup | undefined> {
+  return (await store.getMeta(`${BACKUP_PREFIX}${version}`)) as SchemaBackup | undefined;
+}
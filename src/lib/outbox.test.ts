@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { MemoryStore, type OutboxEntry } from "./local-store";
+import { drainOutbox } from "./outbox";
+
+const QUEUED_AT = "2026-03-02T09:00:00.000Z";
+
+function queue(store: MemoryStore, name: string, hlc: string): Promise<void> {
+  const entry: OutboxEntry = { table: "classes", recordId: "c1", op: "update", queuedAt: QUEUED_AT, hlc };
+  return store.transaction(async () => {
+    await store.bulkPut("classes", [{ id: "c1", name, synced: false }]);
+    await store.putOutboxEntries([entry]);
+  });
+}
+
+describe("drainOutbox", () => {
+  it("clears what was uploaded and marks it synced", async () => {
+    const store = new MemoryStore();
+    await queue(store, "Ballet", `${QUEUED_AT}-0000-phone-a`);
+
+    const uploaded: unknown[] = [];
+    await drainOutbox(store, ["classes"], async (_table, records) => {
+      uploaded.push(...records);
+    });
+
+    expect(uploaded).toEqual([{ id: "c1", name: "Ballet", synced: false }]);
+    expect(await store.getOutbox("classes")).toEqual([]);
+    expect((await store.getAll("classes"))[0]).toMatchObject({ synced: true });
+  });
+
+  it("keeps a change queued again in the same millisecond as the upload", async () => {
+    const store = new MemoryStore();
+    await queue(store, "Ballet", `${QUEUED_AT}-0000-phone-a`);
+
+    await drainOutbox(store, ["classes"], async () => {
+      await queue(store, "Ballet 1", `${QUEUED_AT}-0001-phone-a`);
+    });
+
+    const [entry] = await store.getOutbox("classes");
+    expect(entry).toMatchObject({ hlc: `${QUEUED_AT}-0001-phone-a`, base: { name: "Ballet" } });
+    expect((await store.getAll("classes"))[0]).toMatchObject({ name: "Ballet 1", synced: false });
+  });
+
+  it("leaves everything queued when the upload fails", async () => {
+    const store = new MemoryStore();
+    await queue(store, "Ballet", `${QUEUED_AT}-0000-phone-a`);
+
+    await expect(drainOutbox(store, ["classes"], async () => {
+      throw new Error("offline");
+    })).rejects.toThrow("offline");
+    expect(await store.getOutbox("classes")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,56 @@
+// Draining the outbox: shared by the sync manager and the service worker,
+// which uploads with plain fetch because it runs after the app is closed
+
+import type { LocalStore, OutboxEntry } from "./local-store";
+import type { TableName } from "./sync-manager";
+
+type QueuedRecord = { id: string; synced?: boolean };
+
+export type UploadRecords = (table: TableName, records: QueuedRecord[]) => Promise<void>;
+
+// Two saves can fall in the same millisecond, but never share a clock stamp
+function isRequeued(uploaded: OutboxEntry, current: OutboxEntry): boolean {
+  return current.hlc !== uploaded.hlc || current.queuedAt !== uploaded.queuedAt;
+}
+
+/**
+ * Upload the records queued for each table, then clear the entries that
+ * weren't re-queued while the upload was in flight. A failed upload throws
+ * and leaves that table's entries (and any later tables) queued.
+ */
+export async function drainOutbox(
+  store: LocalStore,
+  tables: readonly TableName[],
+  upload: UploadRecords,
+  onTableDrained?: (table: TableName) => Promise<void> | void
+): Promise<void> {
+  for (const table of tables) {
+    const entries = await store.getOutbox(table);
+    if (entries.length === 0) continue;
+
+    const records = (await store.bulkGet<QueuedRecord>(table, entries.map(entry => entry.recordId)))
+      .filter((record): record is QueuedRecord => !!record);
+
+    await upload(table, records);
+
+    // Drop the entries we uploaded, unless the record changed again meanwhile
+    await store.transaction(async () => {
+      for (const entry of entries) {
+        const current = await store.getOutboxEntry(table, entry.recordId);
+        if (!current) continue;
+        if (isRequeued(entry, current)) {
+          // The server now has what we uploaded, so that's what the newer change was made on
+          const uploaded = records.find(record => record.id === entry.recordId);
+          if (uploaded) await store.putOutboxEntries([{ ...current, base: uploaded }]);
+          continue;
+        }
+        await store.deleteOutboxEntry(table, entry.recordId);
+
+        const [record] = await store.bulkGet<QueuedRecord>(table, [entry.recordId]);
+        if (record) await store.bulkPut(table, [{ ...record, synced: true }]);
+      }
+    });
+
+    await onTableDrained?.(table);
+  }
+}
@@ -0,0 +1,90 @@
+// What each studio role may do
+// The pages hide what a role can't use, SyncManager refuses saves it isn't
+// allowed, and the RLS policies in supabase-schema.sql enforce the same
+// matrix on the server
+
+import type { TableName } from "./sync-manager";
+import type { OutboxOp } from "./local-store";
+
+export type StudioRole = "owner" | "teacher" | "assistant" | "viewer";
+
+export const STUDIO_ROLES: readonly StudioRole[] = ["owner", "teacher", "assistant", "viewer"];
+
+export const ROLE_LABELS: Record<StudioRole, string> = {
+  owner: "Owner",
+  teacher: "Teacher",
+  assistant: "Assistant",
+  viewer: "Viewer",
+};
+
+export type Permission =
+  | "manageStudio"
+  | "manageClasses"
+  | "manageStudents"
+  | "markRegisters"
+  | "givePoints"
+  | "deleteRegisters"
+  | "deletePoints"
+  | "giveAwards"
+  | "cleanupUnsynced";
+
+// Keep in step with the has_studio_role() checks in supabase-schema.sql
+export const PERMISSIONS: Record<Permission, readonly StudioRole[]> = {
+  manageStudio: ["owner"],
+  manageClasses: ["owner", "teacher"],
+  manageStudents: ["owner", "teacher"],
+  markRegisters: ["owner", "teacher", "assistant"],
+  givePoints: ["owner", "teacher", "assistant"],
+  deleteRegisters: ["owner", "teacher"],
+  deletePoints: ["owner", "teacher"],
+  giveAwards: ["owner", "teacher"],
+  cleanupUnsynced: ["owner", "teacher"],
+};
+
+/**
+ * Whether `role` may do something. Outside any studio the data is kept on
+ * this device only and the teacher can do everything; inside one, a role
+ * that isn't known yet (null) allows nothing until the server says what it is.
+ */
+export function can(role: StudioRole | null, permission: Permission, inStudio: boolean): boolean {
+  if (!inStudio) return true;
+  return role !== null && PERMISSIONS[permission].includes(role);
+}
+
+// The permission a save needs, by table and the kind of change it makes
+export function permissionForChange(table: TableName, op: OutboxOp): Permission {
+  switch (table) {
+    case "classes":
+      return "manageClasses";
+    case "students":
+      return "manageStudents";
+    case "sessions":
+      return op === "delete" ? "deleteRegisters" : "markRegisters";
+    case "points":
+      return op === "delete" ? "deletePoints" : "givePoints";
+    case "awards":
+      return "giveAwards";
+  }
+}
+
+// A save the active studio role isn't allowed to make; nothing from it was stored
+export class PermissionError extends Error {
+  constructor(readonly role: StudioRole | null, readonly permission: Permission) {
+    super(role
+      ? `${ROLE_LABELS[role]}s can't ${PERMISSION_DESCRIPTIONS[permission]}`
+      : `Can't ${PERMISSION_DESCRIPTIONS[permission]} until your role in this studio is known`);
+    this.name = "PermissionError";
+  }
+}
+
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  manageStudio: "manage the studio",
+  manageClasses: "change classes",
+  manageStudents: "change students",
+  markRegisters: "mark registers",
+  givePoints: "give points",
+  deleteRegisters: "delete registers",
+  deletePoints: "remove points",
+  giveAwards: "hand out awards",
+  cleanupUnsynced: "clean up unsynced data",
+};
@@ -0,0 +1,110 @@
+// Live row updates over one WebSocket, for HttpBackend
+// The same channel contract as SupabaseBackend.subscribe, so the register
+// page behaves alike against Supabase and scripts/sync-server.mjs.
+//
+// Every message is one JSON object:
+//
+//   → { type: "subscribe", id, table, classId, studioId? }
+//   → { type: "unsubscribe", id }
+//   ← { type: "change", id, row }
+//
+// `id` is chosen by the client and names one subscription on the socket.
+// The server sends a "change" for every row it stores in `table` with that
+// classId (and studioId, if given), after restamping it, so rows arrive as
+// a pull would return them.
+
+import type { TableName } from "./sync-manager";
+import type { RealtimeFilter, RemoteRecord } from "./remote-backend";
+
+// Wait before reconnecting after the socket drops
+const RECONNECT_DELAY_MS = 5000;
+
+interface Subscription {
+  table: TableName;
+  filter: RealtimeFilter;
+  onRow: (row: RemoteRecord) => void;
+}
+
+type ServerMessage = { type: "change"; id: string; row: RemoteRecord };
+
+export class RealtimeSocket {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, Subscription>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private url: string) {}
+
+  // Opens the socket with the first subscription and closes it after the last
+  subscribe(table: TableName, filter: RealtimeFilter, onRow: (row: RemoteRecord) => void): () => void {
+    if (typeof WebSocket === "undefined") return () => {};
+
+    const id = crypto.randomUUID();
+    this.subscriptions.set(id, { table, filter, onRow });
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.sendSubscribe(this.socket, id);
+    } else {
+      this.connect();
+    }
+
+    return () => {
+      if (!this.subscriptions.delete(id)) return;
+      if (this.socket?.readyState === WebSocket.OPEN) {
+        this.socket.send(JSON.stringify({ type: "unsubscribe", id }));
+      }
+      if (this.subscriptions.size === 0) this.close();
+    };
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer) return;
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      for (const id of this.subscriptions.keys()) this.sendSubscribe(socket, id);
+    };
+
+    socket.onmessage = event => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (message.type !== "change" || !message.row?.id) return;
+      this.subscriptions.get(message.id)?.onRow(message.row);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      // Still wanted: try again later; rows stored meanwhile come with the next pull
+      if (this.subscriptions.size > 0) {
+        this.reconnectTimer = setTimeout(() => {
+          this.reconnectTimer = null;
+          if (this.subscriptions.size > 0) this.connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+
+    socket.onerror = () => {
+      console.warn(`Live updates unavailable from ${this.url}`);
+    };
+  }
+
+  private sendSubscribe(socket: WebSocket, id: string): void {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return;
+    const { table, filter } = subscription;
+    socket.send(JSON.stringify({ type: "subscribe", id, table, classId: filter.classId, studioId: filter.studioId }));
+  }
+
+  private close(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { decodePullCursor, encodePullCursor, HttpBackend, type RemoteRecord } from "./remote-backend";
+import { SqliteSyncStore } from "./sqlite-sync";
+
+function classRow(id: string, name = id): RemoteRecord {
+  const row = { id, name };
+  return row;
+}
+
+// An HttpBackend served by a SQLite store, calling `between` after each page it hands out
+function backendOver(store: SqliteSyncStore, between: (page: number) => void) {
+  let pages = 0;
+  const serve = async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    const after = url.searchParams.get("after");
+    const { rows, next } = store.pull(
+      "classes",
+      url.searchParams.get("since") ?? undefined,
+      after ? decodePullCursor(after) ?? undefined : undefined,
+      Number(url.searchParams.get("limit"))
+    );
+    between(++pages);
+    return new Response(JSON.stringify({ rows, next: next && encodePullCursor(next) }));
+  };
+  return new HttpBackend({ baseUrl: "http://sync.test", pageSize: 2, fetch: serve as typeof fetch });
+}
+
+describe("HttpBackend.pullChanges", () => {
+  it("pulls every row when one is restamped between pages", async () => {
+    const store = new SqliteSyncStore(":memory:");
+    for (const id of ["a", "b", "c", "d"]) store.push("classes", [classRow(id)]);
+
+    const backend = backendOver(store, (page) => {
+      // Another device saves "a" again after the first page, moving it to the end
+      if (page === 1) store.push("classes", [classRow("a", "a2")]);
+    });
+
+    const rows = await backend.pullChanges<{ id: string; name: string }>("classes");
+    expect(new Set(rows.map((row) => row.id))).toEqual(new Set(["a", "b", "c", "d"]));
+    expect(rows[rows.length - 1]).toMatchObject({ id: "a", name: "a2" });
+  });
+
+  it("stops after a short page", async () => {
+    const store = new SqliteSyncStore(":memory:");
+    store.push("classes", ["a", "b", "c"].map((id) => classRow(id)));
+    let pages = 0;
+
+    const rows = await backendOver(store, (page) => (pages = page)).pullChanges("classes");
+    expect(rows.map((row) => row.id)).toEqual(["a", "b", "c"]);
+    expect(pages).toBe(2);
+  });
+});
+
+describe("pull cursors", () => {
+  it("round-trip ids containing the separator", () => {
+    const cursor = { updatedAt: "2026-03-02T09:00:00.000Z", id: "a|b" };
+    expect(decodePullCursor(encodePullCursor(cursor))).toEqual(cursor);
+    expect(decodePullCursor("no separator")).toBeNull();
+  });
+});
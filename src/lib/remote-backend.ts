@@ -0,0 +1,182 @@
+// The server the sync manager pushes to and pulls from
+// Supabase in production (see supabase.ts); HttpBackend talks to any server
+// that speaks the small JSON protocol below, such as scripts/sync-server.mjs
+
+import type { TableName } from "./sync-manager";
+import { RealtimeSocket } from "./realtime-socket";
+
+// Fields the sync protocol relies on; rows carry their other columns alongside
+export type RemoteRecord = {
+  id: string;
+  synced?: boolean;
+  updatedAt?: string;
+  hlc?: string;
+  deleted?: boolean;
+  deletedAt?: string;
+  purgedAt?: string;
+  studioId?: string;
+};
+
+// Where the next page of a pull starts: just after this row, in (updatedAt, id) order
+export interface PullCursor {
+  updatedAt: string;
+  id: string;
+}
+
+// Sent as one query parameter; ISO timestamps never contain "|"
+export function encodePullCursor(cursor: PullCursor): string {
+  return `${cursor.updatedAt}|${cursor.id}`;
+}
+
+export function decodePullCursor(value: string): PullCursor | null {
+  const split = value.indexOf("|");
+  if (split <= 0 || split === value.length - 1) return null;
+  return { updatedAt: value.slice(0, split), id: value.slice(split + 1) };
+}
+
+// The rows a realtime subscription hears about: one class's, in one studio if given
+export interface RealtimeFilter {
+  classId: string;
+  studioId?: string;
+}
+
+export interface RemoteBackend {
+  /**
+   * Every row whose updatedAt is after `since` (every row when it's
+   * undefined), oldest first, tombstones included. The server stamps
+   * updatedAt itself, so watermarks don't depend on device clocks.
+   * With a `studioId`, only that studio's rows.
+   */
+  pullChanges<T extends RemoteRecord>(table: TableName, since?: string, studioId?: string): Promise<T[]>;
+  /**
+   * Insert or replace rows by id; each row names its own studio. A row
+   * whose hlc stamp is older than the stored row's leaves the stored row
+   * in place (restamped, so the sender pulls it back).
+   */
+  pushChanges(table: TableName, records: RemoteRecord[]): Promise<void>;
+  /**
+   * Permanently delete tombstones deleted before `cutoff`, and those
+   * emptied from the Trash before `purgedBefore` (in one studio, if given).
+   */
+  purgeTombstones(table: TableName, cutoff: string, studioId?: string, purgedBefore?: string): Promise<void>;
+  /**
+   * Hear about each row matching `filter` as soon as the server stores it,
+   * whoever pushed it, until the returned function is called. Rows missed
+   * while disconnected aren't replayed; the next pull picks them up.
+   * Backends without it are only ever pulled.
+   */
+  subscribe?(table: TableName, filter: RealtimeFilter, onRow: (row: RemoteRecord) => void): () => void;
+}
+
+// A request the server turned down; `status` is the HTTP status where there was one
+export class RemoteError extends Error {
+  constructor(message: string, readonly status?: number, readonly details?: unknown) {
+    super(message);
+    this.name = "RemoteError";
+  }
+}
+
+export interface HttpBackendOptions {
+  // e.g. http://localhost:8787; tables are paths below it
+  baseUrl: string;
+  // Extra headers for every request, such as Authorization
+  headers?: () => Record<string, string> | Promise<Record<string, string>>;
+  fetch?: typeof fetch;
+  pageSize?: number;
+  // WebSocket URL for live updates (see realtime-socket.ts), e.g. ws://localhost:8787/realtime
+  realtimeUrl?: string;
+}
+
+/**
+ * RemoteBackend over plain HTTP and JSON:
+ *
+ *   GET    {baseUrl}/{table}?since=ISO&after=CURSOR&studioId=…&limit=500  → { rows: [...], next: CURSOR | null }
+ *   POST   {baseUrl}/{table}  { rows: [...] }                                → 2xx
+ *   DELETE {baseUrl}/{table}?deletedBefore=ISO&purgedBefore=ISO&studioId=…   → 2xx
+ *
+ * GET returns rows ordered by updatedAt, then id. Pages are keyed, not
+ * counted: `next` names the last row returned (null after the last page)
+ * and comes back as `after`, so a row restamped during a pull moves behind
+ * the cursor instead of shifting the rows after it back a place. POST
+ * upserts by id and sets each row's updatedAt to the server's clock, but keeps the stored
+ * row over one with an older hlc. studioId and purgedBefore are optional.
+ * Live updates come over a separate WebSocket when `realtimeUrl` is set.
+ */
+export class HttpBackend implements RemoteBackend {
+  private baseUrl: string;
+  private pageSize: number;
+  private realtime: RealtimeSocket | null;
+
+  constructor(private options: HttpBackendOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.pageSize = options.pageSize ?? 500;
+    this.realtime = options.realtimeUrl ? new RealtimeSocket(options.realtimeUrl) : null;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T | undefined> {
+    const doFetch = this.options.fetch ?? fetch;
+    const headers = {
+      Accept: "application/json",
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      ...(await this.options.headers?.()),
+    };
+
+    const response = await doFetch(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const text = await response.text();
+    let data: unknown;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      data = text;
+    }
+
+    if (!response.ok) {
+      const message = typeof data === "object" && data && "error" in data
+        ? String((data as { error: unknown }).error)
+        : `${method} ${path} failed with ${response.status}`;
+      throw new RemoteError(message, response.status, data);
+    }
+
+    return data as T | undefined;
+  }
+
+  async pullChanges<T extends RemoteRecord>(table: TableName, since?: string, studioId?: string): Promise<T[]> {
+    const rows: T[] = [];
+    let after: string | null | undefined;
+
+    do {
+      const params = new URLSearchParams({ limit: String(this.pageSize) });
+      if (since) params.set("since", since);
+      if (after) params.set("after", after);
+      if (studioId) params.set("studioId", studioId);
+
+      const page = await this.request<{ rows?: T[]; next?: string | null }>("GET", `/${table}?${params}`);
+      rows.push(...(page?.rows ?? []));
+      after = page?.next;
+    } while (after);
+
+    return rows;
+  }
+
+  async pushChanges(table: TableName, records: RemoteRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.request("POST", `/${table}`, { rows: records });
+  }
+
+  async purgeTombstones(table: TableName, cutoff: string, studioId?: string, purgedBefore?: string): Promise<void> {
+    const params = new URLSearchParams({ deletedBefore: cutoff });
+    if (purgedBefore) params.set("purgedBefore", purgedBefore);
+    if (studioId) params.set("studioId", studioId);
+    await this.request("DELETE", `/${table}?${params}`);
+  }
+
+  subscribe(table: TableName, filter: RealtimeFilter, onRow: (row: RemoteRecord) => void): () => void {
+    if (!this.realtime) return () => {};
+    return this.realtime.subscribe(table, filter, onRow);
+  }
+}
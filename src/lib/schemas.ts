@@ -0,0 +1,166 @@
+// Runtime shape checks for stored and synced records
+// Anything read from IndexedDB, pulled from the server or passed to a save
+// goes through validateRecord; records that fail are quarantined instead of used
+
+import type { TableName } from "./sync-manager";
+import { isStamp } from "./hlc";
+
+export type ValidationOutcome<T> =
+  | { valid: true; record: T }
+  | { valid: false; problems: string[] };
+
+type Check = (value: unknown) => string | null;
+
+const isString: Check = value => typeof value === "string" ? null : "must be text";
+const isNonEmptyString: Check = value =>
+  typeof value === "string" && value.trim() !== "" ? null : "must be non-empty text";
+const isBoolean: Check = value => typeof value === "boolean" ? null : "must be true or false";
+const isFiniteNumber: Check = value =>
+  typeof value === "number" && Number.isFinite(value) ? null : "must be a number";
+const isTimestamp: Check = value =>
+  typeof value === "string" && !Number.isNaN(new Date(value).getTime()) ? null : "must be a date";
+const isClockStamp: Check = value => isStamp(value) ? null : "must be a clock stamp";
+
+function oneOf(...allowed: string[]): Check {
+  return value => allowed.includes(value as string) ? null : `must be one of ${allowed.join(", ")}`;
+}
+
+// Supabase returns null for empty columns, so optional fields accept it too
+function optional(check: Check): Check {
+  return value => value === undefined || value === null ? null : check(value);
+}
+
+function mapOf(check: Check): Check {
+  return value => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return "must be an object";
+    for (const [key, entry] of Object.entries(value)) {
+      const problem = check(entry);
+      if (problem) return `${key} ${problem}`;
+    }
+    return null;
+  };
+}
+
+function listOf(check: Check): Check {
+  return value => {
+    if (!Array.isArray(value)) return "must be a list";
+    for (const [index, entry] of value.entries()) {
+      const problem = check(entry);
+      if (problem) return `${index} ${problem}`;
+    }
+    return null;
+  };
+}
+
+function shape(fields: Record<string, Check>): Check {
+  return value => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return "must be an object";
+    for (const [field, check] of Object.entries(fields)) {
+      const problem = check((value as Record<string, unknown>)[field]);
+      if (problem) return `${field} ${problem}`;
+    }
+    return null;
+  };
+}
+
+const MARK_STATUS = oneOf("PRESENT", "LATE", "ABSENT", "EXCUSED");
+
+const TEACHER_REF = shape({
+  id: isNonEmptyString,
+  name: isString,
+});
+
+const MARK_META = shape({
+  at: isTimestamp,
+  by: isString,
+  baseAt: optional(isTimestamp),
+  teacher: optional(TEACHER_REF),
+  hlc: optional(isClockStamp),
+});
+
+const MARK_CHANGE = shape({
+  status: optional(MARK_STATUS),
+  at: isTimestamp,
+  by: isString,
+  teacher: optional(TEACHER_REF),
+});
+
+// Sync bookkeeping every record may carry
+const SYNC_FIELDS: Record<string, Check> = {
+  synced: optional(isBoolean),
+  updatedAt: optional(isTimestamp),
+  hlc: optional(isClockStamp),
+  deleted: optional(isBoolean),
+  deletedAt: optional(isTimestamp),
+  deletedBy: optional(TEACHER_REF),
+  purgedAt: optional(isTimestamp),
+  studioId: optional(isNonEmptyString),
+};
+
+export const RECORD_SCHEMAS: Record<TableName, Record<string, Check>> = {
+  classes: {
+    id: isNonEmptyString,
+    name: isString,
+    color: isString,
+  },
+  students: {
+    id: isNonEmptyString,
+    name: isString,
+    classId: isNonEmptyString,
+    joinedAtISO: isTimestamp,
+    archived: optional(isBoolean),
+  },
+  sessions: {
+    id: isNonEmptyString,
+    classId: isNonEmptyString,
+    startedAtISO: isTimestamp,
+    closedAtISO: optional(isTimestamp),
+    marks: mapOf(MARK_STATUS),
+    markMeta: optional(mapOf(MARK_META)),
+    markHistory: optional(mapOf(listOf(MARK_CHANGE))),
+  },
+  points: {
+    id: isNonEmptyString,
+    studentId: isNonEmptyString,
+    classId: isNonEmptyString,
+    reason: isString,
+    points: isFiniteNumber,
+    createdAtISO: isTimestamp,
+    sessionId: optional(isString),
+    createdBy: optional(isString),
+    teacher: optional(TEACHER_REF),
+  },
+  awards: {
+    id: isNonEmptyString,
+    awardId: isNonEmptyString,
+    studentId: isNonEmptyString,
+    classId: isNonEmptyString,
+    periodType: oneOf("RANGE", "ACADEMIC_YEAR"),
+    periodKey: isNonEmptyString,
+    unlockedAtISO: isTimestamp,
+    decidedBy: oneOf("SYSTEM", "TEACHER"),
+  },
+};
+
+/**
+ * Check a record against its table's schema, listing every problem found.
+ * Tombstones only need an id: nothing reads their other fields.
+ */
+export function validateRecord<T>(table: TableName, value: unknown): ValidationOutcome<T> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { valid: false, problems: ["record must be an object"] };
+  }
+
+  const record = value as Record<string, unknown>;
+  const fields = record.deleted === true
+    ? { id: isNonEmptyString, ...SYNC_FIELDS }
+    : { ...RECORD_SCHEMAS[table], ...SYNC_FIELDS };
+
+  const problems: string[] = [];
+  for (const [field, check] of Object.entries(fields)) {
+    const problem = check(record[field]);
+    if (problem) problems.push(`${field} ${problem}`);
+  }
+
+  return problems.length === 0 ? { valid: true, record: value as T } : { valid: false, problems };
+}
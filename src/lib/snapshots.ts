@@ -0,0 +1,77 @@
+// Rolling snapshots of a device's local data
+// SyncManager takes one a day and one before anything destructive (a
+// cleanup, a migration, a restore, a rollback or a purge), keeping the last
+// few in the local store so a bad change can be rolled back without a file
+
+import type { LocalSnapshot, LocalStore, SnapshotInfo, SnapshotReason } from "./local-store";
+import type { TableName } from "./sync-manager";
+import {
+  BACKUP_TABLES,
+  toBase64,
+  fromBase64,
+  loadAwardsMeta,
+  type BackupContents,
+  type BackupRecord,
+} from "./backup";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function gzip(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("gzip"));
+  return toBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
+
+export async function gunzip(data: string): Promise<string> {
+  const stream = new Blob([fromBase64(data)]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
+
+/**
+ * Copy everything in `store` into a new snapshot, then drop the oldest
+ * beyond `kept`. The records are read in one transaction, so the snapshot
+ * never mixes a save's before and after.
+ */
+export async function takeSnapshot(store: LocalStore, reason: SnapshotReason, kept: number): Promise<SnapshotInfo> {
+  const records = {} as Record<TableName, BackupRecord[]>;
+  await store.transaction(async () => {
+    for (const table of BACKUP_TABLES) {
+      records[table] = await store.getAll<BackupRecord>(table);
+    }
+  });
+
+  const takenAt = new Date().toISOString();
+  const contents: BackupContents = {
+    createdAt: takenAt,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    records,
+    awardsMeta: loadAwardsMeta(),
+  };
+  const json = JSON.stringify(contents);
+  const compressed = typeof CompressionStream === "undefined" ? null : await gzip(json);
+
+  const counts = {} as Record<TableName, number>;
+  for (const table of BACKUP_TABLES) {
+    counts[table] = records[table].filter(record => !record.deleted).length;
+  }
+
+  const data = compressed ?? json;
+  const info: SnapshotInfo = { id: crypto.randomUUID(), takenAt, reason, counts, size: data.length };
+  await store.putSnapshot({ ...info, encoding: compressed === null ? "json" : "gzip", data });
+
+  const stale = (await store.getSnapshots()).slice(Math.max(kept, 1));
+  if (stale.length > 0) await store.deleteSnapshots(stale.map(info => info.id));
+
+  return info;
+}
+
+// Whether a day has passed since the last daily snapshot
+export async function dailySnapshotDue(store: LocalStore, now = Date.now()): Promise<boolean> {
+  const latest = (await store.getSnapshots()).find(info => info.reason === "daily");
+  return !latest || now - new Date(latest.takenAt).getTime() >= DAY_MS;
+}
+
+export async function readSnapshot(snapshot: LocalSnapshot): Promise<BackupContents> {
+  const json = snapshot.encoding === "gzip" ? await gunzip(snapshot.data) : snapshot.data;
+  return JSON.parse(json) as BackupContents;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { PermissionError } from "./permissions";
+import type { RemoteRecord } from "./remote-backend";
+import { SqliteSyncStore } from "./sqlite-sync";
+import { SyncAuthError, type SyncCaller } from "./sync-auth";
+
+const teacher: SyncCaller = { studioId: "main", role: "teacher" };
+const assistant: SyncCaller = { studioId: "main", role: "assistant" };
+const otherStudio: SyncCaller = { studioId: "other", role: "owner" };
+
+function classRow(id: string, name: string, studioId?: string): RemoteRecord {
+  const row = { id, name, studioId };
+  return row;
+}
+
+function register(id: string, deleted = false, status = "PRESENT"): RemoteRecord {
+  const row = {
+    id,
+    classId: "c1",
+    startedAtISO: "2026-03-02T09:00:00.000Z",
+    marks: { s1: status },
+    deleted,
+    ...(deleted ? { deletedAt: "2026-03-02T10:00:00.000Z", deletedBy: { id: "t1", name: "Miss Priya" } } : {}),
+  };
+  return row;
+}
+
+function pullAll(store: SqliteSyncStore, table: "classes" | "sessions", studioId: string) {
+  return store.pull(table, undefined, undefined, 100, studioId).rows;
+}
+
+describe("SqliteSyncStore.push for a caller", () => {
+  it("saves rows in the caller's studio, whatever studio they name", () => {
+    const store = new SqliteSyncStore(":memory:");
+    store.push("classes", [classRow("c1", "Ballet", "other")], teacher);
+
+    expect(pullAll(store, "classes", "main")).toMatchObject([{ id: "c1", studioId: "main" }]);
+    expect(pullAll(store, "classes", "other")).toEqual([]);
+  });
+
+  it("refuses a row that belongs to another studio, saving nothing", () => {
+    const store = new SqliteSyncStore(":memory:");
+    store.push("classes", [classRow("c1", "Ballet")], teacher);
+
+    expect(() => store.push("classes", [classRow("c2", "Jazz"), classRow("c1", "Mine now")], otherStudio))
+      .toThrow(SyncAuthError);
+    expect(pullAll(store, "classes", "other")).toEqual([]);
+    expect(pullAll(store, "classes", "main")).toMatchObject([{ id: "c1", name: "Ballet" }]);
+  });
+
+  it("refuses the whole push when the role lacks a permission", () => {
+    const store = new SqliteSyncStore(":memory:");
+    store.push("sessions", [register("r1")], teacher);
+
+    expect(() => store.push("sessions", [register("r2"), register("r1", true)], assistant)).toThrow(PermissionError);
+    expect(pullAll(store, "sessions", "main").map((row) => [row.id, row.deleted])).toEqual([["r1", false]]);
+  });
+
+  it("keeps a tombstone an assistant's push would undo", () => {
+    const store = new SqliteSyncStore(":memory:");
+    store.push("sessions", [register("r1", true)], teacher);
+
+    store.push("sessions", [register("r1", false, "LATE")], assistant);
+    const [row] = pullAll(store, "sessions", "main");
+    expect(row).toMatchObject({ id: "r1", deleted: true, deletedAt: "2026-03-02T10:00:00.000Z", deletedBy: { id: "t1" } });
+  });
+
+  it("lets a teacher bring a deleted register back", () => {
+    const store = new SqliteSyncStore(":memory:");
+    store.push("sessions", [register("r1", true)], teacher);
+
+    store.push("sessions", [register("r1")], teacher);
+    expect(pullAll(store, "sessions", "main")[0].deleted).toBe(false);
+  });
+});
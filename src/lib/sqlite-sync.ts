@@ -0,0 +1,195 @@
+// Server side of the HttpBackend protocol, stored in a SQLite file
+// Used by the /api/sync route handlers so a studio can self-host sync with `next start`
+
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { ENTITY_TABLES } from "./local-db";
+import { can, permissionForChange, PermissionError } from "./permissions";
+import { SyncAuthError, type SyncCaller } from "./sync-auth";
+import type { TableName } from "./sync-manager";
+import type { PullCursor, RemoteRecord } from "./remote-backend";
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), "data", "sync.db");
+export const MAX_PAGE_SIZE = 1000;
+
+export function isSyncTable(name: string): name is TableName {
+  return (ENTITY_TABLES as readonly string[]).includes(name);
+}
+
+// Rows are stored whole as JSON; only the columns the protocol filters on are broken out
+function createTables(db: Database.Database): void {
+  for (const table of ENTITY_TABLES) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS "${table}" (
+        id TEXT PRIMARY KEY,
+        "updatedAt" TEXT NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        "deletedAt" TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS "idx_${table}_updated_at" ON "${table}"("updatedAt", id);
+    `);
+
+    // Databases created before studios, the Trash or clock stamps lack these columns
+    const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[];
+    if (!columns.some(column => column.name === "studioId")) {
+      db.exec(`ALTER TABLE "${table}" ADD COLUMN "studioId" TEXT`);
+    }
+    if (!columns.some(column => column.name === "purgedAt")) {
+      db.exec(`ALTER TABLE "${table}" ADD COLUMN "purgedAt" TEXT`);
+    }
+    if (!columns.some(column => column.name === "hlc")) {
+      db.exec(`ALTER TABLE "${table}" ADD COLUMN hlc TEXT`);
+    }
+    db.exec(`CREATE INDEX IF NOT EXISTS "idx_${table}_studio" ON "${table}"("studioId", "updatedAt")`);
+  }
+}
+
+export class SqliteSyncStore {
+  private db: Database.Database;
+  // Last stamp handed out, so rows pushed in the same millisecond still order
+  private lastStamp = 0;
+
+  constructor(file: string) {
+    if (file !== ":memory:") fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    createTables(this.db);
+
+    // Carry on after the newest stamp on disk, even if the clock has gone backwards
+    for (const table of ENTITY_TABLES) {
+      const row = this.db.prepare(`SELECT MAX("updatedAt") AS latest FROM "${table}"`).get() as { latest: string | null };
+      if (row.latest) this.lastStamp = Math.max(this.lastStamp, new Date(row.latest).getTime());
+    }
+  }
+
+  private stamp(): string {
+    this.lastStamp = Math.max(Date.now(), this.lastStamp + 1);
+    return new Date(this.lastStamp).toISOString();
+  }
+
+  /**
+   * One page of the rows changed after `since` (in one studio, if given),
+   * oldest first, as HttpBackend expects. Pages continue after the cursor
+   * of the last one; `next` is null once there's nothing more.
+   */
+  pull(
+    table: TableName,
+    since: string | undefined,
+    after: PullCursor | undefined,
+    limit: number,
+    studioId?: string
+  ): { rows: RemoteRecord[]; next: PullCursor | null } {
+    const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+    const rows = this.db.prepare(`
+      SELECT id, data, "updatedAt" FROM "${table}"
+      WHERE (@since IS NULL OR "updatedAt" > @since)
+        AND (@afterUpdatedAt IS NULL OR ("updatedAt", id) > (@afterUpdatedAt, @afterId))
+        AND (@studioId IS NULL OR "studioId" = @studioId)
+      ORDER BY "updatedAt", id
+      LIMIT @limit
+    `).all({
+      since: since ?? null,
+      afterUpdatedAt: after?.updatedAt ?? null,
+      afterId: after?.id ?? null,
+      studioId: studioId ?? null,
+      limit: pageSize,
+    }) as { id: string; data: string; updatedAt: string }[];
+
+    const last = rows[rows.length - 1];
+    return {
+      rows: rows.map(row => ({ ...JSON.parse(row.data), updatedAt: row.updatedAt, synced: true })),
+      next: rows.length === pageSize ? { updatedAt: last.updatedAt, id: last.id } : null,
+    };
+  }
+
+  /**
+   * Upsert by id in one transaction, stamping each row with server time.
+   * Rows pushed by a caller are saved in their studio, and the whole push is
+   * refused if any row is another studio's or needs a permission their role
+   * lacks, the way row level security refuses it on Supabase.
+   */
+  push(table: TableName, records: RemoteRecord[], caller?: SyncCaller): void {
+    const stored = this.db.prepare(`SELECT hlc, "studioId", data FROM "${table}" WHERE id = ?`);
+    const upsert = this.db.prepare(`
+      INSERT INTO "${table}" (id, "updatedAt", hlc, deleted, "deletedAt", "purgedAt", "studioId", data)
+      VALUES (@id, @updatedAt, @hlc, @deleted, @deletedAt, @purgedAt, @studioId, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        "updatedAt" = excluded."updatedAt",
+        hlc = excluded.hlc,
+        deleted = excluded.deleted,
+        "deletedAt" = excluded."deletedAt",
+        "purgedAt" = excluded."purgedAt",
+        "studioId" = excluded."studioId",
+        data = excluded.data
+    `);
+
+    this.db.transaction((rows: RemoteRecord[]) => {
+      for (const pushed of rows) {
+        const existing = stored.get(pushed.id) as { hlc: string | null; studioId: string | null; data: string } | undefined;
+        const incoming = caller ? authorize(table, pushed, existing, caller) : pushed;
+        // An older version doesn't overwrite a newer one; restamping the stored row sends it back to the sender
+        const row = existing?.hlc && incoming.hlc && incoming.hlc < existing.hlc
+          ? JSON.parse(existing.data) as RemoteRecord
+          : incoming;
+        const updatedAt = this.stamp();
+        upsert.run({
+          id: row.id,
+          updatedAt,
+          hlc: row.hlc ?? null,
+          deleted: row.deleted ? 1 : 0,
+          deletedAt: row.deletedAt ?? null,
+          purgedAt: row.purgedAt ?? null,
+          studioId: row.studioId ?? null,
+          data: JSON.stringify({ ...row, updatedAt, synced: true }),
+        });
+      }
+    })(records);
+  }
+
+  purgeTombstones(table: TableName, deletedBefore: string, studioId?: string, purgedBefore?: string): void {
+    this.db.prepare(`
+      DELETE FROM "${table}"
+      WHERE deleted = 1
+        AND ("deletedAt" < @deletedBefore OR "purgedAt" < @purgedBefore)
+        AND (@studioId IS NULL OR "studioId" = @studioId)
+    `).run({ deletedBefore, purgedBefore: purgedBefore ?? null, studioId: studioId ?? null });
+  }
+}
+
+/**
+ * A pushed row as the caller may save it: in their studio, with the
+ * permission the change needs, and with a stored tombstone kept when their
+ * role can't delete (so an assistant can't bring a deleted register back).
+ */
+function authorize(
+  table: TableName,
+  row: RemoteRecord,
+  existing: { studioId: string | null; data: string } | undefined,
+  caller: SyncCaller
+): RemoteRecord {
+  if (existing && existing.studioId !== caller.studioId) {
+    throw new SyncAuthError(`${table} ${row.id} belongs to another studio`, 403);
+  }
+
+  const stored = existing ? JSON.parse(existing.data) as RemoteRecord & { deletedBy?: unknown } : undefined;
+  const op = row.deleted && !stored?.deleted ? "delete" : stored ? "update" : "create";
+  const permission = permissionForChange(table, op);
+  if (!can(caller.role, permission, true)) throw new PermissionError(caller.role, permission);
+
+  let allowed: RemoteRecord & { deletedBy?: unknown } = { ...row, studioId: caller.studioId };
+  if (stored?.deleted && !row.deleted && !can(caller.role, permissionForChange(table, "delete"), true)) {
+    allowed = { ...allowed, deleted: stored.deleted, deletedAt: stored.deletedAt, deletedBy: stored.deletedBy };
+  }
+  return allowed;
+}
+
+// One connection per server process; kept on globalThis so dev reloads don't open another
+const globalForSync = globalThis as unknown as { sqliteSyncStore?: SqliteSyncStore };
+
+export function getSqliteSyncStore(): SqliteSyncStore {
+  globalForSync.sqliteSyncStore ??= new SqliteSyncStore(process.env.SYNC_DB_PATH || DEFAULT_DB_PATH);
+  return globalForSync.sqliteSyncStore;
+}
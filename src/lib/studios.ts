@@ -0,0 +1,79 @@
+// Studios and membership, stored in Supabase (see supabase-schema.sql)
+// Every synced record belongs to one studio; row level security only lets
+// members of that studio read or write it
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StudioRole } from "./permissions";
+
+export interface Studio {
+  id: string;
+  name: string;
+  // The signed-in user's role in this studio
+  role: StudioRole;
+}
+
+// The studio this device last worked in, so its data loads before the session does
+const ACTIVE_STUDIO_KEY = "bb_active_studio";
+
+export function getActiveStudioId(): string | null {
+  if (typeof localStorage === "undefined") return null;
+  return localStorage.getItem(ACTIVE_STUDIO_KEY);
+}
+
+export function setActiveStudioId(studioId: string | null): void {
+  if (typeof localStorage === "undefined") return;
+  if (studioId) {
+    localStorage.setItem(ACTIVE_STUDIO_KEY, studioId);
+  } else {
+    localStorage.removeItem(ACTIVE_STUDIO_KEY);
+  }
+}
+
+type MembershipRow = {
+  role: StudioRole;
+  studios: { id: string; name: string } | null;
+};
+
+// Studios the signed-in user belongs to, by name
+export async function fetchStudios(client: SupabaseClient): Promise<Studio[]> {
+  const { data, error } = await client
+    .from("studio_members")
+    .select("role, studios(id, name)")
+    .returns<MembershipRow[]>();
+
+  if (error) {
+    console.error("Error fetching studios:", error);
+    throw error;
+  }
+
+  return (data ?? [])
+    .flatMap(row => row.studios ? [{ id: row.studios.id, name: row.studios.name, role: row.role }] : [])
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Create a studio with the signed-in user as its owner; resolves to its id
+export async function createStudio(client: SupabaseClient, name: string): Promise<string> {
+  const { data, error } = await client.rpc("create_studio", { p_name: name });
+
+  if (error) {
+    console.error("Error creating studio:", error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+// Owners only; adds the person or changes their role. They need to have signed up already
+export async function addStudioMember(
+  client: SupabaseClient,
+  studioId: string,
+  email: string,
+  role: StudioRole
+): Promise<void> {
+  const { error } = await client.rpc("add_studio_member", { p_studio_id: studioId, p_email: email, p_role: role });
+
+  if (error) {
+    console.error("Error adding studio member:", error);
+    throw error;
+  }
+}
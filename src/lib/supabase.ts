@@ -1,4 +1,6 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { PullCursor, RealtimeFilter, RemoteBackend, RemoteRecord } from "./remote-backend";
+import type { TableName } from "./sync-manager";
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -6,3 +8,105 @@ const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 export const supabase = SUPABASE_URL && SUPABASE_ANON_KEY
   ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
   : null;
+
+// Plain connection details, for code that can't use the client (the service worker)
+export const supabaseConfig = SUPABASE_URL && SUPABASE_ANON_KEY
+  ? { url: SUPABASE_URL, anonKey: SUPABASE_ANON_KEY }
+  : null;
+
+// Supabase returns at most 1000 rows per request by default
+const PULL_PAGE_SIZE = 1000;
+
+// RemoteBackend over the Supabase tables described in SYNC_SETUP_README.md
+export class SupabaseBackend implements RemoteBackend {
+  constructor(private client: SupabaseClient) {}
+
+  // Fetch rows changed since the given watermark, paging past Supabase's row limit
+  // RLS already limits rows to the user's studios; the filter narrows them to the active one
+  // Each page starts after the last row of the one before, so rows restamped mid-pull aren't skipped
+  async pullChanges<T extends RemoteRecord>(table: TableName, since?: string, studioId?: string): Promise<T[]> {
+    const rows: T[] = [];
+    let after: PullCursor | undefined;
+    for (;;) {
+      let query = this.client.from(table).select('*');
+      if (since) query = query.gt('updatedAt', since);
+      if (after) {
+        query = query.or(`updatedAt.gt."${after.updatedAt}",and(updatedAt.eq."${after.updatedAt}",id.gt."${after.id}")`);
+      }
+      if (studioId) query = query.eq('studioId', studioId);
+
+      const { data, error } = await query
+        .order('updatedAt', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(PULL_PAGE_SIZE);
+
+      if (error) {
+        console.error(`Error fetching from ${table}:`, error);
+        throw error;
+      }
+
+      // Tombstones are kept so deletes made on other devices reach this one
+      rows.push(...(data || []));
+      if (!data || data.length < PULL_PAGE_SIZE) break;
+      const last = data[data.length - 1] as T;
+      after = { updatedAt: last.updatedAt ?? '', id: last.id };
+    }
+
+    return rows;
+  }
+
+  async pushChanges(table: TableName, records: RemoteRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const { error } = await this.client
+      .from(table)
+      .upsert(records, { onConflict: 'id' });
+
+    if (error) {
+      console.error(`Error syncing to ${table}:`, error);
+      throw error;
+    }
+  }
+
+  async purgeTombstones(table: TableName, cutoff: string, studioId?: string, purgedBefore?: string): Promise<void> {
+    await this.deleteTombstones(table, 'deletedAt', cutoff, studioId);
+    if (purgedBefore) await this.deleteTombstones(table, 'purgedAt', purgedBefore, studioId);
+  }
+
+  private async deleteTombstones(table: TableName, column: string, before: string, studioId?: string): Promise<void> {
+    let query = this.client
+      .from(table)
+      .delete()
+      .eq('deleted', true)
+      .lt(column, before);
+    if (studioId) query = query.eq('studioId', studioId);
+
+    const { error } = await query;
+
+    if (error) {
+      console.error(`Error purging tombstones from ${table}:`, error);
+      throw error;
+    }
+  }
+
+  // Postgres changes over Supabase Realtime; the table must be in the supabase_realtime publication
+  // RLS applies to these too, so only the teacher's studios are heard from
+  subscribe(table: TableName, filter: RealtimeFilter, onRow: (row: RemoteRecord) => void): () => void {
+    const channel = this.client
+      .channel(`${table}:${filter.classId}:${crypto.randomUUID()}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table, filter: `classId=eq.${filter.classId}` }, payload => {
+        // Deletes only carry the old id; records leave through tombstones, which arrive as updates
+        const row = payload.new as Partial<RemoteRecord>;
+        if (!row.id) return;
+        if (filter.studioId && row.studioId !== filter.studioId) return;
+        onRow(row as RemoteRecord);
+      })
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel).catch(error => {
+        console.warn(`Failed to leave the ${table} channel:`, error);
+      });
+    };
+  }
+}
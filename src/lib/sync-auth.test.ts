@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { authenticateSync, parseSyncTokens, SyncAuthError } from "./sync-auth";
+
+const tokens = parseSyncTokens(JSON.stringify({
+  "front-desk": { studioId: "main", role: "teacher", name: "Front desk iPad" },
+  "bad-role": { studioId: "main", role: "admin" },
+  "no-studio": { role: "owner" },
+}));
+
+describe("authenticateSync", () => {
+  it("finds the studio and role a bearer token acts as", () => {
+    expect(authenticateSync("Bearer front-desk", tokens)).toEqual({ studioId: "main", role: "teacher", name: "Front desk iPad" });
+  });
+
+  it("turns away missing, unknown and badly configured tokens", () => {
+    for (const header of [null, "front-desk", "Bearer nope", "Bearer bad-role", "Bearer no-studio"]) {
+      expect(() => authenticateSync(header, tokens)).toThrow(SyncAuthError);
+    }
+  });
+
+  it("turns everyone away when no tokens are set up", () => {
+    expect(() => authenticateSync("Bearer front-desk", parseSyncTokens(undefined))).toThrow("no tokens");
+  });
+});
@@ -0,0 +1,82 @@
+// Who is calling the self-hosted sync routes
+// Each device sends a token, and SYNC_TOKENS on the server says which studio and
+// role it belongs to; without SYNC_TOKENS every request is turned away
+
+import { createHash } from "node:crypto";
+import { STUDIO_ROLES, type StudioRole } from "./permissions";
+
+export interface SyncCaller {
+  studioId: string;
+  role: StudioRole;
+  // Who the token was given to, for the server log
+  name?: string;
+}
+
+// A request without a valid token (401), or for rows it may not touch (403)
+export class SyncAuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+    this.name = "SyncAuthError";
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function isCaller(value: unknown): value is SyncCaller {
+  const caller = value as SyncCaller;
+  return !!caller
+    && typeof caller.studioId === "string"
+    && caller.studioId.length > 0
+    && STUDIO_ROLES.includes(caller.role);
+}
+
+/**
+ * Read SYNC_TOKENS: a JSON object from each token to the studio and role it
+ * acts as, e.g. {"<token>": {"studioId": "main", "role": "teacher"}}.
+ * Entries that don't name a studio and a known role are skipped.
+ */
+export function parseSyncTokens(value: string | undefined): Map<string, SyncCaller> {
+  const tokens = new Map<string, SyncCaller>();
+  if (!value) return tokens;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    console.error("SYNC_TOKENS isn't valid JSON; every sync request will be refused");
+    return tokens;
+  }
+
+  for (const [token, caller] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!token || !isCaller(caller)) {
+      console.warn("Skipping a SYNC_TOKENS entry without a studioId and a known role");
+      continue;
+    }
+    // Kept hashed, so looking one up doesn't compare the secret itself
+    tokens.set(hashToken(token), { studioId: caller.studioId, role: caller.role, name: caller.name });
+  }
+  return tokens;
+}
+
+// Parsed once per server process
+let configuredTokens: Map<string, SyncCaller> | null = null;
+
+/**
+ * The caller an `Authorization: Bearer <token>` header belongs to. Throws a
+ * SyncAuthError when it's missing or unknown.
+ */
+export function authenticateSync(
+  authorization: string | null,
+  tokens = configuredTokens ??= parseSyncTokens(process.env.SYNC_TOKENS)
+): SyncCaller {
+  if (tokens.size === 0) throw new SyncAuthError("This sync server has no tokens set up (see SYNC_TOKENS)", 401);
+
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) throw new SyncAuthError("Sign in with a sync token", 401);
+
+  const caller = tokens.get(hashToken(match[1].trim()));
+  if (!caller) throw new SyncAuthError("That sync token isn't recognised", 401);
+  return caller;
+}
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import { MemoryStore } from "./local-store";
+import { PermissionError } from "./permissions";
+import { SyncManager } from "./sync-manager";
+
+function createManager(studioId: string | null = null) {
+  const local = new MemoryStore();
+  const manager = new SyncManager({ local, remote: null, studioId, deviceId: "phone-a" });
+  return { local, manager };
+}
+
+describe("SyncManager.saveChanges", () => {
+  it("keeps another save's changes when a copy read before it is saved", async () => {
+    const { manager } = createManager();
+    await manager.saveClasses([{ id: "c1", name: "Ballet", color: "#fff" }]);
+    const [read] = await manager.getClasses();
+
+    await manager.saveClasses([{ ...read, name: "Ballet 1" }]);
+    // Still the copy read before the rename
+    await manager.saveClasses([{ ...read, color: "#000" }]);
+
+    const [stored] = await manager.getClasses();
+    expect(stored).toMatchObject({ name: "Ballet 1", color: "#000" });
+  });
+
+  it("doesn't roll back a mark changed since a register was read", async () => {
+    const { manager } = createManager();
+    await manager.saveSessions([{ id: "r1", classId: "c1", startedAtISO: "2026-03-02T09:00:00.000Z", marks: { s1: "ABSENT", s2: "ABSENT" } }]);
+    const [read] = await manager.getSessions();
+
+    await manager.saveSessions([{ ...read, marks: { ...read.marks, s1: "PRESENT" } }]);
+    await manager.saveSessions([{ ...read, marks: { ...read.marks, s2: "LATE" } }]);
+
+    const [stored] = await manager.getSessions();
+    expect(stored.marks).toEqual({ s1: "PRESENT", s2: "LATE" });
+  });
+});
+
+describe("SyncManager permissions", () => {
+  it("refuses a save the role doesn't allow, and stores nothing", async () => {
+    const { local, manager } = createManager("studio-1");
+    manager.setRole("viewer");
+
+    await expect(manager.saveClasses([{ id: "c1", name: "Ballet", color: "#fff" }])).rejects.toThrow(PermissionError);
+    expect(await local.getAll("classes")).toEqual([]);
+    expect(await local.getOutbox("classes")).toEqual([]);
+  });
+
+  it("refuses the whole save when any record in it isn't allowed", async () => {
+    const { manager } = createManager("studio-1");
+    manager.setRole("teacher");
+    const point = { id: "p1", studentId: "s1", classId: "c1", reason: "Effort", points: 1, createdAtISO: "2026-03-02T09:00:00.000Z" };
+    await manager.savePoints([point]);
+    manager.setRole("assistant");
+    const [stored] = await manager.getPoints();
+
+    const added = { ...point, id: "p2" };
+    await expect(manager.savePoints([added, { ...stored, deleted: true }])).rejects.toThrow(PermissionError);
+    expect((await manager.getPoints()).map((p) => [p.id, !!p.deleted])).toEqual([["p1", false]]);
+  });
+
+  it("refuses every save in a studio until the role is known", async () => {
+    const { local, manager } = createManager("studio-1");
+
+    await expect(manager.saveSessions([{ id: "r1", classId: "c1", startedAtISO: "2026-03-02T09:00:00.000Z", marks: {} }])).rejects.toThrow(PermissionError);
+    expect(await local.getAll("sessions")).toEqual([]);
+  });
+
+  it("only lets roles with the cleanup permission remove unsynced data", async () => {
+    const { manager } = createManager("studio-1");
+    manager.setRole("assistant");
+    await manager.saveSessions([{ id: "r1", classId: "c1", startedAtISO: "2026-03-02T09:00:00.000Z", marks: { s1: "PRESENT" } }]);
+
+    await expect(manager.cleanupUnsyncedData()).rejects.toThrow(PermissionError);
+    expect(await manager.getSessions()).toHaveLength(1);
+
+    manager.setRole("teacher");
+    expect(await manager.cleanupUnsyncedData()).toEqual({ sessions: 1, points: 0 });
+    expect(await manager.getSessions()).toEqual([]);
+  });
+
+  it("lets assistants mark registers", async () => {
+    const { manager } = createManager("studio-1");
+    manager.setRole("assistant");
+
+    await manager.saveSessions([{ id: "r1", classId: "c1", startedAtISO: "2026-03-02T09:00:00.000Z", marks: { s1: "PRESENT" } }]);
+    expect((await manager.getSessions())[0].marks).toEqual({ s1: "PRESENT" });
+  });
+});
+
+describe("SyncManager.importTransfer", () => {
+  const bundle = () => ({
+    classes: [{ id: "c1", name: "Ballet", color: "#fff", updatedAt: "2026-03-02T09:00:00.000Z" }],
+    students: [],
+    sessions: [{ id: "r1", classId: "c1", startedAtISO: "2026-03-02T09:00:00.000Z", marks: { s1: "PRESENT" }, updatedAt: "2026-03-02T09:00:00.000Z" }],
+    points: [],
+    awards: [],
+  });
+
+  it("saves the received records", async () => {
+    const { manager } = createManager("studio-1");
+    manager.setRole("teacher");
+
+    const report = await manager.importTransfer(bundle());
+    expect(report.summary.classes.added).toBe(1);
+    expect(report.summary.sessions.added).toBe(1);
+    expect(await manager.getSessions()).toHaveLength(1);
+  });
+
+  it("saves nothing when the role can't make every change", async () => {
+    const { local, manager } = createManager("studio-1");
+    manager.setRole("assistant");
+
+    // Assistants can mark the register, which is saved first, but not hand out the award
+    const award = {
+      id: "a1",
+      awardId: "star",
+      studentId: "s1",
+      classId: "c1",
+      periodType: "ACADEMIC_YEAR",
+      periodKey: "2025-2026",
+      unlockedAtISO: "2026-03-02T09:00:00.000Z",
+      decidedBy: "TEACHER",
+    };
+    await expect(manager.importTransfer({ ...bundle(), classes: [], awards: [award] })).rejects.toThrow(PermissionError);
+    expect(await local.getAll("sessions")).toEqual([]);
+    expect(await local.getAll("awards")).toEqual([]);
+    expect(await local.getMeta("lastTransfer")).toBeUndefined();
+  });
+});
+
+describe("SyncManager.repairIntegrity", () => {
+  it("keeps disagreeing marks from merged registers as mark conflicts", async () => {
+    const { manager } = createManager();
+    await manager.saveClasses([{ id: "c1", name: "Ballet", color: "#fff" }]);
+    await manager.saveStudents([{ id: "s1", name: "Ava", classId: "c1", joinedAtISO: "2026-01-01T00:00:00.000Z" }]);
+    // Started on another phone, which marked Ava present
+    await manager.saveSessions([{
+      id: "r1",
+      classId: "c1",
+      startedAtISO: "2026-03-02T09:00:00.000Z",
+      marks: { s1: "PRESENT" },
+      markMeta: { s1: { at: "2026-03-02T09:05:00.000Z", by: "phone-b" } },
+      markHistory: { s1: [{ status: "ABSENT", at: "2026-03-02T09:00:00.000Z", by: "phone-b" }, { status: "PRESENT", at: "2026-03-02T09:05:00.000Z", by: "phone-b" }] },
+    }]);
+    await manager.saveSessions([{ id: "r2", classId: "c1", startedAtISO: "2026-03-02T09:10:00.000Z", marks: { s1: "ABSENT" } }]);
+    const [register] = (await manager.getSessions()).filter((session) => session.id === "r2");
+    await manager.saveSessions([{ ...register, marks: { s1: "LATE" } }]);
+
+    const [issue] = await manager.scanIntegrity();
+    await manager.repairIntegrity(issue.id, { action: "merge" });
+
+    expect((await manager.getSessions()).map((session) => session.id)).toEqual(["r2"]);
+    const conflicts = await manager.getMarkConflicts("r2");
+    expect(conflicts.map((conflict) => [conflict.studentId, conflict.local.status, conflict.remote.status])).toEqual([["s1", "LATE", "PRESENT"]]);
+    expect(await manager.scanIntegrity()).toEqual([]);
+  });
+
+  it("removes marks for unknown students through a stamped save that keeps their history", async () => {
+    const { local, manager } = createManager();
+    await manager.saveClasses([{ id: "c1", name: "Ballet", color: "#fff" }]);
+    await manager.saveStudents([{ id: "s1", name: "Ava", classId: "c1", joinedAtISO: "2026-01-01T00:00:00.000Z" }]);
+    // Marked on another phone, which had a student this one never saw
+    await manager.saveSessions([{
+      id: "r1",
+      classId: "c1",
+      startedAtISO: new Date().toISOString(),
+      marks: { s1: "PRESENT", stranger: "LATE" },
+      markMeta: { stranger: { at: "2026-03-02T09:05:00.000Z", by: "phone-b" } },
+      markHistory: { stranger: [{ status: "LATE", at: "2026-03-02T09:05:00.000Z", by: "phone-b" }] },
+    }]);
+
+    const [issue] = await manager.scanIntegrity();
+    await manager.repairIntegrity(issue.id, { action: "removeMarks" });
+
+    const [stored] = await manager.getSessions();
+    expect(stored.marks).toEqual({ s1: "PRESENT" });
+    expect(stored.markHistory?.stranger.map((change) => change.status)).toEqual(["LATE", undefined]);
+    expect(await local.getOutbox("sessions")).toHaveLength(1);
+    expect(await manager.scanIntegrity()).toEqual([]);
+  });
+});
+
+describe("SyncManager.purgeTombstones", () => {
+  it("drops audit entries older than the tombstone retention window", async () => {
+    const { local, manager } = createManager();
+    await manager.saveClasses([{ id: "c1", name: "Ballet", color: "#fff" }]);
+    const [recent] = await manager.getRecordHistory("classes", "c1");
+    await local.putAuditEntries([{ ...recent, id: "old", at: "2020-01-01T00:00:00.000Z" }]);
+
+    await manager.purgeTombstones();
+    expect((await manager.getRecordHistory("classes", "c1")).map((entry) => entry.id)).toEqual([recent.id]);
+  });
+});
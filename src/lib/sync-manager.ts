@@ -1,7 +1,45 @@
 // Offline-first sync manager for dance attendance app
-// Stores data in localStorage first, syncs to Supabase when available
-
-import { supabase } from "./supabase";
+// Stores data locally first (IndexedDB in the browser), syncs to a remote backend when available
+
+import { supabase, supabaseConfig, SupabaseBackend } from "./supabase";
+import { openIndexedDbStore } from "./local-db";
+import {
+  MemoryStore,
+  LocalStorageStore,
+  localStoragePrefix,
+  type AuditEntry,
+  type AuditSource,
+  type LocalStore,
+  type OutboxEntry,
+  type OutboxOp,
+  type QuarantineEntry,
+  type QuarantineSource,
+  type SnapshotInfo,
+  type SnapshotReason,
+} from "./local-store";
+import { HttpBackend, type RemoteBackend } from "./remote-backend";
+import { stampMarkChanges, mergeSessionMarks, type MarkConflict } from "./marks";
+import { detectConflict, resolveConflict, type ConflictChoice, type ConflictRecord, type RecordConflict } from "./conflicts";
+import { auditEntry, diffRecords } from "./audit";
+import { planRestore, type BackupContents, type BackupRecord, type RestoreMode, type RestorePlan } from "./backup";
+import { takeSnapshot, dailySnapshotDue, readSnapshot } from "./snapshots";
+import { selectForTransfer, type TransferConflict, type TransferReport } from "./transfer";
+import { scanIntegrity, planRepair, IntegrityError, type IntegrityData, type IntegrityIssue, type IntegrityRepair } from "./integrity";
+import { getDeviceId, getSyncToken, getTeacherName } from "./device";
+import { getActiveStudioId } from "./studios";
+import { can, permissionForChange, PermissionError, type Permission, type StudioRole } from "./permissions";
+import { TabChannel } from "./tab-sync";
+import { runMigrations, normalizeRecord } from "./migrations";
+import { validateRecord } from "./schemas";
+import { drainOutbox } from "./outbox";
+import { SyncScheduler } from "./sync-scheduler";
+import { HybridClock, compareStamps } from "./hlc";
+import {
+  requestBackgroundSync,
+  onBackgroundFlush,
+  SUPABASE_CONFIG_KEY,
+  type SupabaseConfig,
+} from "./background-sync";
 
 // Types for our data models
 export interface DanceClass {
@@ -10,7 +48,12 @@ export interface DanceClass {
   color: string;
   synced?: boolean;
   updatedAt?: string;
+  hlc?: string;
   deleted?: boolean;
+  deletedAt?: string;
+  deletedBy?: TeacherRef;
+  purgedAt?: string;
+  studioId?: string;
 }
 
 export interface Student {
@@ -21,7 +64,40 @@ export interface Student {
   archived?: boolean;
   synced?: boolean;
   updatedAt?: string;
+  hlc?: string;
   deleted?: boolean;
+  deletedAt?: string;
+  deletedBy?: TeacherRef;
+  purgedAt?: string;
+  studioId?: string;
+}
+
+export type MarkStatus = "PRESENT" | "LATE" | "ABSENT" | "EXCUSED";
+
+// The teacher behind a change: the signed-in account, or the name given on a device used without one
+export interface TeacherRef {
+  id: string;
+  name: string;
+}
+
+// When and by whom a single student's mark was last changed
+export interface MarkMeta {
+  at: string;
+  // The device that made the change
+  by: string;
+  // The version this change was made on top of, used to spot concurrent edits
+  baseAt?: string;
+  teacher?: TeacherRef;
+  // Orders this change against other devices' changes to the same mark
+  hlc?: string;
+}
+
+// One change to a student's mark, kept so disputes can be traced; no status means the mark was cleared
+export interface MarkChange {
+  status?: MarkStatus;
+  at: string;
+  by: string;
+  teacher?: TeacherRef;
 }
 
 export interface RegisterSession {
@@ -29,10 +105,18 @@ export interface RegisterSession {
   classId: string;
   startedAtISO: string;
   closedAtISO?: string;
-  marks: Record<string, "PRESENT" | "LATE" | "ABSENT" | "EXCUSED">;
+  marks: Record<string, MarkStatus>;
+  markMeta?: Record<string, MarkMeta>;
+  // Every change to each student's mark, oldest first
+  markHistory?: Record<string, MarkChange[]>;
   synced?: boolean;
   updatedAt?: string;
+  hlc?: string;
   deleted?: boolean;
+  deletedAt?: string;
+  deletedBy?: TeacherRef;
+  purgedAt?: string;
+  studioId?: string;
 }
 
 export interface PointEvent {
@@ -43,9 +127,17 @@ export interface PointEvent {
   points: number;
   createdAtISO: string;
   sessionId?: string;
+  // The device and teacher that gave the points
+  createdBy?: string;
+  teacher?: TeacherRef;
   synced?: boolean;
   updatedAt?: string;
+  hlc?: string;
   deleted?: boolean;
+  deletedAt?: string;
+  deletedBy?: TeacherRef;
+  purgedAt?: string;
+  studioId?: string;
 }
 
 export interface AwardUnlock {
@@ -59,19 +151,14 @@ export interface AwardUnlock {
   decidedBy: "SYSTEM" | "TEACHER";
   synced?: boolean;
   updatedAt?: string;
+  hlc?: string;
   deleted?: boolean;
+  deletedAt?: string;
+  deletedBy?: TeacherRef;
+  purgedAt?: string;
+  studioId?: string;
 }
 
-// Storage keys
-const STORAGE_KEYS = {
-  classes: "bb_classes",
-  students: "bb_students",
-  sessions: "bb_sessions",
-  points: "bb_points",
-  awards: "bb_awards",
-  lastSync: "bb_last_sync",
-} as const;
-
 // Database table names
 const TABLES = {
   classes: "classes",
@@ -81,104 +168,813 @@ const TABLES = {
   awards: "awards",
 } as const;
 
+export type TableName = keyof typeof TABLES;
+
+// Called with the tables whose local data just changed
+export type ChangeListener = (tables: TableName[]) => void;
+
+// Per-table pull watermarks live in the local meta table
+const WATERMARK_PREFIX = "watermark:";
+const WATERMARK_OVERLAP_MS = 60 * 1000;
+
+// What an open register hears about live from other devices
+const REGISTER_TABLES: readonly TableName[] = [TABLES.sessions, TABLES.points];
+
+// Recent versions of each record handed out by this tab, used to rebase stale saves
+const READ_VERSIONS_KEPT = 5;
+
+// Diagnostics bookkeeping in the local meta table
+const LAST_SYNCED_PREFIX = "lastSynced:";
+const LAST_SYNC_KEY = "lastSync";
+const SYNC_ERRORS_KEY = "syncErrors";
+const SYNC_ERRORS_KEPT = 20;
+
+// Set on this device's unscoped data once it has been copied into a studio
+const CLAIMED_BY_KEY = "claimedBy";
+// The signed-in teacher's role, kept with the studio's data so it holds offline
+const ROLE_KEY = "studioRole";
+// When this device last sent or took in a transfer bundle; edits since then on both sides are conflicts
+const LAST_TRANSFER_KEY = "lastTransfer";
+// The latest clock stamp made or seen here, so a restart can't stamp older than it
+const HLC_KEY = "hlc";
+
+// Fields every synced record carries
+type SyncedRecord = {
+  id: string;
+  synced?: boolean;
+  updatedAt?: string;
+  // Orders versions across devices whatever their clocks say (see hlc.ts)
+  hlc?: string;
+  deleted?: boolean;
+  deletedAt?: string;
+  // Who sent it to the Trash, and when it was deleted for good
+  deletedBy?: TeacherRef;
+  purgedAt?: string;
+  studioId?: string;
+};
+
+// What a SyncManager runs on; swap these out for Node scripts or another server
+export interface SyncManagerDeps {
+  // Data for `studioId`, or for this device alone when that's null
+  local: LocalStore;
+  studioId?: string | null;
+  // Opens another studio's local data when switching; without it the studio is fixed
+  openLocal?: (studioId: string | null) => LocalStore;
+  // The remote only accepts studio data (Supabase with RLS): nothing syncs until a studio is chosen
+  studioScoped?: boolean;
+  // null keeps everything on this device
+  remote: RemoteBackend | null;
+  // Attributed to register marks changed here (defaults to this browser's id)
+  deviceId?: string;
+  // Left in local storage for the service worker's background uploads
+  serviceWorkerConfig?: SupabaseConfig | null;
+}
+
+export interface SyncOptions {
+  // How long deleted records are kept as tombstones before being purged everywhere
+  tombstoneRetentionDays: number;
+  // How long a record deleted for good from the Trash stays on the server, so other devices hear of it
+  purgeGraceDays: number;
+  // Backoff after a failed sync: the first retry waits up to the base delay, doubling up to the max
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // How often an open app syncs on its own; 0 turns it off
+  periodicSyncMinutes: number;
+  // How many local snapshots to keep, daily and pre-change ones together
+  snapshotsKept: number;
+}
+
+const DEFAULT_OPTIONS: SyncOptions = {
+  tombstoneRetentionDays: 30,
+  purgeGraceDays: 1,
+  retryBaseDelayMs: 2000,
+  retryMaxDelayMs: 5 * 60 * 1000,
+  periodicSyncMinutes: 5,
+  snapshotsKept: 10,
+};
+
+export type SyncDirection = "push" | "pull" | "purge";
+
+export type PendingCounts = Record<TableName, number>;
+
+export interface SyncErrorInfo {
+  at: string;
+  direction: SyncDirection;
+  table?: TableName;
+  message: string;
+  // The error as thrown (Supabase errors carry code, details and hint)
+  raw: string;
+}
+
+// Last time each direction completed for a table
+export interface TableSyncTimes {
+  pushedAt?: string;
+  pulledAt?: string;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  // The studio whose data is loaded; null for data kept on this device only
+  studioId: string | null;
+  // What the signed-in teacher may do there (see permissions.ts); null allows everything
+  role: StudioRole | null;
+  syncing: boolean;
+  pending: PendingCounts;
+  // Records that failed validation and are waiting for a teacher
+  quarantined: number;
+  // Records edited here and elsewhere at once, waiting for a teacher to choose
+  conflicts: number;
+  lastError: SyncErrorInfo | null;
+}
+
+export type SyncEvent =
+  | { type: "sync-started"; direction: SyncDirection; tables: TableName[] }
+  | { type: "sync-finished"; direction: SyncDirection; tables: TableName[] }
+  | { type: "sync-failed"; direction: SyncDirection; tables: TableName[]; error: SyncErrorInfo }
+  | { type: "pending-changed"; pending: PendingCounts }
+  | { type: "status-changed"; status: SyncStatus };
+
+export type SyncEventType = SyncEvent["type"];
+export type SyncEventListener<K extends SyncEventType> = (event: Extract<SyncEvent, { type: K }>) => void;
+
+export interface UnsyncedRecord {
+  entry: OutboxEntry;
+  record?: SyncedRecord & Record<string, unknown>;
+}
+
+export interface SyncDiagnostics {
+  status: SyncStatus;
+  unsynced: Record<TableName, UnsyncedRecord[]>;
+  lastSynced: Record<TableName, TableSyncTimes>;
+  errors: SyncErrorInfo[];
+  quarantined: QuarantineEntry[];
+}
+
+// Something in the Trash: a deleted record, or an archived student
+export interface TrashItem {
+  table: TableName;
+  record: SyncedRecord & Record<string, unknown>;
+  // When and by whom it was removed, where that was recorded
+  removedAt?: string;
+  removedBy?: TeacherRef;
+  // Points deleted along with a register; restoring or purging the register takes them too
+  points: PointEvent[];
+}
+
+function emptyCounts(): PendingCounts {
+  return { classes: 0, students: 0, sessions: 0, points: 0, awards: 0 };
+}
+
+function quarantineId(table: TableName, record: unknown): { id: string; recordId?: string } {
+  const recordId = record && typeof record === "object" && typeof (record as { id?: unknown }).id === "string"
+    ? (record as { id: string }).id
+    : undefined;
+  return { id: `${table}:${recordId ?? crypto.randomUUID()}`, recordId };
+}
+
+/**
+ * Split records into those that pass their schema and quarantine entries for
+ * the rest.
+ */
+function checkRecords<T>(
+  table: TableName,
+  records: unknown[],
+  source: QuarantineSource
+): { valid: T[]; rejected: QuarantineEntry[] } {
+  const valid: T[] = [];
+  const rejected: QuarantineEntry[] = [];
+  const quarantinedAt = new Date().toISOString();
+
+  for (const record of records) {
+    const outcome = validateRecord<T>(table, record);
+    if (outcome.valid) {
+      valid.push(outcome.record);
+    } else {
+      rejected.push({ ...quarantineId(table, record), table, record, problems: outcome.problems, source, quarantinedAt });
+    }
+  }
+
+  return { valid, rejected };
+}
+
+function describeError(error: unknown): { message: string; raw: string } {
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === "object" && error && "message" in error
+      ? String((error as { message: unknown }).message)
+      : String(error);
+
+  let raw: string;
+  try {
+    raw = JSON.stringify(error, error instanceof Error ? ["name", "message", "stack"] : undefined) ?? String(error);
+  } catch {
+    raw = String(error);
+  }
+
+  return { message, raw };
+}
+
+// Sync bookkeeping fields that don't count as a change to the record itself
+const SYNC_FIELDS = new Set(["synced", "updatedAt", "hlc"]);
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.keys(val).sort().reduce<Record<string, unknown>>((acc, key) => {
+          acc[key] = val[key];
+          return acc;
+        }, {})
+      : val
+  );
+}
+
+function withoutTombstones<T extends { deleted?: boolean }>(items: T[]): T[] {
+  return items.filter(item => !item.deleted);
+}
+
+// Last write wins by clock stamp; a tombstone beats an edit made at the same moment
+function isNewerVersion(a: SyncedRecord, b: SyncedRecord): boolean {
+  if (a.hlc && b.hlc) {
+    const order = compareStamps(a.hlc, b.hlc);
+    if (order !== 0) return order > 0;
+    return !!a.deleted && !b.deleted;
+  }
+  // Versions saved before clock stamps fall back to their save times
+  if (!a.updatedAt || !b.updatedAt) return false;
+  const aTime = new Date(a.updatedAt).getTime();
+  const bTime = new Date(b.updatedAt).getTime();
+  if (aTime !== bTime) return aTime > bTime;
+  return !!a.deleted && !b.deleted;
+}
+
+// Compare two versions of a record, ignoring sync bookkeeping
+function sameRecord(a: object, b: object): boolean {
+  const strip = (record: object) =>
+    Object.fromEntries(Object.entries(record).filter(([key, val]) => !SYNC_FIELDS.has(key) && val !== undefined));
+  return stableStringify(strip(a)) === stableStringify(strip(b));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Three-way merge of one level: keep `theirs` except where `mine` changed `base`
+function rebaseFields(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+  nested: boolean
+): Record<string, unknown> {
+  const result = { ...theirs };
+  const keys = new Set([...Object.keys(base), ...Object.keys(mine)]);
+
+  for (const key of keys) {
+    if (nested && SYNC_FIELDS.has(key)) continue;
+    if (stableStringify(mine[key]) === stableStringify(base[key])) continue;
+
+    // Maps such as register marks merge entry by entry
+    if (nested && isPlainObject(base[key]) && isPlainObject(mine[key]) && isPlainObject(theirs[key])) {
+      result[key] = rebaseFields(base[key], mine[key], theirs[key], false);
+    } else if (mine[key] === undefined) {
+      delete result[key];
+    } else {
+      result[key] = mine[key];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replay the edits made to an out-of-date copy of a record on top of the
+ * stored version, so a save from a stale copy (e.g. another tab's old
+ * array) doesn't undo changes written since that copy was read.
+ */
+function rebaseRecord<T extends SyncedRecord>(base: T, mine: T, theirs: T): T {
+  const merged = rebaseFields(
+    base as Record<string, unknown>,
+    mine as Record<string, unknown>,
+    theirs as Record<string, unknown>,
+    true
+  );
+  return { ...merged, updatedAt: theirs.updatedAt, hlc: theirs.hlc } as T;
+}
+
+// Points deleted within this long of their register went with it
+const CASCADE_WINDOW_MS = 60 * 1000;
+
+function deletedWith(session: SyncedRecord, point: PointEvent): boolean {
+  if (!point.deleted || point.purgedAt || point.sessionId !== session.id) return false;
+  if (!session.deletedAt || !point.deletedAt) return false;
+  return Math.abs(new Date(point.deletedAt).getTime() - new Date(session.deletedAt).getTime()) <= CASCADE_WINDOW_MS;
+}
+
+// Points remember which device and teacher gave them
+function stampPointAuthor(point: PointEvent, op: OutboxOp, deviceId: string, teacher?: TeacherRef): PointEvent {
+  if (op === 'create') {
+    return { ...point, createdBy: point.createdBy ?? deviceId, teacher: point.teacher ?? teacher };
+  }
+  return point;
+}
+
 // Sync manager class
-class SyncManager {
-  isOnline = false;
+export class SyncManager {
+  isOnline = true;
   private syncInProgress = false;
-
-  constructor() {
-    // Only access browser APIs if we're in the browser
+  private local: LocalStore;
+  private remote: RemoteBackend | null;
+  private studioId: string | null;
+  private openLocal?: (studioId: string | null) => LocalStore;
+  private studioScoped: boolean;
+  private deviceId: string;
+  private clock: HybridClock;
+  private serviceWorkerConfig: SupabaseConfig | null;
+  private accessToken: string | null = null;
+  private teacher: TeacherRef | null = null;
+  // Schema migrations finish before anything reads or writes local data
+  private ready: Promise<void>;
+  private lastSyncTime: Date | null = null;
+  private options: SyncOptions = { ...DEFAULT_OPTIONS };
+  private changeListeners = new Set<ChangeListener>();
+  private tabChannel: TabChannel | null = null;
+  private readVersions = new Map<string, SyncedRecord[]>();
+  private eventListeners = new Map<SyncEventType, Set<(event: SyncEvent) => void>>();
+  private activeSyncs = 0;
+  private status: SyncStatus = {
+    online: false,
+    studioId: null,
+    role: null,
+    syncing: false,
+    pending: emptyCounts(),
+    quarantined: 0,
+    conflicts: 0,
+    lastError: null,
+  };
+  private scheduler: SyncScheduler | null = null;
+  // Set while start() has listeners and timers running
+  private stopBrowser: (() => void) | null = null;
+  // Live rows are applied one at a time, in the order they arrive
+  private liveRows: Promise<void> = Promise.resolve();
+
+  constructor(deps: SyncManagerDeps) {
+    this.local = deps.local;
+    this.remote = deps.remote;
+    this.studioId = deps.studioId ?? null;
+    this.openLocal = deps.openLocal;
+    this.studioScoped = deps.studioScoped ?? false;
+    this.deviceId = deps.deviceId ?? getDeviceId();
+    this.clock = new HybridClock(this.deviceId);
+    this.serviceWorkerConfig = deps.serviceWorkerConfig ?? null;
+    this.status = { ...this.status, online: this.isOnline, studioId: this.studioId };
+
+    this.ready = this.migrate(this.local);
+    this.loadLastSyncTime();
+    this.loadRole();
+    this.shareServiceWorkerConfig();
+
+    // Only access browser APIs if we're in the browser; elsewhere the caller drives syncing
     if (typeof window !== 'undefined') {
       this.isOnline = navigator.onLine;
+      this.status = { ...this.status, online: this.isOnline };
 
-      // Listen for online/offline events
-      window.addEventListener('online', () => {
-        this.isOnline = true;
-        this.syncFromCloud();
-      });
-
-      window.addEventListener('offline', () => {
-        this.isOnline = false;
-      });
+      this.refreshPending();
+      this.refreshQuarantined();
+      this.refreshConflicts();
     }
   }
 
+  /**
+   * Start listening to other tabs, the service worker and the network, and
+   * syncing on a schedule. Returns a function that undoes all of it, for the
+   * effect that calls this to clean up with, so StrictMode and hot reloads
+   * don't leave a second set running.
+   */
+  start(): () => void {
+    if (typeof window === 'undefined' || this.stopBrowser) return () => this.stop();
+
+    // Other tabs write to the same database; re-read whatever they changed
+    // (a store holding its own copy, such as LocalStorageStore, refreshes it first)
+    const tabChannel = new TabChannel(tables => {
+      const local = this.local;
+      Promise.resolve(local.reload?.())
+        .catch(error => {
+          console.error('Failed to reload local data:', error);
+        })
+        .then(() => {
+          if (local !== this.local) return;
+          this.notifyChange(tables.filter((table): table is TableName => table in TABLES), false);
+        });
+    });
+    this.tabChannel = tabChannel;
+
+    const scheduler = new SyncScheduler(
+      () => this.runScheduledSync(),
+      this.schedulerOptions(),
+      () => this.isOnline && this.canReachRemote()
+    );
+    this.scheduler = scheduler;
+    scheduler.start();
+
+    // Pick up changes the service worker uploaded while this tab was open
+    const stopFlushes = onBackgroundFlush(tables => {
+      this.notifyChange(tables.filter((table): table is TableName => table in TABLES), false);
+    });
+
+    // Listen for online/offline events
+    const goOnline = () => {
+      this.isOnline = true;
+      this.updateStatus({ online: true });
+      this.scheduler?.requestSync();
+    };
+    const goOffline = () => {
+      this.isOnline = false;
+      this.updateStatus({ online: false });
+    };
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+
+    this.isOnline = navigator.onLine;
+    this.updateStatus({ online: this.isOnline });
+
+    this.stopBrowser = () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      stopFlushes();
+      scheduler.stop();
+      tabChannel.close();
+      if (this.scheduler === scheduler) this.scheduler = null;
+      if (this.tabChannel === tabChannel) this.tabChannel = null;
+    };
+    return () => this.stop();
+  }
+
+  // Undo start(); safe to call when it never ran
+  stop(): void {
+    this.stopBrowser?.();
+    this.stopBrowser = null;
+  }
+
   // Generic data operations - offline-first
-  private async getFromSupabase<T extends { deleted?: boolean }>(table: string): Promise<T[] | null> {
-    if (!this.isOnline || !supabase) return null;
+  private async pushToRemote(table: TableName, items: SyncedRecord[]): Promise<void> {
+    if (!this.isOnline || !this.remote || items.length === 0) return;
 
     try {
-      const { data, error } = await supabase
-        .from(table)
-        .select('*')
-        .order('updatedAt', { ascending: false });
-
-      if (error) {
-        console.error(`Error fetching from ${table}:`, error);
-        return null;
-      }
+      // Records keep the updatedAt they were given when they actually changed
+      await this.remote.pushChanges(TABLES[table], items.map(item => ({ ...item, synced: true })));
+    } catch (error) {
+      console.error(`Failed to sync ${table}:`, error);
+      throw error;
+    }
+  }
 
-      // Filter out deleted items
-      return (data || []).filter(item => !item.deleted);
+  // Read every valid local record, tombstones included
+  private async getFromLocalDb<T extends SyncedRecord>(table: TableName): Promise<T[]> {
+    try {
+      await this.ready;
+      const { valid: records, rejected } = checkRecords<T>(table, await this.local.getAll(table), 'local');
+      if (rejected.length > 0) await this.quarantineStored(table, rejected);
+
+      this.rememberVersions(table, records);
+      return records;
     } catch (error) {
-      console.error(`Network error fetching from ${table}:`, error);
-      return null;
+      console.error(`Error reading ${table} from local database:`, error);
+      return [];
     }
   }
 
-  private async saveToSupabase<T extends { id: string; synced?: boolean; updatedAt?: string; deleted?: boolean }>(
-    table: string,
-    items: T[]
+  // Move stored records that fail validation out of their table (and the outbox)
+  private async quarantineStored(table: TableName, rejected: QuarantineEntry[]): Promise<void> {
+    const local = this.local;
+    const ids = rejected.flatMap(entry => entry.recordId ? [entry.recordId] : []);
+
+    await local.transaction(async () => {
+      await local.putQuarantine(rejected);
+      await local.bulkDelete(table, ids);
+      for (const id of ids) await local.deleteOutboxEntry(table, id);
+    });
+
+    console.warn(`Quarantined ${rejected.length} invalid record(s) from ${table}`);
+    this.refreshQuarantined();
+  }
+
+  private rememberVersions(table: TableName, records: SyncedRecord[]): void {
+    for (const record of records) {
+      const key = `${table}:${record.id}`;
+      const versions = this.readVersions.get(key) ?? [];
+      if (versions.some(version => version.updatedAt === record.updatedAt)) continue;
+      this.readVersions.set(key, [record, ...versions].slice(0, READ_VERSIONS_KEPT));
+    }
+  }
+
+  // The version this tab read that a caller's copy was based on, if still known
+  private findReadVersion<T extends SyncedRecord>(table: TableName, item: T): T | undefined {
+    const versions = this.readVersions.get(`${table}:${item.id}`) ?? [];
+    return versions.find(version => version.updatedAt === item.updatedAt) as T | undefined;
+  }
+
+  private async getWatermark(local: LocalStore, table: TableName): Promise<string | undefined> {
+    const value = await local.getMeta(`${WATERMARK_PREFIX}${table}`);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  // Merge pulled rows and move the table's watermark (if given) in a single transaction
+  private async applyRemoteChanges<T extends SyncedRecord>(
+    local: LocalStore,
+    table: TableName,
+    remoteData: T[],
+    watermark: string | undefined,
+    rejected: QuarantineEntry[] = []
   ): Promise<void> {
-    if (!this.isOnline || !supabase || items.length === 0) return;
+    const queuedAt = new Date().toISOString();
+    let conflictCount = 0;
 
-    try {
-      const unsynced = items.filter(item => !item.synced);
-      if (unsynced.length === 0) return;
-
-      // Prepare items for upsert with updatedAt timestamp
-      const itemsToUpsert = unsynced.map(item => ({
-        ...item,
-        synced: true,
-        updatedAt: new Date().toISOString(),
-      }));
-
-      const { error } = await supabase
-        .from(table)
-        .upsert(itemsToUpsert, { onConflict: 'id' });
-
-      if (error) {
-        console.error(`Error syncing to ${table}:`, error);
-        throw error;
+    // Whatever this device changes next comes after everything it has seen
+    for (const item of remoteData) {
+      if (item.hlc) this.clock.receive(item.hlc);
+    }
+
+    await local.transaction(async () => {
+      const localData = (await local.bulkGet<T>(table, remoteData.map(item => item.id)))
+        .filter((item): item is T => !!item);
+      let merged = this.mergeData(localData, remoteData);
+
+      if (table === TABLES.sessions) {
+        const result = this.mergeSessions(
+          localData as unknown as RegisterSession[],
+          remoteData as unknown as RegisterSession[],
+          merged as unknown as RegisterSession[],
+          queuedAt
+        );
+        merged = result.sessions as unknown as T[];
+        await local.putMarkConflicts(result.conflicts);
       }
-    } catch (error) {
-      console.error(`Failed to sync ${table}:`, error);
-      throw error;
+
+      // Keep what each pulled change replaced
+      const localById = new Map(localData.map(item => [item.id, item]));
+      const remoteById = new Map(remoteData.map(item => [item.id, item]));
+
+      // A queued change made on an older server copy than this one means both sides edited it
+      const conflicts: RecordConflict[] = [];
+      for (const item of localData) {
+        const pending = await local.getOutboxEntry(table, item.id);
+        const remoteItem = remoteById.get(item.id)!;
+        if (!pending?.base) continue;
+        const conflict = detectConflict(
+          table,
+          pending.base as ConflictRecord,
+          item as unknown as ConflictRecord,
+          remoteItem as unknown as ConflictRecord,
+          isNewerVersion(item, remoteItem) ? 'local' : 'remote',
+          queuedAt
+        );
+        if (conflict) conflicts.push(conflict);
+      }
+
+      const audit = merged.flatMap(item => {
+        const previous = localById.get(item.id);
+        if (previous && sameRecord(previous, item)) return [];
+        const op: OutboxOp = !previous ? 'create' : item.deleted && !previous.deleted ? 'delete' : 'update';
+        return [auditEntry(table, op, previous, item, 'remote', queuedAt)];
+      });
+
+      await local.bulkPut(table, merged);
+      await local.putAuditEntries(audit);
+      this.rememberVersions(table, merged);
+
+      for (const item of merged) {
+        if (item.synced) {
+          // The remote version won, so any queued local change is superseded
+          await local.deleteOutboxEntry(table, item.id);
+        } else {
+          // This device's copy stays queued, now on top of the server copy just pulled
+          const pending = await local.getOutboxEntry(table, item.id);
+          const base = remoteById.get(item.id);
+          await local.putOutboxEntries([
+            pending
+              ? { ...pending, base }
+              : { table, recordId: item.id, op: item.deleted ? 'delete' : 'update', queuedAt, hlc: item.hlc, base },
+          ]);
+        }
+      }
+      await local.putRecordConflicts(conflicts);
+      conflictCount = conflicts.length;
+
+      // Invalid rows are set aside, but the watermark still moves past them
+      await local.putQuarantine(rejected);
+      if (watermark) await local.setMeta(`${WATERMARK_PREFIX}${table}`, watermark);
+      await local.setMeta(HLC_KEY, this.clock.latest());
+    });
+
+    if (rejected.length > 0) {
+      console.warn(`Quarantined ${rejected.length} invalid row(s) pulled from ${table}`);
+      this.refreshQuarantined();
+    }
+    if (conflictCount > 0) {
+      console.warn(`Found ${conflictCount} conflicting edit(s) in ${table}`);
+      this.refreshConflicts();
     }
+
+    this.notifyChange([table]);
   }
 
-  private getFromLocalStorage<T extends { deleted?: boolean }>(key: string): T[] {
-    // Only access localStorage in browser environment
-    if (typeof window === 'undefined') return [];
+  // Register marks merge per student rather than taking a whole session from one side
+  private mergeSessions(
+    localData: RegisterSession[],
+    remoteData: RegisterSession[],
+    merged: RegisterSession[],
+    detectedAt: string
+  ): { sessions: RegisterSession[]; conflicts: MarkConflict[] } {
+    const localById = new Map(localData.map(session => [session.id, session]));
+    const remoteById = new Map(remoteData.map(session => [session.id, session]));
+    const conflicts: MarkConflict[] = [];
+
+    const sessions = merged.map(session => {
+      const local = localById.get(session.id);
+      const remote = remoteById.get(session.id);
+      if (!local || !remote) return session;
+
+      const result = mergeSessionMarks(local, remote, detectedAt);
+      conflicts.push(...result.conflicts);
+
+      const next: RegisterSession = { ...session, marks: result.marks, markMeta: result.markMeta };
+      if (Object.keys(result.markHistory).length > 0) next.markHistory = result.markHistory;
+      // Marks and history kept from this device still need uploading
+      const remoteHasAll = sameRecord(
+        { marks: remote.marks, markMeta: remote.markMeta ?? {}, markHistory: remote.markHistory ?? {} },
+        { marks: next.marks, markMeta: next.markMeta, markHistory: result.markHistory }
+      );
+      return remoteHasAll ? next : { ...next, synced: false };
+    });
 
-    try {
-      const items = JSON.parse(localStorage.getItem(key) || '[]');
-      // Filter out deleted items
-      return items.filter((item: T) => !item.deleted);
-    } catch {
-      return [];
+    return { sessions, conflicts };
+  }
+
+  // Pull only the rows changed since this table's watermark
+  private async pullTable(table: TableName): Promise<void> {
+    if (!this.isOnline || !this.remote || !this.canReachRemote()) return;
+    await this.ready;
+
+    // A studio switch mid-pull must not land these rows in the other studio's data
+    const { local, studioId } = this;
+    const watermark = await this.getWatermark(local, table);
+    // Re-read a short overlap so rows committed slightly out of order aren't skipped
+    const since = watermark
+      ? new Date(new Date(watermark).getTime() - WATERMARK_OVERLAP_MS).toISOString()
+      : undefined;
+
+    // Rows from devices still on an older schema are brought up to date on the way in
+    const rows = (await this.remote.pullChanges<SyncedRecord>(TABLES[table], since, studioId ?? undefined))
+      .map(row => normalizeRecord(table, row));
+    if (rows.length > 0) {
+      // Rows come back oldest first, so the last one is the new high-water mark
+      const latest = rows[rows.length - 1].updatedAt ?? watermark ?? new Date(0).toISOString();
+      // The backend filters by studio too; this guards against one that doesn't
+      const inStudio = studioId ? rows.filter(row => row.studioId === studioId) : rows;
+      const { valid, rejected } = checkRecords<SyncedRecord>(table, inStudio, 'remote');
+      await this.applyRemoteChanges(local, table, valid, latest, rejected);
     }
+
+    await this.recordSyncTime(table, 'pulledAt');
   }
 
-  private saveToLocalStorage<T>(key: string, items: T[]): void {
-    // Only access localStorage in browser environment
-    if (typeof window === 'undefined') return;
+  // Store only the records that actually changed and queue them for upload
+  private async saveChanges<T extends SyncedRecord>(
+    table: TableName,
+    records: T[],
+    source: AuditSource = 'local'
+  ): Promise<void> {
+    await this.ready;
+    const { local, studioId } = this;
+    const role = this.status.role;
+    const teacher = this.currentTeacher();
+
+    // Records that would break pages or award maths are kept aside rather than saved
+    const { valid: items, rejected } = checkRecords<T>(table, records, 'save');
+    if (rejected.length > 0) {
+      console.warn(`Refused to save ${rejected.length} invalid record(s) to ${table}:`, rejected);
+      await local.putQuarantine(rejected);
+      this.refreshQuarantined();
+    }
+
+    let changedCount = 0;
+    await local.transaction(async () => {
+      const existing = await local.bulkGet<T>(table, items.map(item => item.id));
+      const now = new Date().toISOString();
+
+      const changed: T[] = [];
+      const entries: OutboxEntry[] = [];
+      const audit: AuditEntry[] = [];
+
+      for (let i = 0; i < items.length; i++) {
+        const previous = existing[i];
+        let incoming = items[i];
+
+        // A copy read before the stored version only contributes what it changed
+        if (previous && incoming.updatedAt && previous.updatedAt && isNewerVersion(previous, incoming)) {
+          const base = this.findReadVersion(table, incoming);
+          if (base) incoming = rebaseRecord(base, incoming, previous);
+        }
+
+        // Everything saved while a studio is active belongs to it
+        if (studioId) incoming = { ...incoming, studioId };
+
+        // One stamp for the record and any marks changed with it
+        const hlc = this.clock.now();
+        const item = table === TABLES.sessions
+          ? stampMarkChanges(
+            previous as unknown as RegisterSession | undefined,
+            incoming as unknown as RegisterSession,
+            now,
+            this.deviceId,
+            teacher,
+            hlc
+          ) as unknown as T
+          : incoming;
+
+        // Untouched records keep their original updatedAt and sync state
+        if (previous && sameRecord(previous, item)) continue;
+
+        const op: OutboxOp = !previous
+          ? 'create'
+          : item.deleted && !previous.deleted ? 'delete' : 'update';
+
+        // Refuse the whole save, as the server would
+        this.checkPermission(permissionForChange(table, op), role, studioId);
+
+        const stamped = table === TABLES.points
+          ? stampPointAuthor(item as unknown as PointEvent, op, this.deviceId, teacher) as unknown as T
+          : item;
+
+        const stored: T = {
+          ...stamped,
+          synced: false,
+          updatedAt: now,
+          hlc,
+          // Tombstones remember when they were made so they can be purged later
+          deletedAt: item.deleted ? item.deletedAt ?? previous?.deletedAt ?? now : undefined,
+          // ...and who made them, for the Trash
+          deletedBy: !item.deleted ? undefined : op === 'delete' ? teacher : item.deletedBy,
+        };
+        changed.push(stored);
+        audit.push(auditEntry(table, op, previous, stored, source, now, { deviceId: this.deviceId, teacher }));
+
+        const pending = await local.getOutboxEntry(table, item.id);
+        entries.push({
+          table,
+          recordId: item.id,
+          // A create that hasn't reached the server yet stays a create
+          op: pending?.op === 'create' && op === 'update' ? 'create' : op,
+          queuedAt: now,
+          hlc,
+          // The first queued change fixes the base; a synced copy is what the server has
+          base: pending ? pending.base : previous?.synced ? previous : undefined,
+        });
+      }
+
+      await local.bulkPut(table, changed);
+      await local.putOutboxEntries(entries);
+      await local.putAuditEntries(audit);
+      await local.setMeta(HLC_KEY, this.clock.latest());
+      changedCount = changed.length;
+      this.rememberVersions(table, changed);
+    });
+
+    if (changedCount === 0) return;
+    this.notifyChange([table]);
 
-    localStorage.setItem(key, JSON.stringify(items));
+    // Let the service worker upload these if the app closes before we do
+    requestBackgroundSync();
+
+    // Try to upload straight away if online
+    if (this.isOnline) {
+      try {
+        await this.track('push', [table], () => this.pushOutbox([table]));
+      } catch (error) {
+        console.warn(`Background sync failed for ${table}:`, error);
+        // Changes stay in the outbox; retry with backoff
+        this.scheduler?.retryLater();
+      }
+    }
   }
 
-  // Merge data with conflict resolution (Supabase takes precedence)
-  private mergeData<T extends { id: string; updatedAt?: string }>(
+  // Upload queued changes and clear them from the outbox
+  private async pushOutbox(tables: TableName[]): Promise<void> {
+    if (!this.isOnline || !this.remote || !this.canReachRemote()) return;
+    await this.ready;
+
+    await drainOutbox(
+      this.local,
+      tables,
+      (table, records) => this.pushToRemote(table, records),
+      async table => {
+        await this.recordSyncTime(table, 'pushedAt');
+        this.refreshPending();
+      }
+    );
+  }
+
+  // Merge data with conflict resolution (the remote copy takes precedence)
+  private mergeData<T extends SyncedRecord>(
     localData: T[],
     remoteData: T[] | null
   ): T[] {
@@ -196,8 +992,7 @@ class SyncManager {
       const remoteItem = merged.get(item.id);
       if (!remoteItem) {
         merged.set(item.id, { ...item, synced: false });
-      } else if (item.updatedAt && remoteItem.updatedAt &&
-                 new Date(item.updatedAt) > new Date(remoteItem.updatedAt)) {
+      } else if (isNewerVersion(item, remoteItem)) {
         // Local item is newer, keep it but mark for sync
         merged.set(item.id, { ...item, synced: false });
       }
@@ -206,393 +1001,1243 @@ class SyncManager {
     return Array.from(merged.values());
   }
 
-  // Public API methods for each data type - OFFLINE FIRST
-  async getClasses(): Promise<DanceClass[]> {
-    // Return local data immediately
-    const localData = this.getFromLocalStorage<DanceClass>(STORAGE_KEYS.classes);
+  // Tell listeners in this tab, and other tabs unless the change came from one
+  private notifyChange(tables: TableName[], broadcast = true): void {
+    if (tables.length === 0) return;
+    if (broadcast) this.tabChannel?.post(tables);
+    // Saves, pulls and other tabs all touch the shared outbox
+    this.refreshPending();
 
-    // Sync with remote in background if online
-    if (this.isOnline) {
+    for (const listener of this.changeListeners) {
       try {
-        const remoteData = await this.getFromSupabase<DanceClass>(TABLES.classes);
-        if (remoteData) {
-          const merged = this.mergeData(localData, remoteData);
-          // Update local storage with merged data
-          this.saveToLocalStorage(STORAGE_KEYS.classes, merged);
-          return merged;
-        }
+        listener(tables);
       } catch (error) {
-        console.warn('Background sync failed for classes:', error);
+        console.error('Change listener failed:', error);
       }
     }
-
-    return localData;
   }
 
-  async saveClasses(classes: DanceClass[]): Promise<void> {
-    // Merge with existing local data to avoid overwriting other data
-    const existingData = this.getFromLocalStorage<DanceClass>(STORAGE_KEYS.classes);
-    const mergedMap = new Map<string, DanceClass>();
-
-    // Add all existing data first
-    existingData.forEach(cls => {
-      mergedMap.set(cls.id, cls);
-    });
-
-    // Override with the classes being saved (they take precedence)
-    classes.forEach(cls => {
-      mergedMap.set(cls.id, cls);
-    });
+  // Subscribe to local data changes (saves, pulled remote rows and other tabs); returns an unsubscribe function
+  onChange(listener: ChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
 
-    const mergedData = Array.from(mergedMap.values());
+  // Subscribe to one kind of sync event; returns an unsubscribe function
+  on<K extends SyncEventType>(type: K, listener: SyncEventListener<K>): () => void {
+    let listeners = this.eventListeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.eventListeners.set(type, listeners);
+    }
 
-    const classesWithTimestamps = mergedData.map(cls => ({
-      ...cls,
-      synced: false,
-      updatedAt: new Date().toISOString(),
-    }));
-    this.saveToLocalStorage(STORAGE_KEYS.classes, classesWithTimestamps);
+    const wrapped = listener as (event: SyncEvent) => void;
+    listeners.add(wrapped);
+    return () => {
+      listeners.delete(wrapped);
+    };
+  }
 
-    // Sync to Supabase in background if online
-    if (this.isOnline) {
+  private emit(event: SyncEvent): void {
+    for (const listener of this.eventListeners.get(event.type) ?? []) {
       try {
-        await this.saveToSupabase(TABLES.classes, classesWithTimestamps);
-        // Mark as synced locally
-        const syncedClasses = classesWithTimestamps.map(cls => ({ ...cls, synced: true }));
-        this.saveToLocalStorage(STORAGE_KEYS.classes, syncedClasses);
+        listener(event);
       } catch (error) {
-        console.warn('Background sync failed for classes:', error);
-        // Items remain marked as unsynced for later sync
+        console.error(`Sync event listener for ${event.type} failed:`, error);
       }
     }
   }
 
-  async getStudents(): Promise<Student[]> {
-    // Return local data immediately
-    const localData = this.getFromLocalStorage<Student>(STORAGE_KEYS.students);
+  private updateStatus(changes: Partial<SyncStatus>): void {
+    // A new object each time, so React can compare snapshots by identity
+    this.status = { ...this.status, ...changes };
+    this.emit({ type: 'status-changed', status: this.status });
+  }
 
-    // Sync with remote in background if online
-    if (this.isOnline) {
-      try {
-        const remoteData = await this.getFromSupabase<Student>(TABLES.students);
-        if (remoteData) {
-          const merged = this.mergeData(localData, remoteData);
-          this.saveToLocalStorage(STORAGE_KEYS.students, merged);
-          return merged;
-        }
-      } catch (error) {
-        console.warn('Background sync failed for students:', error);
-      }
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  // Run a push or pull, reporting its start and outcome to event listeners
+  private async track<R>(direction: SyncDirection, tables: TableName[], work: () => Promise<R>): Promise<R> {
+    this.activeSyncs++;
+    this.emit({ type: 'sync-started', direction, tables });
+    this.updateStatus({ syncing: true });
+
+    try {
+      const result = await work();
+      this.emit({ type: 'sync-finished', direction, tables });
+      return result;
+    } catch (error) {
+      const info = await this.recordError(direction, tables.length === 1 ? tables[0] : undefined, error);
+      this.emit({ type: 'sync-failed', direction, tables, error: info });
+      throw error;
+    } finally {
+      this.activeSyncs--;
+      this.updateStatus({ syncing: this.activeSyncs > 0 });
     }
+  }
 
-    return localData;
+  private async recordError(direction: SyncDirection, table: TableName | undefined, error: unknown): Promise<SyncErrorInfo> {
+    const info: SyncErrorInfo = { at: new Date().toISOString(), direction, table, ...describeError(error) };
+    this.updateStatus({ lastError: info });
+
+    try {
+      const stored = await this.local.getMeta(SYNC_ERRORS_KEY);
+      const errors = Array.isArray(stored) ? stored as SyncErrorInfo[] : [];
+      await this.local.setMeta(SYNC_ERRORS_KEY, [info, ...errors].slice(0, SYNC_ERRORS_KEPT));
+    } catch (storeError) {
+      console.error('Failed to record sync error:', storeError);
+    }
+
+    return info;
   }
 
-  async saveStudents(students: Student[]): Promise<void> {
-    // Merge with existing local data to avoid overwriting other data
-    const existingData = this.getFromLocalStorage<Student>(STORAGE_KEYS.students);
-    const mergedMap = new Map<string, Student>();
+  private async recordSyncTime(table: TableName, field: keyof TableSyncTimes): Promise<void> {
+    const key = `${LAST_SYNCED_PREFIX}${table}`;
+    const times = ((await this.local.getMeta(key)) ?? {}) as TableSyncTimes;
+    await this.local.setMeta(key, { ...times, [field]: new Date().toISOString() });
+  }
 
-    // Add all existing data first
-    existingData.forEach(student => {
-      mergedMap.set(student.id, student);
-    });
+  // Number of queued changes per table
+  async getPendingCounts(): Promise<PendingCounts> {
+    const counts = emptyCounts();
+    await this.ready;
+    for (const table of Object.values(TABLES)) {
+      counts[table] = await this.local.countOutbox(table);
+    }
+    return counts;
+  }
 
-    // Override with the students being saved (they take precedence)
-    students.forEach(student => {
-      mergedMap.set(student.id, student);
-    });
+  private refreshPending(): void {
+    this.getPendingCounts()
+      .then(pending => {
+        if (stableStringify(pending) === stableStringify(this.status.pending)) return;
+        this.emit({ type: 'pending-changed', pending });
+        this.updateStatus({ pending });
+      })
+      .catch(error => {
+        console.error('Failed to count pending changes:', error);
+      });
+  }
 
-    const mergedData = Array.from(mergedMap.values());
+  private refreshQuarantined(): void {
+    this.ready
+      .then(() => this.local.getQuarantine())
+      .then(entries => {
+        if (entries.length !== this.status.quarantined) this.updateStatus({ quarantined: entries.length });
+      })
+      .catch(error => {
+        console.error('Failed to count quarantined records:', error);
+      });
+  }
 
-    const studentsWithTimestamps = mergedData.map(student => ({
-      ...student,
-      synced: false,
-      updatedAt: new Date().toISOString(),
-    }));
-    this.saveToLocalStorage(STORAGE_KEYS.students, studentsWithTimestamps);
+  private refreshConflicts(): void {
+    this.ready
+      .then(() => this.local.getRecordConflicts())
+      .then(conflicts => {
+        if (conflicts.length !== this.status.conflicts) this.updateStatus({ conflicts: conflicts.length });
+      })
+      .catch(error => {
+        console.error('Failed to count conflicts:', error);
+      });
+  }
 
-    // Sync to Supabase in background if online
-    if (this.isOnline) {
-      try {
-        await this.saveToSupabase(TABLES.students, studentsWithTimestamps);
-        const syncedStudents = studentsWithTimestamps.map(student => ({ ...student, synced: true }));
-        this.saveToLocalStorage(STORAGE_KEYS.students, syncedStudents);
-      } catch (error) {
-        console.warn('Background sync failed for students:', error);
-      }
+  // Records edited here and on another device at once, newest first
+  async getRecordConflicts(): Promise<RecordConflict[]> {
+    await this.ready;
+    const conflicts = await this.local.getRecordConflicts();
+    return conflicts.sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }
+
+  /**
+   * Settle a conflict by saving the chosen copy, or the chosen side of each
+   * field, over whatever is stored now. It's saved as a fresh change, so it
+   * syncs to every device whichever copy the pull kept.
+   */
+  async resolveRecordConflict(conflictId: string, choice: ConflictChoice): Promise<void> {
+    await this.ready;
+    const conflict = await this.local.getRecordConflict(conflictId);
+    if (!conflict) return;
+
+    const [current] = await this.local.bulkGet<ConflictRecord>(conflict.table, [conflict.recordId]);
+    if (current) {
+      await this.saveChanges(conflict.table, [resolveConflict(conflict, current, choice)], 'conflict');
     }
+
+    await this.local.deleteRecordConflict(conflictId);
+    this.refreshConflicts();
+    this.notifyChange([conflict.table]);
   }
 
-  async getSessions(): Promise<RegisterSession[]> {
-    const localData = this.getFromLocalStorage<RegisterSession>(STORAGE_KEYS.sessions);
+  // Records that failed validation, newest first
+  async getQuarantine(): Promise<QuarantineEntry[]> {
+    await this.ready;
+    const entries = await this.local.getQuarantine();
+    return entries.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+  }
 
-    if (this.isOnline) {
-      try {
-        const remoteData = await this.getFromSupabase<RegisterSession>(TABLES.sessions);
-        if (remoteData) {
-          const merged = this.mergeData(localData, remoteData);
-          this.saveToLocalStorage(STORAGE_KEYS.sessions, merged);
-          return merged;
-        }
-      } catch (error) {
-        console.warn('Background sync failed for sessions:', error);
+  /**
+   * Save an edited copy of a quarantined record. Resolves to the problems
+   * that remain; an empty list means it was saved and left quarantine.
+   */
+  async repairQuarantined(entryId: string, record: unknown): Promise<string[]> {
+    await this.ready;
+    const entry = await this.local.getQuarantineEntry(entryId);
+    if (!entry) return ['This record is no longer quarantined'];
+
+    const outcome = validateRecord<SyncedRecord>(entry.table, record);
+    if (!outcome.valid) return outcome.problems;
+
+    await this.local.deleteQuarantineEntry(entryId);
+    await this.saveChanges(entry.table, [outcome.record]);
+    this.refreshQuarantined();
+    return [];
+  }
+
+  // Drop a quarantined record from this device; copies elsewhere are untouched
+  async discardQuarantined(entryId: string): Promise<void> {
+    await this.ready;
+    await this.local.deleteQuarantineEntry(entryId);
+    this.refreshQuarantined();
+  }
+
+  // Orphans and duplicate registers across all local data (see integrity.ts)
+  async scanIntegrity(): Promise<IntegrityIssue[]> {
+    return scanIntegrity(await this.readIntegrityData());
+  }
+
+  /**
+   * Fix one problem from scanIntegrity(). The data is scanned again first,
+   * so a problem already fixed (here or by a sync) isn't fixed twice. The
+   * repair is saved as ordinary changes, logged as "Fixed by the data
+   * check", and syncs; nothing is saved unless the role allows all of it.
+   * Marks that merged registers disagree on are kept as mark conflicts.
+   */
+  async repairIntegrity(issueId: string, repair: IntegrityRepair): Promise<void> {
+    const data = await this.readIntegrityData();
+    const issue = scanIntegrity(data).find(item => item.id === issueId);
+    if (!issue) throw new IntegrityError('That problem has already been fixed', 'fixed');
+
+    const { saves, markConflicts } = planRepair(issue, repair, data, new Date().toISOString());
+    const tables = Object.values(TABLES).filter(table => (saves[table]?.length ?? 0) > 0);
+
+    for (const table of tables) {
+      for (const record of saves[table] as SyncedRecord[]) {
+        this.checkPermission(permissionForChange(table, record.deleted ? 'delete' : 'update'));
       }
     }
 
-    return localData;
+    for (const table of tables) {
+      await this.saveChanges(table, saves[table] as SyncedRecord[], 'repair');
+    }
+    if (markConflicts.length > 0) {
+      await this.local.putMarkConflicts(markConflicts);
+      this.notifyChange([TABLES.sessions]);
+    }
+  }
+
+  private async readIntegrityData(): Promise<IntegrityData> {
+    const students = await this.getFromLocalDb<Student>(TABLES.students);
+    const sessions = await this.getFromLocalDb<RegisterSession>(TABLES.sessions);
+    // Older registers can mark students purged with their tombstones, as purgeTombstones() leaves them
+    const tombstoneCutoff = new Date(Date.now() - this.options.tombstoneRetentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    // Students purged from the Trash sooner are only in the audit log now
+    const studentIds = new Set(students.map(student => student.id));
+    const missing = new Set(sessions
+      .filter(session => !session.deleted && session.startedAtISO >= tombstoneCutoff)
+      .flatMap(session => Object.keys(session.marks ?? {}))
+      .filter(studentId => !studentIds.has(studentId)));
+    const purgedStudentIds: string[] = [];
+    for (const studentId of missing) {
+      if ((await this.local.getAuditLog(TABLES.students, studentId)).length > 0) purgedStudentIds.push(studentId);
+    }
+
+    return {
+      classes: await this.getFromLocalDb<DanceClass>(TABLES.classes),
+      students,
+      sessions,
+      points: await this.getFromLocalDb<PointEvent>(TABLES.points),
+      awards: await this.getFromLocalDb<AwardUnlock>(TABLES.awards),
+      tombstoneCutoff,
+      purgedStudentIds,
+    };
+  }
+
+  // Everything the sync diagnostics screen shows
+  async getDiagnostics(): Promise<SyncDiagnostics> {
+    const unsynced = {} as Record<TableName, UnsyncedRecord[]>;
+    const lastSynced = {} as Record<TableName, TableSyncTimes>;
+    await this.ready;
+
+    for (const table of Object.values(TABLES)) {
+      const entries = await this.local.getOutbox(table);
+      const records = await this.local.bulkGet<NonNullable<UnsyncedRecord['record']>>(
+        table,
+        entries.map(entry => entry.recordId)
+      );
+      unsynced[table] = entries.map((entry, i) => ({ entry, record: records[i] }));
+
+      const times = await this.local.getMeta(`${LAST_SYNCED_PREFIX}${table}`);
+      lastSynced[table] = (times ?? {}) as TableSyncTimes;
+    }
+
+    const stored = await this.local.getMeta(SYNC_ERRORS_KEY);
+    const errors = Array.isArray(stored) ? stored as SyncErrorInfo[] : [];
+    const quarantined = await this.getQuarantine();
+
+    return { status: this.status, unsynced, lastSynced, errors, quarantined };
+  }
+
+  async clearSyncErrors(): Promise<void> {
+    await this.local.deleteMeta(SYNC_ERRORS_KEY);
+    this.updateStatus({ lastError: null });
+  }
+
+  // Push queued changes, then pull, without waiting for the next backoff
+  async retryNow(): Promise<void> {
+    if (this.scheduler) {
+      this.scheduler.requestSync();
+      return;
+    }
+    await this.runScheduledSync();
+  }
+
+  // Local rows without tombstones, without touching the network
+  async readLocal<T extends SyncedRecord>(table: TableName): Promise<T[]> {
+    return withoutTombstones(await this.getFromLocalDb<T>(table));
+  }
+
+  // Pull a table's remote changes; listeners hear about any rows that arrive
+  async refresh(table: TableName): Promise<void> {
+    if (!this.isOnline) return;
+    try {
+      await this.track('pull', [table], () => this.pullTable(table));
+    } catch (error) {
+      console.warn(`Background sync failed for ${table}:`, error);
+    }
+  }
+
+  /**
+   * Apply other devices' registers and points for a class as the server
+   * stores them, for as long as its register page is open. Returns a
+   * function that stops listening. Does nothing on backends without
+   * realtime; their changes still arrive with the next pull.
+   */
+  watchRegister(classId: string): () => void {
+    const { remote, studioId } = this;
+    if (!remote?.subscribe || !this.canReachRemote()) return () => {};
+    const subscribe = remote.subscribe.bind(remote);
+
+    const stops = REGISTER_TABLES.map(table =>
+      subscribe(TABLES[table], { classId, studioId: studioId ?? undefined }, row => {
+        this.applyLiveRow(table, row as SyncedRecord, studioId);
+      })
+    );
+    return () => stops.forEach(stop => stop());
   }
 
+  // A live row merges like a pulled one, but leaves the watermark alone: other classes' rows may be behind it
+  private applyLiveRow(table: TableName, row: SyncedRecord, studioId: string | null): void {
+    this.liveRows = this.liveRows
+      .then(async () => {
+        await this.ready;
+        // Subscribed for another studio's data; this one's is open now
+        if (this.studioId !== studioId) return;
+        if (studioId && row.studioId !== studioId) return;
+
+        const { valid, rejected } = checkRecords<SyncedRecord>(table, [normalizeRecord(table, row)], 'remote');
+        await this.applyRemoteChanges(this.local, table, valid, undefined, rejected);
+      })
+      .catch(error => {
+        console.warn(`Failed to apply a live change to ${table}:`, error);
+      });
+  }
+
+  // Entity reads - local first, after pulling remote changes when online
+  private async getEntities<T extends SyncedRecord>(table: TableName): Promise<T[]> {
+    await this.refresh(table);
+    return this.readLocal<T>(table);
+  }
+
+  async getClasses(): Promise<DanceClass[]> {
+    return this.getEntities<DanceClass>(TABLES.classes);
+  }
+
+
+  async saveClasses(classes: DanceClass[]): Promise<void> {
+    await this.saveChanges(TABLES.classes, classes);
+  }
+
+
+  async getStudents(): Promise<Student[]> {
+    return this.getEntities<Student>(TABLES.students);
+  }
+
+
+  async saveStudents(students: Student[]): Promise<void> {
+    await this.saveChanges(TABLES.students, students);
+  }
+
+
+  async getSessions(): Promise<RegisterSession[]> {
+    return this.getEntities<RegisterSession>(TABLES.sessions);
+  }
+
+
   async saveSessions(sessions: RegisterSession[]): Promise<void> {
-    // Merge with existing local data to avoid overwriting other data
-    const existingData = this.getFromLocalStorage<RegisterSession>(STORAGE_KEYS.sessions);
-    const mergedMap = new Map<string, RegisterSession>();
+    await this.saveChanges(TABLES.sessions, sessions);
+  }
 
-    // Add all existing data first
-    existingData.forEach(session => {
-      mergedMap.set(session.id, session);
-    });
 
-    // Override with the sessions being saved (they take precedence)
-    sessions.forEach(session => {
-      mergedMap.set(session.id, session);
-    });
+  async getPoints(): Promise<PointEvent[]> {
+    return this.getEntities<PointEvent>(TABLES.points);
+  }
 
-    const mergedData = Array.from(mergedMap.values());
 
-    const sessionsWithTimestamps = mergedData.map(session => ({
-      ...session,
-      synced: false,
-      updatedAt: new Date().toISOString(),
-    }));
-    this.saveToLocalStorage(STORAGE_KEYS.sessions, sessionsWithTimestamps);
+  async savePoints(points: PointEvent[]): Promise<void> {
+    await this.saveChanges(TABLES.points, points);
+  }
 
-    if (this.isOnline) {
-      try {
-        await this.saveToSupabase(TABLES.sessions, sessionsWithTimestamps);
-        const syncedSessions = sessionsWithTimestamps.map(session => ({ ...session, synced: true }));
-        this.saveToLocalStorage(STORAGE_KEYS.sessions, syncedSessions);
-      } catch (error) {
-        console.warn('Background sync failed for sessions:', error);
+
+  async getAwards(): Promise<AwardUnlock[]> {
+    return this.getEntities<AwardUnlock>(TABLES.awards);
+  }
+
+
+  async saveAwards(awards: AwardUnlock[]): Promise<void> {
+    await this.saveChanges(TABLES.awards, awards);
+  }
+
+
+  // Marks that two teachers changed at the same time, newest first
+  async getMarkConflicts(sessionId?: string): Promise<MarkConflict[]> {
+    await this.ready;
+    const conflicts = await this.local.getMarkConflicts(sessionId);
+    return conflicts.sort((a, b) => b.detectedAt.localeCompare(a.detectedAt));
+  }
+
+  // Settle a mark conflict by re-applying the chosen side as a fresh change
+  async resolveMarkConflict(conflictId: string, keep: 'local' | 'remote'): Promise<void> {
+    await this.ready;
+    const conflict = await this.local.getMarkConflict(conflictId);
+    if (!conflict) return;
+
+    const [session] = await this.local.bulkGet<RegisterSession>(TABLES.sessions, [conflict.sessionId]);
+    if (session) {
+      const status = conflict[keep].status;
+      const marks = { ...session.marks };
+      if (status) {
+        marks[conflict.studentId] = status;
+      } else {
+        delete marks[conflict.studentId];
       }
+
+      // Restamp even if the chosen status already won, so the decision reaches other devices
+      const markMeta = { ...(session.markMeta ?? {}) };
+      const current = markMeta[conflict.studentId];
+      markMeta[conflict.studentId] = {
+        at: new Date().toISOString(),
+        by: this.deviceId,
+        baseAt: current?.at,
+        teacher: this.currentTeacher(),
+        hlc: this.clock.now(),
+      };
+
+      await this.saveSessions([{ ...session, marks, markMeta }]);
     }
+
+    await this.local.deleteMarkConflict(conflictId);
+    // Conflicts are shown alongside their session
+    this.notifyChange([TABLES.sessions]);
   }
 
-  async getPoints(): Promise<PointEvent[]> {
-    const localData = this.getFromLocalStorage<PointEvent>(STORAGE_KEYS.points);
+  // Every recorded change to one record, newest first
+  async getRecordHistory(table: TableName, recordId: string): Promise<AuditEntry[]> {
+    await this.ready;
+    const entries = await this.local.getAuditLog(table, recordId);
+    return entries.reverse();
+  }
 
-    if (this.isOnline) {
-      try {
-        const remoteData = await this.getFromSupabase<PointEvent>(TABLES.points);
-        if (remoteData) {
-          const merged = this.mergeData(localData, remoteData);
-          this.saveToLocalStorage(STORAGE_KEYS.points, merged);
-          return merged;
+  /**
+   * Put a record back the way it was after an earlier change. The old
+   * version is saved as a new change, so the revert itself is logged and
+   * synced like any other edit, and can be reverted in turn.
+   */
+  async revertRecord(entryId: string): Promise<void> {
+    await this.ready;
+    const entry = await this.local.getAuditEntry(entryId);
+    if (!entry) throw new Error('That version is no longer available');
+
+    const version = entry.after as SyncedRecord;
+    // Without its old updatedAt the version isn't mistaken for a stale copy and rebased
+    await this.saveChanges(
+      entry.table,
+      [{ ...version, synced: undefined, updatedAt: undefined, hlc: undefined, deleted: !!version.deleted }],
+      'revert'
+    );
+  }
+
+  // Deleted records and archived students, newest first, leaving out what was purged
+  async getTrash(): Promise<TrashItem[]> {
+    await this.ready;
+    const points = await this.local.getAll<PointEvent>(TABLES.points);
+    const items: TrashItem[] = [];
+
+    for (const table of Object.values(TABLES)) {
+      const records = table === TABLES.points
+        ? points
+        : await this.local.getAll<SyncedRecord & Record<string, unknown>>(table);
+
+      for (const record of records as (SyncedRecord & Record<string, unknown>)[]) {
+        if (record.purgedAt) continue;
+
+        if (record.deleted) {
+          items.push({
+            table,
+            record,
+            removedAt: record.deletedAt,
+            removedBy: record.deletedBy,
+            points: table === TABLES.sessions ? points.filter(point => deletedWith(record, point)) : [],
+          });
+        } else if (table === TABLES.students && record.archived) {
+          // Archiving isn't a delete, so the audit log is the only record of it
+          const archive = (await this.local.getAuditLog(table, record.id))
+            .reverse()
+            .find(entry => entry.changes.some(change => change.field === 'archived' && change.after === true));
+          items.push({ table, record, removedAt: archive?.at, removedBy: archive?.teacher, points: [] });
         }
-      } catch (error) {
-        console.warn('Background sync failed for points:', error);
       }
     }
 
-    return localData;
+    // Points that went with a register are listed under it
+    const cascaded = new Set(items.flatMap(item => item.points.map(point => point.id)));
+    return items
+      .filter(item => !(item.table === TABLES.points && cascaded.has(item.record.id)))
+      .sort((a, b) => (b.removedAt ?? '').localeCompare(a.removedAt ?? ''));
   }
 
-  async savePoints(points: PointEvent[]): Promise<void> {
-    // Merge with existing local data to avoid overwriting other data
-    const existingData = this.getFromLocalStorage<PointEvent>(STORAGE_KEYS.points);
-    const mergedMap = new Map<string, PointEvent>();
+  // Undoing a delete, or making it permanent, needs the same permission as the delete
+  private checkTrashPermission(table: TableName): void {
+    this.checkPermission(permissionForChange(table, 'delete'));
+  }
 
-    // Add all existing data first
-    existingData.forEach(point => {
-      mergedMap.set(point.id, point);
-    });
+  // The records to act on, with any points deleted along with registers among them
+  private async trashRecords(table: TableName, ids: string[]) {
+    const records = (await this.local.bulkGet<SyncedRecord & { archived?: boolean }>(table, ids))
+      .filter((record): record is SyncedRecord & { archived?: boolean } => !!record && !record.purgedAt)
+      .filter(record => record.deleted || record.archived);
 
-    // Override with the points being saved (they take precedence)
-    points.forEach(point => {
-      mergedMap.set(point.id, point);
-    });
+    const points = table === TABLES.sessions
+      ? (await this.local.getAll<PointEvent>(TABLES.points))
+        .filter(point => records.some(session => deletedWith(session, point)))
+      : [];
+
+    return { records, points };
+  }
 
-    const mergedData = Array.from(mergedMap.values());
+  // Take records out of the Trash; a register brings back the points deleted with it
+  async restoreFromTrash(table: TableName, ids: string[]): Promise<void> {
+    await this.ready;
+    this.checkTrashPermission(table);
+    const { records, points } = await this.trashRecords(table, ids);
+
+    await this.saveChanges(table, records.map(record => ({
+      ...record,
+      deleted: false,
+      ...(table === TABLES.students ? { archived: false } : {}),
+    })));
+    if (points.length > 0) {
+      await this.saveChanges(TABLES.points, points.map(point => ({ ...point, deleted: false })));
+    }
+  }
 
-    const pointsWithTimestamps = mergedData.map(point => ({
-      ...point,
-      synced: false,
-      updatedAt: new Date().toISOString(),
-    }));
-    this.saveToLocalStorage(STORAGE_KEYS.points, pointsWithTimestamps);
+  /**
+   * Delete records for good. The tombstone is marked as purged and synced
+   * like any other change, so every device drops its copy; the server
+   * removes the row once the purge grace period has passed.
+   */
+  async purgeFromTrash(table: TableName, ids: string[]): Promise<void> {
+    await this.ready;
+    this.checkTrashPermission(table);
+    const { records, points } = await this.trashRecords(table, ids);
+    if (records.length === 0) return;
+    await this.snapshot('purge');
+    const purgedAt = new Date().toISOString();
+
+    await this.saveChanges(table, records.map(record => ({ ...record, deleted: true, purgedAt })));
+    if (points.length > 0) {
+      await this.saveChanges(TABLES.points, points.map(point => ({ ...point, purgedAt })));
+    }
+    await this.purgeTombstones();
+  }
 
-    if (this.isOnline) {
-      try {
-        await this.saveToSupabase(TABLES.points, pointsWithTimestamps);
-        const syncedPoints = pointsWithTimestamps.map(point => ({ ...point, synced: true }));
-        this.saveToLocalStorage(STORAGE_KEYS.points, syncedPoints);
-      } catch (error) {
-        console.warn('Background sync failed for points:', error);
+  /**
+   * Delete the registers and points that haven't been uploaded yet, after a
+   * snapshot they can be rolled back from. Resolves to how many of each went.
+   */
+  async cleanupUnsyncedData(): Promise<{ sessions: number; points: number }> {
+    await this.ready;
+    this.checkPermission('cleanupUnsynced');
+    const sessions = (await this.readLocal<RegisterSession>(TABLES.sessions)).filter(session => !session.synced);
+    const points = (await this.readLocal<PointEvent>(TABLES.points)).filter(point => !point.synced);
+    if (sessions.length === 0 && points.length === 0) return { sessions: 0, points: 0 };
+
+    await this.snapshot('cleanup');
+    await this.saveChanges(TABLES.sessions, sessions.map(session => ({ ...session, deleted: true })));
+    await this.saveChanges(TABLES.points, points.map(point => ({ ...point, deleted: true })));
+    return { sessions: sessions.length, points: points.length };
+  }
+
+  // Every record in the active studio's local data, tombstones included, for a backup file
+  async exportRecords(): Promise<Record<TableName, BackupRecord[]>> {
+    await this.ready;
+    const records = {} as Record<TableName, BackupRecord[]>;
+    for (const table of Object.values(TABLES)) {
+      records[table] = await this.local.getAll<BackupRecord>(table);
+    }
+    return records;
+  }
+
+  // What restoring these backup records would change here; nothing is saved
+  async previewRestore(records: Record<TableName, BackupRecord[]>, mode: RestoreMode): Promise<RestorePlan> {
+    return planRestore(await this.exportRecords(), records, mode);
+  }
+
+  /**
+   * Restore backup records as ordinary saves, so they're validated, logged
+   * and synced like any other change. Only a studio's owner may restore
+   * over its shared data.
+   */
+  async restoreBackup(records: Record<TableName, BackupRecord[]>, mode: RestoreMode): Promise<RestorePlan> {
+    await this.ready;
+    this.checkRestorePermission();
+    await this.snapshot('restore');
+    return this.applyRestore(records, mode, 'backup');
+  }
+
+  private checkRestorePermission(): void {
+    this.checkPermission('manageStudio');
+  }
+
+  private async applyRestore(
+    records: Record<TableName, BackupRecord[]>,
+    mode: RestoreMode,
+    source: AuditSource
+  ): Promise<RestorePlan> {
+    const plan = await this.previewRestore(records, mode);
+    for (const table of Object.values(TABLES)) {
+      const rows = plan.changes.filter(change => change.table === table).map(change => change.record);
+      if (rows.length > 0) await this.saveChanges(table, rows, source);
+    }
+    return plan;
+  }
+
+  /**
+   * Records to send to another device: everything, or one class and what
+   * belongs to it. Marks the exchange, so edits made after it count as
+   * conflicts when a bundle comes back.
+   */
+  async exportTransfer(classId?: string): Promise<Record<TableName, BackupRecord[]>> {
+    const records = selectForTransfer(await this.exportRecords(), classId);
+    await this.local.setMeta(LAST_TRANSFER_KEY, new Date().toISOString());
+    return records;
+  }
+
+  // What taking in a transfer bundle would change here; nothing is saved
+  async previewTransfer(records: Record<TableName, BackupRecord[]>): Promise<TransferReport> {
+    await this.ready;
+    return (await this.planTransfer(records, new Date().toISOString())).report;
+  }
+
+  /**
+   * Merge records received from another device the way a pull would: the
+   * copy saved last wins, and register marks merge student by student. The
+   * winners are saved as ordinary changes, so they're checked, logged and
+   * uploaded once this device syncs. Damaged rows go to the quarantine.
+   * Nothing is saved unless the role allows all of it.
+   */
+  async importTransfer(records: Record<TableName, BackupRecord[]>): Promise<TransferReport> {
+    await this.ready;
+    const { local } = this;
+    const detectedAt = new Date().toISOString();
+    const { report, saves, rejected } = await this.planTransfer(records, detectedAt);
+
+    if (this.studioId) {
+      for (const table of Object.values(TABLES)) {
+        const existing = await local.bulkGet<SyncedRecord>(table, saves[table].map(item => item.id));
+        saves[table].forEach((item, i) => {
+          const previous = existing[i];
+          const op: OutboxOp = !previous ? 'create' : item.deleted && !previous.deleted ? 'delete' : 'update';
+          this.checkPermission(permissionForChange(table, op));
+        });
+      }
+    }
+
+    // The saves below are stamped after everything the sending device had seen
+    for (const rows of Object.values(records)) {
+      for (const row of rows ?? []) {
+        if (typeof row.hlc === 'string') this.clock.receive(row.hlc);
       }
     }
+
+    for (const table of Object.values(TABLES)) {
+      if (saves[table].length > 0) await this.saveChanges(table, saves[table], 'transfer');
+    }
+    await local.putMarkConflicts(report.markConflicts);
+    if (rejected.length > 0) {
+      console.warn(`Quarantined ${rejected.length} invalid row(s) from a transfer bundle`);
+      await local.putQuarantine(rejected);
+      this.refreshQuarantined();
+    }
+    await local.setMeta(LAST_TRANSFER_KEY, new Date().toISOString());
+
+    if (report.markConflicts.length > 0) this.notifyChange([TABLES.sessions]);
+    return report;
   }
 
-  async getAwards(): Promise<AwardUnlock[]> {
-    const localData = this.getFromLocalStorage<AwardUnlock>(STORAGE_KEYS.awards);
+  private async planTransfer(records: Record<TableName, BackupRecord[]>, detectedAt: string) {
+    const { local } = this;
+    const lastTransfer = await local.getMeta(LAST_TRANSFER_KEY) as string | undefined;
+    // Both copies changed since the devices last swapped data, so neither simply follows the other
+    const changedSince = (record: SyncedRecord) => !lastTransfer || !record.updatedAt || record.updatedAt > lastTransfer;
+
+    const report: TransferReport = { summary: {} as TransferReport['summary'], conflicts: [], markConflicts: [] };
+    const saves = {} as Record<TableName, SyncedRecord[]>;
+    const rejected: QuarantineEntry[] = [];
+
+    for (const table of Object.values(TABLES)) {
+      // Bundles from a device still on an older schema are brought up to date first,
+      // and whatever studio they came from, they land in this device's active one
+      const rows = (records[table] ?? [])
+        .map(row => ({ ...normalizeRecord(table, row), studioId: this.studioId ?? undefined }));
+      const checked = checkRecords<SyncedRecord>(table, rows, 'transfer');
+      const received = checked.valid;
+      rejected.push(...checked.rejected);
+
+      const localData = (await local.bulkGet<SyncedRecord>(table, received.map(item => item.id)))
+        .filter((item): item is SyncedRecord => !!item);
+      let merged = this.mergeData(localData, received);
+      if (table === TABLES.sessions) {
+        const result = this.mergeSessions(
+          localData as unknown as RegisterSession[],
+          received as unknown as RegisterSession[],
+          merged as unknown as RegisterSession[],
+          detectedAt
+        );
+        merged = result.sessions as unknown as SyncedRecord[];
+        report.markConflicts.push(...result.conflicts);
+      }
 
-    if (this.isOnline) {
-      try {
-        const remoteData = await this.getFromSupabase<AwardUnlock>(TABLES.awards);
-        if (remoteData) {
-          const merged = this.mergeData(localData, remoteData);
-          this.saveToLocalStorage(STORAGE_KEYS.awards, merged);
-          return merged;
+      const localById = new Map(localData.map(item => [item.id, item]));
+      const receivedById = new Map(received.map(item => [item.id, item]));
+      const summary = { added: 0, updated: 0, kept: 0, unchanged: 0, invalid: checked.rejected.length };
+      saves[table] = [];
+
+      for (const item of merged) {
+        const previous = localById.get(item.id);
+        const theirs = receivedById.get(item.id)!;
+
+        if (!previous) {
+          // A delete of something this device never had leaves nothing to do
+          if (item.deleted) continue;
+          saves[table].push(item);
+          summary.added++;
+          continue;
+        }
+
+        if (sameRecord(previous, theirs)) {
+          summary.unchanged++;
+          continue;
+        }
+
+        const kept: TransferConflict['kept'] | null = sameRecord(previous, item)
+          ? 'local'
+          : sameRecord(theirs, item) ? 'received' : null;
+        if (kept === 'local') {
+          summary.kept++;
+        } else {
+          saves[table].push(item);
+          summary.updated++;
+        }
+
+        // Combined registers are reported mark by mark instead
+        if (kept && changedSince(previous) && changedSince(theirs)) {
+          report.conflicts.push({ table, id: item.id, kept, record: theirs, changes: diffRecords(previous, theirs) });
         }
-      } catch (error) {
-        console.warn('Background sync failed for awards:', error);
       }
+
+      report.summary[table] = summary;
     }
 
-    return localData;
+    return { report, saves, rejected };
   }
 
-  async saveAwards(awards: AwardUnlock[]): Promise<void> {
-    // Merge with existing local data to avoid overwriting other data
-    const existingData = this.getFromLocalStorage<AwardUnlock>(STORAGE_KEYS.awards);
-    const mergedMap = new Map<string, AwardUnlock>();
+  // Snapshots of the active studio's local data, newest first
+  async getSnapshots(): Promise<SnapshotInfo[]> {
+    await this.ready;
+    return this.local.getSnapshots();
+  }
 
-    // Add all existing data first
-    existingData.forEach(award => {
-      mergedMap.set(award.id, award);
-    });
+  // Take a snapshot now, outside the daily schedule (pages pass the reason before a destructive change)
+  async createSnapshot(reason: SnapshotReason = 'manual'): Promise<SnapshotInfo | null> {
+    await this.ready;
+    return this.snapshot(reason);
+  }
 
-    // Override with the awards being saved (they take precedence)
-    awards.forEach(award => {
-      mergedMap.set(award.id, award);
+  private async openSnapshot(id: string): Promise<BackupContents> {
+    const snapshot = await this.local.getSnapshot(id);
+    if (!snapshot) throw new Error('That snapshot is no longer available');
+    return readSnapshot(snapshot);
+  }
+
+  // What rolling back to a snapshot would change; nothing is saved
+  async compareSnapshot(id: string): Promise<RestorePlan> {
+    await this.ready;
+    const contents = await this.openSnapshot(id);
+    return this.previewRestore(contents.records, 'replace');
+  }
+
+  /**
+   * Make the local data match a snapshot again. The rollback is saved as
+   * ordinary changes, so it syncs, and a snapshot is taken first so the
+   * rollback itself can be undone. Resolves to the snapshot's contents,
+   * whose award settings the caller puts back.
+   */
+  async rollbackToSnapshot(id: string): Promise<BackupContents> {
+    await this.ready;
+    this.checkRestorePermission();
+    const contents = await this.openSnapshot(id);
+    await this.snapshot('rollback');
+    await this.applyRestore(contents.records, 'replace', 'snapshot');
+    return contents;
+  }
+
+  // Adjust sync behaviour (e.g. tombstone retention, retry timing) at runtime
+  configure(options: Partial<SyncOptions>): void {
+    this.options = { ...this.options, ...options };
+    this.scheduler?.configure(this.schedulerOptions());
+  }
+
+  private schedulerOptions() {
+    return {
+      retryBaseDelayMs: this.options.retryBaseDelayMs,
+      retryMaxDelayMs: this.options.retryMaxDelayMs,
+      periodicIntervalMs: this.options.periodicSyncMinutes * 60 * 1000,
+    };
+  }
+
+  // One scheduled round: push, then pull; false asks the scheduler to back off and retry
+  private async runScheduledSync(): Promise<boolean> {
+    const pushed = await this.syncToCloud();
+    const pulled = await this.syncFromCloud();
+    // An app left open for days still gets its daily snapshot
+    await this.snapshotIfDue();
+    return pushed && pulled;
+  }
+
+  /**
+   * The service worker can't read env vars or the signed-in session, so leave
+   * it the connection details in the studio's own data. Removed when this
+   * data can't be uploaded, so the worker doesn't retry a doomed upload.
+   */
+  private shareServiceWorkerConfig(): void {
+    const local = this.local;
+    const config = this.serviceWorkerConfig && this.canReachRemote()
+      ? { ...this.serviceWorkerConfig, ...(this.accessToken ? { accessToken: this.accessToken } : {}) }
+      : null;
+
+    const share = async () => {
+      await this.ready;
+      const stored = await local.getMeta(SUPABASE_CONFIG_KEY);
+      if (stableStringify(stored ?? null) === stableStringify(config)) return;
+      if (config) {
+        await local.setMeta(SUPABASE_CONFIG_KEY, config);
+      } else {
+        await local.deleteMeta(SUPABASE_CONFIG_KEY);
+      }
+    };
+
+    share().catch(error => {
+      console.warn('Failed to store sync config for the service worker:', error);
     });
+  }
 
-    const mergedData = Array.from(mergedMap.values());
+  private migrate(local: LocalStore): Promise<void> {
+    return runMigrations(local, () => this.snapshot('migration', local))
+      .then(async () => {
+        const stamp = await local.getMeta(HLC_KEY);
+        if (typeof stamp === 'string') this.clock.receive(stamp);
+
+        // Not awaited: pages shouldn't wait on compressing the data
+        this.snapshotIfDue(local);
+      })
+      .catch(error => {
+        console.error('Failed to migrate local data:', error);
+      });
+  }
 
-    const awardsWithTimestamps = mergedData.map(award => ({
-      ...award,
-      synced: false,
-      updatedAt: new Date().toISOString(),
-    }));
-    this.saveToLocalStorage(STORAGE_KEYS.awards, awardsWithTimestamps);
+  // A snapshot that fails is logged, not thrown: it shouldn't stop the change it precedes
+  private async snapshot(reason: SnapshotReason, local = this.local): Promise<SnapshotInfo | null> {
+    try {
+      return await takeSnapshot(local, reason, this.options.snapshotsKept);
+    } catch (error) {
+      console.warn(`Failed to take a ${reason} snapshot:`, error);
+      return null;
+    }
+  }
 
-    if (this.isOnline) {
-      try {
-        await this.saveToSupabase(TABLES.awards, awardsWithTimestamps);
-        const syncedAwards = awardsWithTimestamps.map(award => ({ ...award, synced: true }));
-        this.saveToLocalStorage(STORAGE_KEYS.awards, syncedAwards);
-      } catch (error) {
-        console.warn('Background sync failed for awards:', error);
+  private async snapshotIfDue(local = this.local): Promise<void> {
+    try {
+      if (await dailySnapshotDue(local)) await this.snapshot('daily', local);
+    } catch (error) {
+      console.warn('Failed to check for a daily snapshot:', error);
+    }
+  }
+
+  // Whether this partition's data may go to the remote at all
+  private canReachRemote(): boolean {
+    return !!this.remote && (!this.studioScoped || !!this.studioId);
+  }
+
+  getStudioId(): string | null {
+    return this.studioId;
+  }
+
+  /**
+   * Load another studio's data (null for data kept on this device only).
+   * Each studio has its own local database, outbox and watermarks, so
+   * nothing from one studio is shown, merged or uploaded under another.
+   */
+  async setStudio(studioId: string | null): Promise<void> {
+    if (studioId === this.studioId) return;
+    if (!this.openLocal) throw new Error('This SyncManager was created for a single studio');
+
+    this.local = this.openLocal(studioId);
+    this.studioId = studioId;
+    this.ready = this.migrate(this.local);
+    this.readVersions.clear();
+    this.lastSyncTime = null;
+
+    this.updateStatus({ studioId, role: null, pending: emptyCounts(), quarantined: 0, conflicts: 0, lastError: null });
+    this.loadLastSyncTime();
+    this.loadRole();
+    this.shareServiceWorkerConfig();
+    this.refreshQuarantined();
+    this.refreshConflicts();
+    // Every table now reads from a different database
+    this.notifyChange(Object.values(TABLES), false);
+    this.scheduler?.requestSync();
+  }
+
+  // Refuse what the role doesn't allow; in a studio, an unknown role allows nothing
+  private checkPermission(permission: Permission, role = this.status.role, studioId = this.studioId): void {
+    if (!can(role, permission, !!studioId)) throw new PermissionError(role, permission);
+  }
+
+  // The signed-in teacher's role in the active studio, as the server reports it
+  setRole(role: StudioRole | null): void {
+    if (!this.studioId || role === this.status.role) return;
+    this.updateStatus({ role });
+
+    const local = this.local;
+    this.ready
+      .then(() => role ? local.setMeta(ROLE_KEY, role) : local.deleteMeta(ROLE_KEY))
+      .catch(error => {
+        console.error('Failed to store studio role:', error);
+      });
+  }
+
+  private loadRole(): void {
+    if (!this.studioId) return;
+    const { local, studioId } = this;
+
+    local.getMeta(ROLE_KEY)
+      .then(value => {
+        // A later switch or a fresh role from the server wins
+        if (studioId !== this.studioId || this.status.role || typeof value !== 'string') return;
+        this.updateStatus({ role: value as StudioRole });
+      })
+      .catch(error => {
+        console.error('Failed to read studio role:', error);
+      });
+  }
+
+  // The signed-in teacher, credited with every mark and point saved from now on
+  setTeacher(teacher: TeacherRef | null): void {
+    this.teacher = teacher;
+  }
+
+  // Without a sign-in, the name given on this device stands in
+  private currentTeacher(): TeacherRef | undefined {
+    if (this.teacher) return this.teacher;
+    const name = getTeacherName();
+    return name ? { id: this.deviceId, name } : undefined;
+  }
+
+  // The signed-in user's token, handed to the service worker for its uploads
+  setAccessToken(accessToken: string | null): void {
+    if (accessToken === this.accessToken) return;
+    this.accessToken = accessToken;
+    this.shareServiceWorkerConfig();
+  }
+
+  // Open the data kept on this device only, unless it's already been moved into a studio
+  private async openUnclaimedData(): Promise<LocalStore | null> {
+    if (!this.studioId || !this.openLocal) return null;
+    const source = this.openLocal(null);
+    await this.migrate(source);
+    return (await source.getMeta(CLAIMED_BY_KEY)) ? null : source;
+  }
+
+  // How many records were made on this device before a studio was chosen
+  async countUnclaimedRecords(): Promise<number> {
+    const source = await this.openUnclaimedData();
+    if (!source) return 0;
+
+    let count = 0;
+    for (const table of Object.values(TABLES)) {
+      count += withoutTombstones(await source.getAll<SyncedRecord>(table)).length;
+    }
+    return count;
+  }
+
+  /**
+   * Copy the records made on this device before a studio was chosen into the
+   * active studio, where they sync like new records. The originals are kept
+   * but marked as claimed, so they're only offered once.
+   */
+  async claimUnclaimedRecords(): Promise<number> {
+    const source = await this.openUnclaimedData();
+    if (!source) return 0;
+
+    let count = 0;
+    for (const table of Object.values(TABLES)) {
+      const { valid } = checkRecords<SyncedRecord>(table, await source.getAll(table), 'local');
+      const records = withoutTombstones(valid);
+      await this.saveChanges(table, records);
+      count += records.length;
+    }
+
+    await source.setMeta(CLAIMED_BY_KEY, { studioId: this.studioId, at: new Date().toISOString() });
+    return count;
+  }
+
+  // Permanently remove tombstones older than the retention window, and those purged from the Trash
+  async purgeTombstones(): Promise<void> {
+    await this.ready;
+    const cutoff = new Date(Date.now() - this.options.tombstoneRetentionDays * 24 * 60 * 60 * 1000);
+    const cutoffISO = cutoff.toISOString();
+    const purgedBefore = new Date(Date.now() - this.options.purgeGraceDays * 24 * 60 * 60 * 1000).toISOString();
+
+    for (const table of Object.values(TABLES)) {
+      if (this.isOnline && this.remote && this.canReachRemote()) {
+        try {
+          await this.remote.purgeTombstones(table, cutoffISO, this.studioId ?? undefined, purgedBefore);
+        } catch (error) {
+          await this.recordError('purge', table, error);
+          continue;
+        }
       }
+
+      const local = this.local;
+      await local.transaction(async () => {
+        const expired = (await local.getAll<SyncedRecord>(table))
+          .filter(item => !!item.deleted
+            && (!!item.purgedAt || new Date(item.deletedAt ?? item.updatedAt ?? 0) < cutoff));
+
+        const purged: string[] = [];
+        for (const item of expired) {
+          // Tombstones still waiting to upload must reach the server first
+          if (await local.getOutboxEntry(table, item.id)) continue;
+          purged.push(item.id);
+        }
+        await local.bulkDelete(table, purged);
+      });
+    }
+
+    // The audit log keeps versions for as long as tombstones are kept, and no longer
+    try {
+      await this.local.pruneAuditLog(cutoffISO);
+    } catch (error) {
+      console.warn('Failed to prune the audit log:', error);
     }
   }
 
-  // Sync unsynced data to Supabase (offline-first)
-  async syncToCloud(): Promise<void> {
-    if (this.syncInProgress || !this.isOnline) return;
+  // Sync unsynced data to the remote backend (offline-first); resolves false if anything failed
+  async syncToCloud(): Promise<boolean> {
+    if (this.syncInProgress || !this.isOnline) return false;
 
     this.syncInProgress = true;
 
     try {
       console.log('Starting cloud sync...');
 
-      // Get all local data
-      const classes = this.getFromLocalStorage<DanceClass>(STORAGE_KEYS.classes);
-      const students = this.getFromLocalStorage<Student>(STORAGE_KEYS.students);
-      const sessions = this.getFromLocalStorage<RegisterSession>(STORAGE_KEYS.sessions);
-      const points = this.getFromLocalStorage<PointEvent>(STORAGE_KEYS.points);
-      const awards = this.getFromLocalStorage<AwardUnlock>(STORAGE_KEYS.awards);
-
-      // Sync unsynced items
-      await Promise.all([
-        this.saveToSupabase(TABLES.classes, classes.filter(c => !c.synced)),
-        this.saveToSupabase(TABLES.students, students.filter(s => !s.synced)),
-        this.saveToSupabase(TABLES.sessions, sessions.filter(s => !s.synced)),
-        this.saveToSupabase(TABLES.points, points.filter(p => !p.synced)),
-        this.saveToSupabase(TABLES.awards, awards.filter(a => !a.synced)),
-      ]);
-
-      // Mark all as synced locally
-      const markSynced = <T extends { synced?: boolean }>(items: T[]) =>
-        items.map(item => ({ ...item, synced: true }));
-
-      this.saveToLocalStorage(STORAGE_KEYS.classes, markSynced(classes));
-      this.saveToLocalStorage(STORAGE_KEYS.students, markSynced(students));
-      this.saveToLocalStorage(STORAGE_KEYS.sessions, markSynced(sessions));
-      this.saveToLocalStorage(STORAGE_KEYS.points, markSynced(points));
-      this.saveToLocalStorage(STORAGE_KEYS.awards, markSynced(awards));
+      // Upload only the records queued in the outbox
+      const tables = Object.values(TABLES);
+      await this.track('push', tables, () => this.pushOutbox(tables));
+      await this.purgeTombstones();
 
       // Save last sync time
-      if (typeof window !== 'undefined') {
-        localStorage.setItem(STORAGE_KEYS.lastSync, new Date().toISOString());
-      }
+      this.lastSyncTime = new Date();
+      await this.local.setMeta(LAST_SYNC_KEY, this.lastSyncTime.toISOString());
       console.log('Cloud sync completed successfully');
+      return true;
     } catch (error) {
       console.error('Cloud sync failed:', error);
+      return false;
     } finally {
       this.syncInProgress = false;
     }
   }
 
   // Pull latest data from cloud and merge (for when you want to refresh from remote)
-  async syncFromCloud(): Promise<void> {
-    if (!this.isOnline) return;
+  async syncFromCloud(): Promise<boolean> {
+    if (!this.isOnline) return false;
 
     try {
       console.log('Syncing from cloud...');
 
-      const [classes, students, sessions, points, awards] = await Promise.all([
-        this.getClasses(),
-        this.getStudents(),
-        this.getSessions(),
-        this.getPoints(),
-        this.getAwards(),
-      ]);
+      // Each table only fetches rows newer than its own watermark
+      const tables = Object.values(TABLES);
+      await this.track('pull', tables, () => Promise.all(tables.map(table => this.pullTable(table))));
 
       console.log('Cloud sync from completed');
+      return true;
     } catch (error) {
       console.error('Cloud sync from failed:', error);
+      return false;
     }
   }
 
-  // Check if data is synced
+  // Online with nothing left waiting in the outbox
   isSynced(): boolean {
-    return this.isOnline;
+    const pending = Object.values(this.status.pending).reduce((sum, count) => sum + count, 0);
+    return this.isOnline && pending === 0;
   }
 
   // Get last sync time
   getLastSyncTime(): Date | null {
-    if (typeof window === 'undefined') return null;
+    return this.lastSyncTime;
+  }
 
-    const lastSync = localStorage.getItem(STORAGE_KEYS.lastSync);
-    return lastSync ? new Date(lastSync) : null;
+  private loadLastSyncTime(): void {
+    this.local.getMeta(LAST_SYNC_KEY)
+      .then(value => {
+        if (typeof value === 'string' && !this.lastSyncTime) this.lastSyncTime = new Date(value);
+      })
+      .catch(error => {
+        console.error('Failed to read last sync time:', error);
+      });
   }
 }
 
+// IndexedDB where available, then localStorage; plain memory during server rendering
+function createDefaultLocalStore(studioId: string | null): LocalStore {
+  const indexedDbStore = openIndexedDbStore(studioId);
+  if (indexedDbStore) return indexedDbStore;
+  if (typeof localStorage !== "undefined") return new LocalStorageStore(localStorage, localStoragePrefix(studioId));
+  return new MemoryStore();
+}
+
+// NEXT_PUBLIC_SYNC_URL points the app at an HTTP sync server instead of Supabase
+export const usesSyncServer = !!process.env.NEXT_PUBLIC_SYNC_URL;
+export const usesSupabase = !usesSyncServer && !!supabase;
+
+// NEXT_PUBLIC_SYNC_REALTIME_URL adds live register updates from a WebSocket server alongside it
+function createDefaultRemote(): RemoteBackend | null {
+  const syncUrl = process.env.NEXT_PUBLIC_SYNC_URL;
+  if (syncUrl) {
+    return new HttpBackend({
+      baseUrl: syncUrl,
+      realtimeUrl: process.env.NEXT_PUBLIC_SYNC_REALTIME_URL,
+      // Read on every request, so a token entered on the Account page applies straight away
+      headers: (): Record<string, string> => {
+        const token = getSyncToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      },
+    });
+  }
+  return supabase ? new SupabaseBackend(supabase) : null;
+}
+
+// The studio picked last time; AuthProvider switches it once the session is known
+const initialStudioId = usesSupabase ? getActiveStudioId() : null;
+
 // Export singleton instance
-export const syncManager = new SyncManager();
+export const syncManager = new SyncManager({
+  local: createDefaultLocalStore(initialStudioId),
+  studioId: initialStudioId,
+  openLocal: createDefaultLocalStore,
+  remote: createDefaultRemote(),
+  // Supabase's row level security only accepts rows for the signed-in teacher's studios
+  studioScoped: usesSupabase,
+  // Background uploads from the service worker go straight to Supabase
+  serviceWorkerConfig: usesSupabase ? supabaseConfig : null,
+});
+
+// Bound once so the functions keep a stable identity across renders
+// (pages list them as effect dependencies)
+const syncData = {
+  // Data operations (offline-first)
+  getClasses: syncManager.getClasses.bind(syncManager),
+  saveClasses: syncManager.saveClasses.bind(syncManager),
+  getStudents: syncManager.getStudents.bind(syncManager),
+  saveStudents: syncManager.saveStudents.bind(syncManager),
+  getSessions: syncManager.getSessions.bind(syncManager),
+  saveSessions: syncManager.saveSessions.bind(syncManager),
+  watchRegister: syncManager.watchRegister.bind(syncManager),
+  getMarkConflicts: syncManager.getMarkConflicts.bind(syncManager),
+  resolveMarkConflict: syncManager.resolveMarkConflict.bind(syncManager),
+  getRecordConflicts: syncManager.getRecordConflicts.bind(syncManager),
+  resolveRecordConflict: syncManager.resolveRecordConflict.bind(syncManager),
+  getRecordHistory: syncManager.getRecordHistory.bind(syncManager),
+  revertRecord: syncManager.revertRecord.bind(syncManager),
+  getTrash: syncManager.getTrash.bind(syncManager),
+  restoreFromTrash: syncManager.restoreFromTrash.bind(syncManager),
+  purgeFromTrash: syncManager.purgeFromTrash.bind(syncManager),
+  cleanupUnsyncedData: syncManager.cleanupUnsyncedData.bind(syncManager),
+  exportRecords: syncManager.exportRecords.bind(syncManager),
+  previewRestore: syncManager.previewRestore.bind(syncManager),
+  restoreBackup: syncManager.restoreBackup.bind(syncManager),
+  exportTransfer: syncManager.exportTransfer.bind(syncManager),
+  previewTransfer: syncManager.previewTransfer.bind(syncManager),
+  importTransfer: syncManager.importTransfer.bind(syncManager),
+  getSnapshots: syncManager.getSnapshots.bind(syncManager),
+  createSnapshot: syncManager.createSnapshot.bind(syncManager),
+  compareSnapshot: syncManager.compareSnapshot.bind(syncManager),
+  rollbackToSnapshot: syncManager.rollbackToSnapshot.bind(syncManager),
+  getPoints: syncManager.getPoints.bind(syncManager),
+  savePoints: syncManager.savePoints.bind(syncManager),
+  getAwards: syncManager.getAwards.bind(syncManager),
+  saveAwards: syncManager.saveAwards.bind(syncManager),
+
+  // Sync operations (when Supabase is set up)
+  syncToCloud: syncManager.syncToCloud.bind(syncManager),
+  syncFromCloud: syncManager.syncFromCloud.bind(syncManager),
+  retryNow: syncManager.retryNow.bind(syncManager),
+
+  // Status
+  isOnline: () => syncManager.isOnline,
+  isSynced: syncManager.isSynced.bind(syncManager),
+  getLastSyncTime: syncManager.getLastSyncTime.bind(syncManager),
+  getDiagnostics: syncManager.getDiagnostics.bind(syncManager),
+  clearSyncErrors: syncManager.clearSyncErrors.bind(syncManager),
+  getQuarantine: syncManager.getQuarantine.bind(syncManager),
+  repairQuarantined: syncManager.repairQuarantined.bind(syncManager),
+  discardQuarantined: syncManager.discardQuarantined.bind(syncManager),
+  scanIntegrity: syncManager.scanIntegrity.bind(syncManager),
+  repairIntegrity: syncManager.repairIntegrity.bind(syncManager),
+
+  // Studios
+  countUnclaimedRecords: syncManager.countUnclaimedRecords.bind(syncManager),
+  claimUnclaimedRecords: syncManager.claimUnclaimedRecords.bind(syncManager),
+};
 
 // Helper hook for React components
 export function useSyncData() {
-  return {
-    // Data operations (offline-first)
-    getClasses: syncManager.getClasses.bind(syncManager),
-    saveClasses: syncManager.saveClasses.bind(syncManager),
-    getStudents: syncManager.getStudents.bind(syncManager),
-    saveStudents: syncManager.saveStudents.bind(syncManager),
-    getSessions: syncManager.getSessions.bind(syncManager),
-    saveSessions: syncManager.saveSessions.bind(syncManager),
-    getPoints: syncManager.getPoints.bind(syncManager),
-    savePoints: syncManager.savePoints.bind(syncManager),
-    getAwards: syncManager.getAwards.bind(syncManager),
-    saveAwards: syncManager.saveAwards.bind(syncManager),
-
-    // Sync operations (when Supabase is set up)
-    syncToCloud: syncManager.syncToCloud.bind(syncManager),
-    syncFromCloud: syncManager.syncFromCloud.bind(syncManager),
-
-    // Status
-    isOnline: () => syncManager.isOnline,
-    isSynced: syncManager.isSynced.bind(syncManager),
-    getLastSyncTime: syncManager.getLastSyncTime.bind(syncManager),
-  };
+  return syncData;
 }
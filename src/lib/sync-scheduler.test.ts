@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { SyncScheduler } from "./sync-scheduler";
+
+const OPTIONS = { retryBaseDelayMs: 1000, retryMaxDelayMs: 60_000, periodicIntervalMs: 5 * 60_000 };
+
+describe("SyncScheduler.stop", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("stops the periodic sync", async () => {
+    const run = vi.fn(async () => true);
+    const scheduler = new SyncScheduler(run, OPTIONS, () => true);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(OPTIONS.periodicIntervalMs);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(OPTIONS.periodicIntervalMs * 3);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops a pending retry, and doesn't schedule one for a sync that fails afterwards", async () => {
+    let finish: (ok: boolean) => void = () => {};
+    const run = vi.fn(() => new Promise<boolean>((resolve) => (finish = resolve)));
+    const scheduler = new SyncScheduler(run, OPTIONS, () => true);
+
+    scheduler.requestSync();
+    scheduler.stop();
+    finish(false);
+    await vi.advanceTimersByTimeAsync(OPTIONS.retryMaxDelayMs * 2);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    scheduler.requestSync();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+// Decides when the sync manager runs a full sync: straight away when asked,
+// again after failures with exponential backoff, and periodically while open
+
+export interface SchedulerOptions {
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // 0 turns the periodic sync off
+  periodicIntervalMs: number;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based), using "full jitter":
+ * a random wait up to the exponential cap, so devices that dropped off the
+ * same Wi-Fi don't all retry at the same moment.
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const cap = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+export class SyncScheduler {
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private periodicTimer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private rerun = false;
+  private stopped = false;
+
+  // `run` resolves true when everything was synced, false to retry later
+  constructor(
+    private run: () => Promise<boolean>,
+    private options: SchedulerOptions,
+    private canRun: () => boolean
+  ) {}
+
+  configure(options: Partial<SchedulerOptions>): void {
+    this.options = { ...this.options, ...options };
+    if (this.periodicTimer) this.start();
+  }
+
+  // Start the periodic sync
+  start(): void {
+    this.stopped = false;
+    if (this.periodicTimer) clearInterval(this.periodicTimer);
+    this.periodicTimer = null;
+    if (this.options.periodicIntervalMs <= 0) return;
+
+    this.periodicTimer = setInterval(() => {
+      // Skip hidden tabs; the visible one (or the service worker) does the work
+      if (typeof document !== "undefined" && document.hidden) return;
+      this.requestSync();
+    }, this.options.periodicIntervalMs);
+  }
+
+  // Cancel the periodic sync and any pending retry; a sync already running finishes
+  stop(): void {
+    this.stopped = true;
+    if (this.periodicTimer) clearInterval(this.periodicTimer);
+    this.periodicTimer = null;
+    this.clearRetry();
+  }
+
+  // Sync as soon as possible, cancelling any pending backoff
+  requestSync(): void {
+    if (this.stopped || !this.canRun()) return;
+    this.clearRetry();
+
+    if (this.running) {
+      // Changes arrived mid-sync; go round once more when it finishes
+      this.rerun = true;
+      return;
+    }
+
+    this.execute();
+  }
+
+  // Retry after the next backoff delay, unless one is already waiting
+  retryLater(): void {
+    if (this.stopped || this.retryTimer) return;
+
+    const delay = backoffDelay(this.attempt, this.options.retryBaseDelayMs, this.options.retryMaxDelayMs);
+    this.attempt++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.canRun()) this.execute();
+    }, delay);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private async execute(): Promise<void> {
+    this.running = true;
+    this.rerun = false;
+
+    let ok = false;
+    try {
+      ok = await this.run();
+    } catch (error) {
+      console.warn("Scheduled sync failed:", error);
+    } finally {
+      this.running = false;
+    }
+
+    if (ok) {
+      this.attempt = 0;
+      if (this.rerun) this.requestSync();
+    } else {
+      this.retryLater();
+    }
+  }
+}
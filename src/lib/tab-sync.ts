@@ -0,0 +1,69 @@
+// Change notifications between open tabs and windows of the app
+// Every tab shares one IndexedDB database (or one localStorage), so a message
+// only needs to say which tables changed; receivers re-read them locally
+
+const CHANNEL_NAME = "bb_sync";
+// Fallback for browsers without BroadcastChannel: writes fire `storage` events in other tabs
+const STORAGE_KEY = "bb_sync_event";
+
+interface TabMessage {
+  origin: string;
+  tables: string[];
+  sentAt: number;
+}
+
+function isTabMessage(value: unknown): value is TabMessage {
+  const message = value as TabMessage;
+  return !!message && typeof message.origin === "string" && Array.isArray(message.tables);
+}
+
+export class TabChannel {
+  private readonly tabId = crypto.randomUUID();
+  private channel: BroadcastChannel | null = null;
+  private onStorage: ((event: StorageEvent) => void) | null = null;
+
+  constructor(private onTablesChanged: (tables: string[]) => void) {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = event => this.receive(event.data);
+    } else {
+      this.onStorage = event => {
+        if (event.key !== STORAGE_KEY || !event.newValue) return;
+        try {
+          this.receive(JSON.parse(event.newValue));
+        } catch {
+          // Ignore anything we can't parse
+        }
+      };
+      window.addEventListener("storage", this.onStorage);
+    }
+  }
+
+  // Stop sending and receiving; the channel can't be used again
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    if (this.onStorage) window.removeEventListener("storage", this.onStorage);
+    this.onStorage = null;
+  }
+
+  private receive(message: unknown): void {
+    if (!isTabMessage(message) || message.origin === this.tabId) return;
+    this.onTablesChanged(message.tables);
+  }
+
+  post(tables: string[]): void {
+    const message: TabMessage = { origin: this.tabId, tables, sentAt: Date.now() };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else {
+        // sentAt keeps repeated messages distinct, so each one fires an event
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+      }
+    } catch (error) {
+      console.warn("Failed to notify other tabs:", error);
+    }
+  }
+}
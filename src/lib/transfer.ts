@@ -0,0 +1,293 @@
+// Device-to-device transfer without a server
+// A bundle carries the studio's records (or one class's) from one device to
+// another, as a file or a run of QR codes. It's signed with a key kept on
+// the sending device, so the receiver can tell a damaged or altered bundle
+// and check who sent it. SyncManager merges the records in on arrival.
+
+import type { TableName } from "./sync-manager";
+import type { FieldChange } from "./local-store";
+import type { MarkConflict } from "./marks";
+import { BACKUP_TABLES, toBase64, fromBase64, type BackupRecord } from "./backup";
+import { gzip, gunzip } from "./snapshots";
+import { CURRENT_SCHEMA_VERSION } from "./migrations";
+import { getDeviceId, getTeacherName } from "./device";
+
+export const TRANSFER_FORMAT = "bollywood-beatz-transfer";
+// Bump when the bundle layout changes; readBundle() refuses newer versions
+export const TRANSFER_VERSION = 1;
+
+// This device's signing key pair, as JWKs
+const DEVICE_KEY_KEY = "bb_transfer_key";
+
+const SIGNING = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGNATURE = { name: "ECDSA", hash: "SHA-256" } as const;
+
+// Characters of bundle text per QR code; small enough for a phone camera to read off a screen
+const FRAME_CHARS = 400;
+const FRAME_PREFIX = "BBT";
+const FRAME_HEADER = new RegExp(`^${FRAME_PREFIX}:([0-9a-f]{8}):(\\d+)/(\\d+):`);
+
+// Everything in a bundle, or one class and what hangs off it
+export type TransferScope = { classId: string; className: string } | null;
+
+export interface TransferContents {
+  createdAt: string;
+  // The local data schema the records were written in
+  schemaVersion: number;
+  scope: TransferScope;
+  sender: { deviceId: string; name?: string };
+  records: Record<TableName, BackupRecord[]>;
+  awardsMeta: unknown;
+}
+
+interface TransferBundle {
+  format: typeof TRANSFER_FORMAT;
+  version: number;
+  publicKey: JsonWebKey;
+  // Base64 ECDSA signature of `payload`
+  signature: string;
+  // Base64 gzip of the JSON TransferContents
+  payload: string;
+}
+
+export type TransferErrorReason = "invalid" | "newer" | "badSignature";
+
+// A bundle that can't be taken in; `reason` says whether to try again or give up
+export class TransferError extends Error {
+  constructor(message: string, readonly reason: TransferErrorReason) {
+    super(message);
+    this.name = "TransferError";
+  }
+}
+
+/* ---------- SIGNING KEY ---------- */
+
+interface StoredKey {
+  privateKey: JsonWebKey;
+  publicKey: JsonWebKey;
+}
+
+async function getSigningKey(): Promise<{ privateKey: CryptoKey; publicKey: JsonWebKey }> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DEVICE_KEY_KEY) ?? "null") as StoredKey | null;
+    if (stored) {
+      const privateKey = await crypto.subtle.importKey("jwk", stored.privateKey, SIGNING, false, ["sign"]);
+      return { privateKey, publicKey: stored.publicKey };
+    }
+  } catch (error) {
+    console.warn('Transfer key unreadable, making a new one:', error);
+  }
+
+  const pair = await crypto.subtle.generateKey(SIGNING, true, ["sign", "verify"]);
+  const stored: StoredKey = {
+    privateKey: await crypto.subtle.exportKey("jwk", pair.privateKey),
+    publicKey: await crypto.subtle.exportKey("jwk", pair.publicKey),
+  };
+  localStorage.setItem(DEVICE_KEY_KEY, JSON.stringify(stored));
+  return { privateKey: pair.privateKey, publicKey: stored.publicKey };
+}
+
+// A short code for a signing key, read aloud to check a bundle came from the right phone
+export async function keyFingerprint(publicKey: JsonWebKey): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${publicKey.x}.${publicKey.y}`));
+  const hex = Array.from(new Uint8Array(digest).subarray(0, 6), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return hex.match(/.{4}/g)!.join("-").toUpperCase();
+}
+
+// This device's fingerprint, as a receiver will see it
+export async function deviceFingerprint(): Promise<string> {
+  return keyFingerprint((await getSigningKey()).publicKey);
+}
+
+/* ---------- BUNDLES ---------- */
+
+/**
+ * The records to send for a scope: everything, or one class with its
+ * students, registers, points and awards. Tombstones go too, so a delete
+ * made on this device reaches the other one.
+ */
+export function selectForTransfer(
+  records: Record<TableName, BackupRecord[]>,
+  classId?: string
+): Record<TableName, BackupRecord[]> {
+  if (!classId) return records;
+
+  const selected = {} as Record<TableName, BackupRecord[]>;
+  for (const table of BACKUP_TABLES) {
+    selected[table] = records[table].filter((record) =>
+      table === "classes" ? record.id === classId : record.classId === classId
+    );
+  }
+  return selected;
+}
+
+export function newTransferContents(
+  records: Record<TableName, BackupRecord[]>,
+  scope: TransferScope,
+  awardsMeta: unknown
+): TransferContents {
+  return {
+    createdAt: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    scope,
+    sender: { deviceId: getDeviceId(), name: getTeacherName() ?? undefined },
+    records,
+    awardsMeta,
+  };
+}
+
+// The bundle as text, signed with this device's key
+export async function writeBundle(contents: TransferContents): Promise<string> {
+  const { privateKey, publicKey } = await getSigningKey();
+  const payload = await gzip(JSON.stringify(contents));
+  const signature = await crypto.subtle.sign(SIGNATURE, privateKey, new TextEncoder().encode(payload));
+
+  const bundle: TransferBundle = {
+    format: TRANSFER_FORMAT,
+    version: TRANSFER_VERSION,
+    publicKey,
+    signature: toBase64(new Uint8Array(signature)),
+    payload,
+  };
+  return JSON.stringify(bundle);
+}
+
+function parseBundle(text: string): TransferBundle {
+  let bundle: unknown;
+  try {
+    bundle = JSON.parse(text);
+  } catch {
+    throw new TransferError("This isn't a transfer bundle", "invalid");
+  }
+
+  const candidate = bundle as Partial<TransferBundle> | null;
+  if (!candidate || typeof candidate !== "object" || candidate.format !== TRANSFER_FORMAT) {
+    throw new TransferError("This isn't a transfer bundle", "invalid");
+  }
+  if (typeof candidate.version !== "number" || candidate.version > TRANSFER_VERSION) {
+    throw new TransferError("This bundle was made by a newer version of the app", "newer");
+  }
+  if (typeof candidate.payload !== "string" || typeof candidate.signature !== "string" || !candidate.publicKey) {
+    throw new TransferError("This bundle is damaged", "invalid");
+  }
+  return candidate as TransferBundle;
+}
+
+function checkContents(value: unknown): TransferContents {
+  const contents = value as TransferContents;
+  if (!contents || typeof contents !== "object" || !contents.records || typeof contents.records !== "object") {
+    throw new TransferError("This bundle is damaged", "invalid");
+  }
+  if (contents.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new TransferError("This bundle was made by a newer version of the app", "newer");
+  }
+
+  const records = {} as Record<TableName, BackupRecord[]>;
+  for (const table of BACKUP_TABLES) {
+    const rows = contents.records[table] ?? [];
+    if (!Array.isArray(rows)) throw new TransferError("This bundle is damaged", "invalid");
+    // Rows without an id can't be matched to anything; SyncManager checks the rest
+    records[table] = rows.filter((row): row is BackupRecord =>
+      !!row && typeof row === "object" && typeof (row as { id?: unknown }).id === "string"
+    );
+  }
+  return { ...contents, records };
+}
+
+/**
+ * Read a bundle and check its signature. Resolves to the contents and the
+ * sender's key fingerprint; a bundle that was cut short or altered on the
+ * way throws a TransferError.
+ */
+export async function readBundle(text: string): Promise<{ contents: TransferContents; fingerprint: string }> {
+  const bundle = parseBundle(text);
+
+  let verified = false;
+  try {
+    const key = await crypto.subtle.importKey("jwk", bundle.publicKey, SIGNING, false, ["verify"]);
+    verified = await crypto.subtle.verify(SIGNATURE, key, fromBase64(bundle.signature), new TextEncoder().encode(bundle.payload));
+  } catch {
+    verified = false;
+  }
+  if (!verified) throw new TransferError("This bundle's signature doesn't match; it may have been changed", "badSignature");
+
+  try {
+    const contents = checkContents(JSON.parse(await gunzip(bundle.payload)));
+    return { contents, fingerprint: await keyFingerprint(bundle.publicKey) };
+  } catch (error) {
+    if (error instanceof TransferError) throw error;
+    throw new TransferError("This bundle is damaged", "invalid");
+  }
+}
+
+/* ---------- QR FRAMES ---------- */
+
+export interface TransferFrame {
+  // Random per bundle, so frames from two bundles on screen aren't mixed
+  bundleId: string;
+  index: number;
+  total: number;
+  chunk: string;
+}
+
+// The bundle text cut into QR-sized frames, each saying where it belongs
+export function toFrames(text: string): string[] {
+  const bundleId = crypto.randomUUID().slice(0, 8);
+  const total = Math.max(1, Math.ceil(text.length / FRAME_CHARS));
+  return Array.from({ length: total }, (_, index) =>
+    `${FRAME_PREFIX}:${bundleId}:${index + 1}/${total}:${text.slice(index * FRAME_CHARS, (index + 1) * FRAME_CHARS)}`
+  );
+}
+
+// A scanned QR code as a frame, or null if it isn't one of ours
+export function parseFrame(text: string): TransferFrame | null {
+  const match = FRAME_HEADER.exec(text);
+  if (!match) return null;
+
+  const index = Number(match[2]);
+  const total = Number(match[3]);
+  if (index < 1 || index > total) return null;
+  return { bundleId: match[1], index, total, chunk: text.slice(match[0].length) };
+}
+
+// The bundle text once every frame has been seen, otherwise null
+export function joinFrames(frames: Map<number, string>, total: number): string | null {
+  if (frames.size < total) return null;
+  let text = "";
+  for (let index = 1; index <= total; index++) {
+    const chunk = frames.get(index);
+    if (chunk === undefined) return null;
+    text += chunk;
+  }
+  return text;
+}
+
+/* ---------- IMPORT REPORT ---------- */
+
+export interface TransferConflict {
+  table: TableName;
+  id: string;
+  // Which copy the merge kept: the one received, or this device's own
+  kept: "received" | "local";
+  // The received copy's fields, compared with this device's
+  record: BackupRecord;
+  changes: FieldChange[];
+}
+
+export interface TransferSummary {
+  added: number;
+  updated: number;
+  // Records where this device's copy was newer and stays
+  kept: number;
+  unchanged: number;
+  // Damaged rows in the bundle, set aside in the sync page's quarantine
+  invalid: number;
+}
+
+export interface TransferReport {
+  summary: Record<TableName, TransferSummary>;
+  // Records changed on both devices since they last exchanged a bundle
+  conflicts: TransferConflict[];
+  // Register marks the two devices disagree on, left for a teacher to confirm
+  markConflicts: MarkConflict[];
+}
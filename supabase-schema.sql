@@ -6,6 +6,25 @@
 
 -- Enable Row Level Security
 
+-- Studios: every record below belongs to one
+CREATE TABLE studios (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  "createdBy" UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Who can see and change each studio's data (users sign in with Supabase Auth)
+-- Roles match src/lib/permissions.ts: owners run the studio, teachers manage classes,
+-- students and awards, assistants mark registers and give points, viewers only look
+CREATE TABLE studio_members (
+  "studioId" UUID NOT NULL REFERENCES studios(id) ON DELETE CASCADE,
+  "userId" UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'teacher' CHECK (role IN ('owner', 'teacher', 'assistant', 'viewer')),
+  "joinedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY ("studioId", "userId")
+);
+
 -- Classes table
 CREATE TABLE classes (
   id TEXT PRIMARY KEY,
@@ -13,7 +32,12 @@ CREATE TABLE classes (
   color TEXT NOT NULL,
   synced BOOLEAN DEFAULT true,
   "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  deleted BOOLEAN DEFAULT false
+  hlc TEXT COLLATE "C",
+  deleted BOOLEAN DEFAULT false,
+  "deletedAt" TIMESTAMP WITH TIME ZONE,
+  "deletedBy" JSONB,
+  "purgedAt" TIMESTAMP WITH TIME ZONE,
+  "studioId" UUID NOT NULL REFERENCES studios(id) ON DELETE CASCADE
 );
 
 -- Students table
@@ -25,7 +49,12 @@ CREATE TABLE students (
   archived BOOLEAN DEFAULT false,
   synced BOOLEAN DEFAULT true,
   "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  deleted BOOLEAN DEFAULT false
+  hlc TEXT COLLATE "C",
+  deleted BOOLEAN DEFAULT false,
+  "deletedAt" TIMESTAMP WITH TIME ZONE,
+  "deletedBy" JSONB,
+  "purgedAt" TIMESTAMP WITH TIME ZONE,
+  "studioId" UUID NOT NULL REFERENCES studios(id) ON DELETE CASCADE
 );
 
 -- Sessions table (attendance registers)
@@ -35,9 +64,16 @@ CREATE TABLE sessions (
   "startedAtISO" TEXT NOT NULL,
   "closedAtISO" TEXT,
   marks JSONB DEFAULT '{}',
+  "markMeta" JSONB DEFAULT '{}',
+  "markHistory" JSONB DEFAULT '{}',
   synced BOOLEAN DEFAULT true,
   "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  deleted BOOLEAN DEFAULT false
+  hlc TEXT COLLATE "C",
+  deleted BOOLEAN DEFAULT false,
+  "deletedAt" TIMESTAMP WITH TIME ZONE,
+  "deletedBy" JSONB,
+  "purgedAt" TIMESTAMP WITH TIME ZONE,
+  "studioId" UUID NOT NULL REFERENCES studios(id) ON DELETE CASCADE
 );
 
 -- Points table (rewards/points system)
@@ -49,9 +85,16 @@ CREATE TABLE points (
   points INTEGER NOT NULL,
   "createdAtISO" TEXT NOT NULL,
   "sessionId" TEXT,
+  "createdBy" TEXT,
+  teacher JSONB,
   synced BOOLEAN DEFAULT true,
   "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  deleted BOOLEAN DEFAULT false
+  hlc TEXT COLLATE "C",
+  deleted BOOLEAN DEFAULT false,
+  "deletedAt" TIMESTAMP WITH TIME ZONE,
+  "deletedBy" JSONB,
+  "purgedAt" TIMESTAMP WITH TIME ZONE,
+  "studioId" UUID NOT NULL REFERENCES studios(id) ON DELETE CASCADE
 );
 
 -- Awards table (achievements)
@@ -66,7 +109,12 @@ CREATE TABLE awards (
   "decidedBy" TEXT NOT NULL CHECK ("decidedBy" IN ('SYSTEM', 'TEACHER')),
   synced BOOLEAN DEFAULT true,
   "updatedAt" TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  deleted BOOLEAN DEFAULT false
+  hlc TEXT COLLATE "C",
+  deleted BOOLEAN DEFAULT false,
+  "deletedAt" TIMESTAMP WITH TIME ZONE,
+  "deletedBy" JSONB,
+  "purgedAt" TIMESTAMP WITH TIME ZONE,
+  "studioId" UUID NOT NULL REFERENCES studios(id) ON DELETE CASCADE
 );
 
 -- Indexes for better performance
@@ -80,33 +128,219 @@ CREATE INDEX idx_awards_student_id ON awards("studentId");
 CREATE INDEX idx_awards_class_id ON awards("classId");
 CREATE INDEX idx_awards_period ON awards("periodType", "periodKey");
 
+-- Delta pulls fetch one studio's rows by "updatedAt"
+CREATE INDEX idx_classes_studio_updated_at ON classes("studioId", "updatedAt");
+CREATE INDEX idx_students_studio_updated_at ON students("studioId", "updatedAt");
+CREATE INDEX idx_sessions_studio_updated_at ON sessions("studioId", "updatedAt");
+CREATE INDEX idx_points_studio_updated_at ON points("studioId", "updatedAt");
+CREATE INDEX idx_awards_studio_updated_at ON awards("studioId", "updatedAt");
+CREATE INDEX idx_studio_members_user_id ON studio_members("userId");
+
+-- Membership checks for the policies below
+-- SECURITY DEFINER so they can read studio_members without tripping its own policies
+CREATE OR REPLACE FUNCTION is_studio_member(p_studio_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM studio_members
+    WHERE "studioId" = p_studio_id AND "userId" = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_studio_owner(p_studio_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM studio_members
+    WHERE "studioId" = p_studio_id AND "userId" = auth.uid() AND role = 'owner'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_studio_role(p_studio_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM studio_members
+    WHERE "studioId" = p_studio_id AND "userId" = auth.uid() AND role = ANY(p_roles)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Row Level Security (RLS) policies
+ALTER TABLE studios ENABLE ROW LEVEL SECURITY;
+ALTER TABLE studio_members ENABLE ROW LEVEL SECURITY;
 ALTER TABLE classes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE students ENABLE ROW LEVEL SECURITY;
 ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE points ENABLE ROW LEVEL SECURITY;
 ALTER TABLE awards ENABLE ROW LEVEL SECURITY;
 
--- Allow all operations for authenticated users (adjust as needed for your auth setup)
--- For now, allow all operations (you may want to restrict based on user roles later)
-CREATE POLICY "Allow all operations on classes" ON classes FOR ALL USING (true);
-CREATE POLICY "Allow all operations on students" ON students FOR ALL USING (true);
-CREATE POLICY "Allow all operations on sessions" ON sessions FOR ALL USING (true);
-CREATE POLICY "Allow all operations on points" ON points FOR ALL USING (true);
-CREATE POLICY "Allow all operations on awards" ON awards FOR ALL USING (true);
+-- Studios are created and joined through create_studio and add_studio_member below
+CREATE POLICY "Members can view their studios" ON studios
+  FOR SELECT TO authenticated USING (is_studio_member(id));
+CREATE POLICY "Owners can rename their studios" ON studios
+  FOR UPDATE TO authenticated USING (is_studio_owner(id)) WITH CHECK (is_studio_owner(id));
+
+CREATE POLICY "Members can view who else is in their studios" ON studio_members
+  FOR SELECT TO authenticated USING (is_studio_member("studioId"));
+CREATE POLICY "Members can leave and owners can remove" ON studio_members
+  FOR DELETE TO authenticated USING ("userId" = auth.uid() OR is_studio_owner("studioId"));
+
+-- Every member reads their studio's records; writes depend on the member's role
+-- WITH CHECK also stops a record being moved into a studio the member isn't in
+-- The anon key on its own matches none of these
+CREATE POLICY "Studio members view classes" ON classes FOR SELECT TO authenticated
+  USING (is_studio_member("studioId"));
+CREATE POLICY "Teachers add classes" ON classes FOR INSERT TO authenticated
+  WITH CHECK (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+CREATE POLICY "Teachers change classes" ON classes FOR UPDATE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  WITH CHECK (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+CREATE POLICY "Teachers purge classes" ON classes FOR DELETE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+
+CREATE POLICY "Studio members view students" ON students FOR SELECT TO authenticated
+  USING (is_studio_member("studioId"));
+CREATE POLICY "Teachers add students" ON students FOR INSERT TO authenticated
+  WITH CHECK (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+CREATE POLICY "Teachers change students" ON students FOR UPDATE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  WITH CHECK (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+CREATE POLICY "Teachers purge students" ON students FOR DELETE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+
+-- Assistants mark registers and give points, but deleting either (a tombstone) needs a teacher
+CREATE POLICY "Studio members view sessions" ON sessions FOR SELECT TO authenticated
+  USING (is_studio_member("studioId"));
+CREATE POLICY "Assistants add sessions" ON sessions FOR INSERT TO authenticated
+  WITH CHECK (
+    has_studio_role("studioId", ARRAY['owner', 'teacher', 'assistant'])
+    AND (NOT deleted OR has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  );
+CREATE POLICY "Assistants mark sessions" ON sessions FOR UPDATE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher', 'assistant']))
+  WITH CHECK (
+    has_studio_role("studioId", ARRAY['owner', 'teacher', 'assistant'])
+    AND (NOT deleted OR has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  );
+CREATE POLICY "Teachers purge sessions" ON sessions FOR DELETE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+
+CREATE POLICY "Studio members view points" ON points FOR SELECT TO authenticated
+  USING (is_studio_member("studioId"));
+CREATE POLICY "Assistants add points" ON points FOR INSERT TO authenticated
+  WITH CHECK (
+    has_studio_role("studioId", ARRAY['owner', 'teacher', 'assistant'])
+    AND (NOT deleted OR has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  );
+CREATE POLICY "Assistants change points" ON points FOR UPDATE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher', 'assistant']))
+  WITH CHECK (
+    has_studio_role("studioId", ARRAY['owner', 'teacher', 'assistant'])
+    AND (NOT deleted OR has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  );
+CREATE POLICY "Teachers purge points" ON points FOR DELETE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+
+-- The UPDATE policies above check the stored row (USING) and the new one (WITH CHECK)
+-- separately, and refusing deleted rows in USING would fail an assistant's whole
+-- upload. So an assistant may update a deleted register or points, but this keeps
+-- the stored tombstone state; the update's updatedAt stamp sends the row back to
+-- the assistant's device
+CREATE OR REPLACE FUNCTION keep_tombstone_for_assistants()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.deleted IS DISTINCT FROM OLD.deleted
+       AND auth.uid() IS NOT NULL
+       AND NOT has_studio_role(OLD."studioId", ARRAY['owner', 'teacher']) THEN
+        NEW.deleted := OLD.deleted;
+        NEW."deletedAt" := OLD."deletedAt";
+        NEW."deletedBy" := OLD."deletedBy";
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_sessions_deleted BEFORE UPDATE ON sessions FOR EACH ROW EXECUTE FUNCTION keep_tombstone_for_assistants();
+CREATE TRIGGER guard_points_deleted BEFORE UPDATE ON points FOR EACH ROW EXECUTE FUNCTION keep_tombstone_for_assistants();
+
+CREATE POLICY "Studio members view awards" ON awards FOR SELECT TO authenticated
+  USING (is_studio_member("studioId"));
+CREATE POLICY "Teachers add awards" ON awards FOR INSERT TO authenticated
+  WITH CHECK (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+CREATE POLICY "Teachers change awards" ON awards FOR UPDATE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']))
+  WITH CHECK (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+CREATE POLICY "Teachers purge awards" ON awards FOR DELETE TO authenticated
+  USING (has_studio_role("studioId", ARRAY['owner', 'teacher']));
+
+-- Create a studio with the caller as its owner; returns the new studio's id
+CREATE OR REPLACE FUNCTION create_studio(p_name TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a studio';
+  END IF;
+
+  INSERT INTO studios (name, "createdBy") VALUES (p_name, auth.uid()) RETURNING id INTO new_id;
+  INSERT INTO studio_members ("studioId", "userId", role) VALUES (new_id, auth.uid(), 'owner');
+  RETURN new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owners add someone by the email they signed up with, or change their role
+CREATE OR REPLACE FUNCTION add_studio_member(p_studio_id UUID, p_email TEXT, p_role TEXT DEFAULT 'teacher')
+RETURNS VOID AS $$
+DECLARE
+  member_id UUID;
+BEGIN
+  IF NOT is_studio_owner(p_studio_id) THEN
+    RAISE EXCEPTION 'Only studio owners can add people';
+  END IF;
+
+  SELECT id INTO member_id FROM auth.users WHERE lower(email) = lower(p_email);
+  IF member_id IS NULL THEN
+    RAISE EXCEPTION 'No account for %; they need to sign up first', p_email;
+  END IF;
+
+  -- A studio always keeps at least one owner
+  IF p_role <> 'owner' AND NOT EXISTS (
+    SELECT 1 FROM studio_members
+    WHERE "studioId" = p_studio_id AND role = 'owner' AND "userId" <> member_id
+  ) THEN
+    RAISE EXCEPTION 'Add another owner before changing the last one';
+  END IF;
+
+  INSERT INTO studio_members ("studioId", "userId", role)
+  VALUES (p_studio_id, member_id, p_role)
+  ON CONFLICT ("studioId", "userId") DO UPDATE SET role = EXCLUDED.role;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+REVOKE ALL ON FUNCTION create_studio(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION add_studio_member(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_studio(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_studio_member(UUID, TEXT, TEXT) TO authenticated;
 
 -- Updated at trigger function
+-- Stamps server time on insert too, so per-table pull watermarks never skip rows
+-- written by a device whose clock runs behind. An update carrying an older hlc
+-- than the stored row keeps the stored row, restamped so the sender pulls it back
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
 BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.hlc IS NOT NULL AND OLD.hlc IS NOT NULL AND NEW.hlc < OLD.hlc THEN
+        NEW := OLD;
+    END IF;
     NEW."updatedAt" = NOW();
     RETURN NEW;
 END;
 $$ language 'plpgsql';
 
 -- Add updated_at triggers to all tables
-CREATE TRIGGER update_classes_updated_at BEFORE UPDATE ON classes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_students_updated_at BEFORE UPDATE ON students FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_sessions_updated_at BEFORE UPDATE ON sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_points_updated_at BEFORE UPDATE ON points FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_awards_updated_at BEFORE UPDATE ON awards FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_classes_updated_at BEFORE INSERT OR UPDATE ON classes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_students_updated_at BEFORE INSERT OR UPDATE ON students FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_sessions_updated_at BEFORE INSERT OR UPDATE ON sessions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_points_updated_at BEFORE INSERT OR UPDATE ON points FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_awards_updated_at BEFORE INSERT OR UPDATE ON awards FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Open registers hear about other devices' marks and points over Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE sessions, points;
@@ -0,0 +1,94 @@
+// Custom service worker code, bundled into public/ by next-pwa alongside sw.js
+// Uploads the outbox when the browser fires a Background Sync event, which can
+// happen after every tab of the app has been closed
+
+import { LocalDatabase, IndexedDbStore, ENTITY_TABLES, listLocalDatabaseNames } from "../src/lib/local-db";
+import { drainOutbox } from "../src/lib/outbox";
+import {
+  OUTBOX_SYNC_TAG,
+  OUTBOX_FLUSHED_MESSAGE,
+  SUPABASE_CONFIG_KEY,
+  type OutboxFlushedMessage,
+  type SupabaseConfig,
+} from "../src/lib/background-sync";
+
+// Only the parts of the service worker scope used here; the DOM typings don't include it
+interface SyncEvent extends Event {
+  tag: string;
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface WorkerScope {
+  addEventListener(type: "sync", listener: (event: SyncEvent) => void): void;
+  clients: {
+    matchAll(options?: { includeUncontrolled?: boolean; type?: string }): Promise<{ postMessage(message: unknown): void }[]>;
+  };
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Supabase's REST endpoint, called directly since the worker doesn't bundle supabase-js
+async function upload(config: SupabaseConfig, table: string, records: { id: string }[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const response = await fetch(`${config.url}/rest/v1/${table}?on_conflict=id`, {
+    method: "POST",
+    headers: {
+      apikey: config.anonKey,
+      Authorization: `Bearer ${config.accessToken ?? config.anonKey}`,
+      "Content-Type": "application/json",
+      Prefer: "resolution=merge-duplicates,return=minimal",
+    },
+    body: JSON.stringify(records.map(record => ({ ...record, synced: true }))),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Upload to ${table} failed: ${response.status} ${await response.text()}`);
+  }
+}
+
+// Flush one studio's outbox (or the device-only one) with the config the app left in it
+async function flushDatabase(name: string): Promise<void> {
+  const db = new LocalDatabase(name);
+  const store = new IndexedDbStore(db);
+  try {
+    const config = await store.getMeta(SUPABASE_CONFIG_KEY) as SupabaseConfig | undefined;
+    // The app hasn't run online yet, or this data can't be uploaded; it will push everything itself
+    if (!config) return;
+
+    const flushed: string[] = [];
+    try {
+      await drainOutbox(store, ENTITY_TABLES, (table, records) => upload(config, table, records), table => {
+        flushed.push(table);
+      });
+    } finally {
+      // Tell any open tabs, even if a later table failed and the sync will be retried
+      if (flushed.length > 0) {
+        const message: OutboxFlushedMessage = { type: OUTBOX_FLUSHED_MESSAGE, tables: flushed };
+        const clients = await scope.clients.matchAll({ includeUncontrolled: true, type: "window" });
+        clients.forEach(client => client.postMessage(message));
+      }
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// Every studio used on this device, so switching studios doesn't strand queued changes
+async function flushOutbox(): Promise<void> {
+  const failures: unknown[] = [];
+  for (const name of await listLocalDatabaseNames()) {
+    try {
+      await flushDatabase(name);
+    } catch (error) {
+      failures.push(error);
+    }
+  }
+  if (failures.length > 0) throw failures[0];
+}
+
+scope.addEventListener("sync", event => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+  // A rejection tells the browser to retry later with its own backoff
+  event.waitUntil(flushOutbox());
+});